@@ -0,0 +1,86 @@
+/**
+ * Escenarios del gateway simulado. Cada paso dura lo que indica y se ejecutan en orden
+ * (con `loop` vuelven a empezar):
+ *
+ * - `{ pass: { tags, antennas?, durationMs?, readsPerSecond?, reader? } }` – etiquetas pasando
+ *   por el túnel: se leen al azar entre las antenas durante `durationMs`.
+ * - `{ noise: { count?, tags?, antennas?, durationMs?, readsPerSecond?, rssi?, reader? } }` –
+ *   antena ruidosa: EPC aleatorios (o `tags` fuera de lugar) con RSSI bajo.
+ * - `{ garbage: n }` – n payloads que la webapp debe rechazar.
+ * - `{ wait: ms }` – silencio.
+ * - `{ disconnect: ms }` – cierra SSE/WS y responde 503 durante `ms`.
+ *
+ * `maletas` se carga en `/api/maletas` al arrancar para que la webapp las sincronice.
+ */
+
+const CAJA_LAPAROSCOPIA = {
+  id: 'maleta_sim_1',
+  name: 'Caja laparoscopía',
+  masterRfid: 'E28011600000000000000A01',
+  productRfids: ['E28011600000000000000B01', 'E28011600000000000000B02', 'E28011600000000000000B03'],
+};
+
+const CAJA_ORTOPEDIA = {
+  id: 'maleta_sim_2',
+  name: 'Caja ortopedia',
+  masterRfid: 'E28011600000000000000A02',
+  productRfids: [
+    'E28011600000000000000C01',
+    'E28011600000000000000C02',
+    'E28011600000000000000C03',
+    'E28011600000000000000C04',
+  ],
+};
+
+const CAJA_CURACION = {
+  id: 'maleta_sim_3',
+  name: 'Caja curación',
+  masterRfid: 'E28011600000000000000A03',
+  productRfids: ['E28011600000000000000D01', 'E28011600000000000000D02'],
+};
+
+const MALETAS = [CAJA_LAPAROSCOPIA, CAJA_ORTOPEDIA, CAJA_CURACION];
+
+const all = (m) => [m.masterRfid, ...m.productRfids];
+
+export const SCENARIOS = {
+  maletas: {
+    description: 'Tres maletas pasan por el túnel: completa, con un faltante y con un extra.',
+    loop: true,
+    maletas: MALETAS,
+    steps: [
+      { pass: { tags: all(CAJA_LAPAROSCOPIA), durationMs: 2500 } },
+      { wait: 5000 },
+      { pass: { tags: all(CAJA_ORTOPEDIA).slice(0, -1), durationMs: 2500 } },
+      { wait: 5000 },
+      { pass: { tags: [...all(CAJA_CURACION), 'E2801160000000000000FF01'], durationMs: 2500 } },
+      { wait: 8000 },
+    ],
+  },
+  ruido: {
+    description: 'Pasadas normales con una antena ruidosa y payloads inválidos.',
+    loop: true,
+    maletas: MALETAS,
+    steps: [
+      { noise: { count: 20, antennas: [3], durationMs: 4000, readsPerSecond: 15 } },
+      { pass: { tags: all(CAJA_LAPAROSCOPIA), antennas: [1, 2], durationMs: 2500 } },
+      { noise: { tags: all(CAJA_ORTOPEDIA), antennas: [4], durationMs: 2000, readsPerSecond: 3 } },
+      { garbage: 3 },
+      { wait: 4000 },
+    ],
+  },
+  desconexiones: {
+    description: 'Pasadas intercaladas con caídas del stream (SSE/WS) y del REST.',
+    loop: true,
+    maletas: MALETAS,
+    steps: [
+      { pass: { tags: all(CAJA_LAPAROSCOPIA), durationMs: 2500 } },
+      { wait: 3000 },
+      { disconnect: 6000 },
+      { pass: { tags: all(CAJA_CURACION), durationMs: 2500 } },
+      { wait: 3000 },
+      { disconnect: 15000 },
+      { wait: 3000 },
+    ],
+  },
+};
@@ -0,0 +1,448 @@
+#!/usr/bin/env node
+/**
+ * Gateway RFID simulado: las mismas rutas REST que usa `RfidApi`, el stream SSE
+ * `/api/realtime/events` y el WebSocket `/ws/events`, sin lectores ni red. Solo usa módulos
+ * de Node.
+ *
+ *   node mock-gateway/server.mjs [--port 8080] [--scenario maletas|ruido|desconexiones|archivo.json]
+ *                                [--readers 1] [--autostart]
+ *
+ * También se puede importar (`startMockGateway`) para levantarlo desde pruebas.
+ */
+import { createServer } from 'node:http';
+import { createHash, randomBytes } from 'node:crypto';
+import { readFileSync } from 'node:fs';
+import { pathToFileURL } from 'node:url';
+import { SCENARIOS } from './scenarios.mjs';
+
+const ANTENNAS_PER_READER = 4;
+const HEARTBEAT_MS = 10000;
+/** Eventos que se guardan para reenviar a quien reconecta con `lastEventId`. */
+const REPLAY_BUFFER = 1000;
+const WS_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+/** Mismos usuarios de prueba que `LocalAuthProvider` (contraseña = usuario). */
+const USERS = {
+  operador: { username: 'operador', name: 'Operador de prueba', role: 'operator' },
+  supervisor: { username: 'supervisor', name: 'Supervisor de prueba', role: 'supervisor' },
+  admin: { username: 'admin', name: 'Administrador de prueba', role: 'admin' },
+};
+const TOKEN_SECONDS = 15 * 60;
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization, Last-Event-ID',
+};
+
+const sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+const pick = (list) => list[Math.floor(Math.random() * list.length)];
+const randomEpc = () => 'E280' + randomBytes(10).toString('hex').toUpperCase();
+
+function loadScenario(name) {
+  if (SCENARIOS[name]) return SCENARIOS[name];
+  try {
+    return JSON.parse(readFileSync(name, 'utf8'));
+  } catch (e) {
+    throw new Error(`Escenario desconocido o archivo inválido: ${name} (${e.message})`);
+  }
+}
+
+/** Trama WebSocket de servidor (sin máscara). */
+function wsFrame(text, opcode = 0x1) {
+  const payload = Buffer.from(text);
+  let header;
+  if (payload.length < 126) {
+    header = Buffer.from([0x80 | opcode, payload.length]);
+  } else if (payload.length < 65536) {
+    header = Buffer.alloc(4);
+    header[0] = 0x80 | opcode;
+    header[1] = 126;
+    header.writeUInt16BE(payload.length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[0] = 0x80 | opcode;
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(payload.length), 2);
+  }
+  return Buffer.concat([header, payload]);
+}
+
+/**
+ * Levanta el gateway simulado. Devuelve el servidor, el estado en memoria y `close()`.
+ * `scenario` es el nombre de uno de SCENARIOS, la ruta de un JSON o el objeto ya cargado.
+ */
+export function startMockGateway({
+  port = 8080,
+  scenario = 'maletas',
+  readers: readerCount = 1,
+  autostart = false,
+  log = console.log,
+} = {}) {
+  const plan = typeof scenario === 'string' ? loadScenario(scenario) : scenario;
+
+  const readers = Array.from({ length: readerCount }, (_, i) => ({
+    id: `reader${i + 1}`,
+    name: `Túnel simulado ${i + 1}`,
+    connected: true,
+    reading: autostart,
+  }));
+  const antennas = readers.flatMap((r) =>
+    Array.from({ length: ANTENNAS_PER_READER }, (_, i) => ({
+      id: `${r.id}-ant${i + 1}`,
+      readerId: r.id,
+      name: `Antena ${i + 1}`,
+      port: i + 1,
+      enabled: true,
+      txPowerDbm: 30,
+      rxSensitivityDbm: -70,
+    }))
+  );
+  const now = new Date().toISOString();
+  const maletas = (plan.maletas ?? []).map((m) => ({
+    createdAt: now,
+    updatedAt: now,
+    ...m,
+  }));
+  const surgeries = [];
+
+  const sseClients = new Set();
+  const wsClients = new Set();
+  const history = [];
+  let eventSeq = 0;
+  let offlineUntil = 0;
+  let stopped = false;
+
+  const offline = () => Date.now() < offlineUntil;
+  const findReader = (id) => readers.find((r) => r.id === id);
+
+  function broadcast(payload) {
+    const id = String(++eventSeq);
+    const data = JSON.stringify({ eventId: id, ...payload });
+    history.push({ id, readerId: payload.readerId, data });
+    if (history.length > REPLAY_BUFFER) history.shift();
+    for (const client of sseClients) {
+      if (client.readerId && payload.readerId && client.readerId !== payload.readerId) continue;
+      client.res.write(`id: ${id}\nevent: tag\ndata: ${data}\n\n`);
+    }
+    for (const socket of wsClients) socket.write(wsFrame(data));
+  }
+
+  function emitReads(reader, tags, antennaPorts, rssiRange) {
+    if (!reader?.reading || !reader.connected || offline()) return;
+    const enabled = antennas.filter(
+      (a) => a.readerId === reader.id && a.enabled && antennaPorts.includes(a.port)
+    );
+    if (enabled.length === 0) return;
+    const count = 1 + Math.floor(Math.random() * 3);
+    const reads = Array.from({ length: count }, () => {
+      const [min, max] = rssiRange;
+      return {
+        epc: pick(tags),
+        antennaPort: pick(enabled).port,
+        rssi: Math.round(min + Math.random() * (max - min)),
+        phase: Math.round(Math.random() * 360),
+        channel: 902.75 + Math.floor(Math.random() * 50) * 0.5,
+        timestamp: new Date().toISOString(),
+      };
+    });
+    broadcast({ type: 'tag', readerId: reader.id, tags: reads });
+  }
+
+  function dropStreams() {
+    for (const client of sseClients) client.res.destroy();
+    sseClients.clear();
+    for (const socket of wsClients) {
+      socket.write(wsFrame('', 0x8));
+      socket.destroy();
+    }
+    wsClients.clear();
+  }
+
+  async function readFor(opts, tagsFor, defaultRssi) {
+    const reader = findReader(opts.reader) ?? readers[0];
+    const ports = opts.antennas ?? Array.from({ length: ANTENNAS_PER_READER }, (_, i) => i + 1);
+    const interval = 1000 / (opts.readsPerSecond ?? 10);
+    const end = Date.now() + (opts.durationMs ?? 2000);
+    while (!stopped && Date.now() < end) {
+      emitReads(reader, tagsFor(), ports, opts.rssi ?? defaultRssi);
+      await sleep(interval);
+    }
+  }
+
+  async function runStep(step) {
+    if (step.pass) {
+      await readFor(step.pass, () => step.pass.tags, [-60, -40]);
+    } else if (step.noise) {
+      const n = step.noise;
+      await readFor(n, () => n.tags ?? Array.from({ length: n.count ?? 10 }, randomEpc), [-85, -70]);
+    } else if (step.garbage) {
+      for (let i = 0; i < step.garbage && !offline(); i++) {
+        broadcast({ type: 'unknown', payload: 'sin tags' });
+      }
+    } else if (step.wait) {
+      await sleep(step.wait);
+    } else if (step.disconnect) {
+      log(`[mock] desconexión por ${step.disconnect} ms`);
+      offlineUntil = Date.now() + step.disconnect;
+      dropStreams();
+      await sleep(step.disconnect);
+      log('[mock] reconectado');
+    }
+  }
+
+  async function runScenario() {
+    do {
+      for (const step of plan.steps ?? []) {
+        if (stopped) return;
+        await runStep(step);
+      }
+    } while (plan.loop && !stopped);
+  }
+
+  const heartbeat = setInterval(() => {
+    if (offline()) return;
+    const data = JSON.stringify({ type: 'heartbeat', timestamp: new Date().toISOString() });
+    for (const client of sseClients) client.res.write(`data: ${data}\n\n`);
+    for (const socket of wsClients) socket.write(wsFrame(data));
+  }, HEARTBEAT_MS);
+
+  function send(res, status, body) {
+    res.writeHead(status, { ...CORS_HEADERS, 'Content-Type': 'application/json' });
+    res.end(body === undefined ? '' : JSON.stringify(body));
+  }
+
+  function readBody(req) {
+    return new Promise((resolve) => {
+      let raw = '';
+      req.on('data', (chunk) => (raw += chunk));
+      req.on('end', () => {
+        try {
+          resolve(raw ? JSON.parse(raw) : {});
+        } catch {
+          resolve({});
+        }
+      });
+    });
+  }
+
+  function openSse(req, res, url) {
+    res.writeHead(200, {
+      ...CORS_HEADERS,
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+    });
+    res.write('retry: 2000\n\n');
+    const client = { res, readerId: url.searchParams.get('readerId') };
+    const lastId = Number(url.searchParams.get('lastEventId') ?? req.headers['last-event-id'] ?? 0);
+    for (const ev of history) {
+      if (Number(ev.id) <= lastId) continue;
+      if (client.readerId && ev.readerId && ev.readerId !== client.readerId) continue;
+      res.write(`id: ${ev.id}\nevent: tag\ndata: ${ev.data}\n\n`);
+    }
+    sseClients.add(client);
+    req.on('close', () => sseClients.delete(client));
+  }
+
+  function issueTokens(user) {
+    const stamp = Date.now();
+    return {
+      accessToken: `mock.${user.username}.${stamp}`,
+      refreshToken: `refresh.${user.username}.${stamp}`,
+      expiresIn: TOKEN_SECONDS,
+      user,
+    };
+  }
+
+  async function route(req, res) {
+    const url = new URL(req.url, 'http://localhost');
+    const parts = url.pathname.split('/').filter(Boolean);
+    const method = req.method;
+
+    if (method === 'OPTIONS') return send(res, 204);
+    if (offline()) return send(res, 503, { message: 'Gateway simulado sin conexión' });
+    if (parts[0] !== 'api') return send(res, 404, { message: 'No encontrado' });
+
+    const [, resource, id, action, sub] = parts;
+
+    if (resource === 'realtime' && id === 'events' && method === 'GET') {
+      return openSse(req, res, url);
+    }
+
+    if (resource === 'auth' && method === 'POST') {
+      const body = await readBody(req);
+      if (id === 'login') {
+        const user = USERS[String(body.username ?? '').trim().toLowerCase()];
+        if (!user || body.password !== user.username) {
+          return send(res, 401, { message: 'Usuario o contraseña incorrectos' });
+        }
+        return send(res, 200, issueTokens(user));
+      }
+      if (id === 'refresh') {
+        const user = USERS[String(body.refreshToken ?? '').split('.')[1]];
+        if (!user) return send(res, 401, { message: 'Sesión inválida' });
+        return send(res, 200, issueTokens(user));
+      }
+    }
+
+    if (resource === 'readers') {
+      if (!id) return send(res, 200, readers.map(({ id, name }) => ({ id, name })));
+      const reader = findReader(id);
+      if (!reader) return send(res, 404, { message: `Lector ${id} no encontrado` });
+      if (!action && method === 'GET') return send(res, 200, { id: reader.id, name: reader.name });
+      if (action === 'status') {
+        return send(res, 200, { connected: reader.connected, reading: reader.reading });
+      }
+      if (method !== 'POST') return send(res, 405, { message: 'Método no permitido' });
+      if (action === 'start' && !reader.connected) {
+        return send(res, 409, {
+          message: `Lector ${reader.id} desconectado`,
+          code: 'READER_DISCONNECTED',
+          readerId: reader.id,
+        });
+      }
+      if (action === 'start') reader.reading = true;
+      else if (action === 'stop') reader.reading = false;
+      else if (action === 'reset') reader.reading = false;
+      else if (action === 'reboot') {
+        reader.reading = false;
+        reader.connected = false;
+        setTimeout(() => (reader.connected = true), 3000);
+      } else if (action === 'antennas' && sub === 'reset') {
+        antennas
+          .filter((a) => a.readerId === reader.id)
+          .forEach((a) => Object.assign(a, { enabled: true, txPowerDbm: 30, rxSensitivityDbm: -70 }));
+      } else return send(res, 404, { message: 'Acción desconocida' });
+      log(`[mock] ${reader.id} ${action}`);
+      return send(res, 200, { ok: true });
+    }
+
+    if (resource === 'antennas') {
+      if (!id) return send(res, 200, antennas);
+      const antenna = antennas.find((a) => a.id === id);
+      if (!antenna) return send(res, 404, { message: `Antena ${id} no encontrada` });
+      if (method === 'GET') return send(res, 200, antenna);
+      if (method === 'PUT') {
+        const body = await readBody(req);
+        for (const key of ['name', 'enabled', 'txPowerDbm', 'rxSensitivityDbm']) {
+          if (body[key] !== undefined) antenna[key] = body[key];
+        }
+        return send(res, 200, antenna);
+      }
+      if (method === 'POST' && action === 'reset') {
+        Object.assign(antenna, { enabled: true, txPowerDbm: 30, rxSensitivityDbm: -70 });
+        return send(res, 200, { ok: true });
+      }
+    }
+
+    if (resource === 'surgeries') {
+      if (!id && method === 'GET') return send(res, 200, surgeries);
+      if (!id && method === 'POST') {
+        const body = await readBody(req);
+        const surgery = { ...body, id: surgeries.reduce((max, s) => Math.max(max, s.id), 0) + 1 };
+        surgeries.push(surgery);
+        return send(res, 201, surgery);
+      }
+      const surgery = surgeries.find((s) => s.id === Number(id));
+      if (!surgery) return send(res, 404, { message: `Cirugía ${id} no encontrada` });
+      if (method === 'PUT') {
+        Object.assign(surgery, await readBody(req), { id: surgery.id });
+        return send(res, 200, surgery);
+      }
+    }
+
+    if (resource === 'maletas') {
+      if (!id && method === 'GET') return send(res, 200, maletas);
+      const i = maletas.findIndex((m) => m.id === id);
+      if (method === 'PUT') {
+        const maleta = { ...(await readBody(req)), id };
+        if (i >= 0) maletas[i] = maleta;
+        else maletas.push(maleta);
+        return send(res, 200, maleta);
+      }
+      if (method === 'DELETE') {
+        if (i < 0) return send(res, 404, { message: `Maleta ${id} no encontrada` });
+        maletas.splice(i, 1);
+        return send(res, 204);
+      }
+    }
+
+    return send(res, 404, { message: 'No encontrado' });
+  }
+
+  const server = createServer((req, res) => {
+    route(req, res).catch((e) => send(res, 500, { message: e.message }));
+  });
+
+  server.on('upgrade', (req, socket) => {
+    const url = new URL(req.url, 'http://localhost');
+    const key = req.headers['sec-websocket-key'];
+    if (url.pathname !== '/ws/events' || !key || offline()) {
+      socket.destroy();
+      return;
+    }
+    const accept = createHash('sha1').update(key + WS_GUID).digest('base64');
+    socket.write(
+      'HTTP/1.1 101 Switching Protocols\r\n' +
+        'Upgrade: websocket\r\n' +
+        'Connection: Upgrade\r\n' +
+        `Sec-WebSocket-Accept: ${accept}\r\n\r\n`
+    );
+    wsClients.add(socket);
+    socket.on('data', (buf) => {
+      const opcode = buf[0] & 0x0f;
+      if (opcode === 0x8) {
+        socket.end(wsFrame('', 0x8));
+      } else if (opcode === 0x9) {
+        socket.write(wsFrame('', 0xa));
+      }
+    });
+    socket.on('close', () => wsClients.delete(socket));
+    socket.on('error', () => wsClients.delete(socket));
+  });
+
+  server.listen(port, () => {
+    log(`[mock] gateway simulado en http://localhost:${port}`);
+    log(`[mock] escenario: ${plan.description ?? scenario}`);
+    runScenario().catch((e) => log(`[mock] error en escenario: ${e.message}`));
+  });
+
+  return {
+    server,
+    readers,
+    antennas,
+    maletas,
+    surgeries,
+    close() {
+      stopped = true;
+      clearInterval(heartbeat);
+      dropStreams();
+      return new Promise((resolve) => server.close(() => resolve()));
+    },
+  };
+}
+
+function parseArgs(argv) {
+  const args = {};
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--autostart') args.autostart = true;
+    else if (arg === '--port') args.port = Number(argv[++i]);
+    else if (arg === '--readers') args.readers = Number(argv[++i]);
+    else if (arg === '--scenario') args.scenario = argv[++i];
+    else if (arg === '--help') args.help = true;
+  }
+  return args;
+}
+
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const args = parseArgs(process.argv.slice(2));
+  if (args.help) {
+    console.log('Uso: node mock-gateway/server.mjs [--port 8080] [--scenario nombre|archivo.json]');
+    console.log('                                  [--readers 1] [--autostart]');
+    for (const [name, s] of Object.entries(SCENARIOS)) console.log(`  ${name}: ${s.description}`);
+    process.exit(0);
+  }
+  const gateway = startMockGateway(args);
+  process.on('SIGINT', () => gateway.close().then(() => process.exit(0)));
+}
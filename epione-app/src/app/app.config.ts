@@ -1,13 +1,34 @@
-import { ApplicationConfig, provideBrowserGlobalErrorListeners } from '@angular/core';
+import {
+  ApplicationConfig,
+  inject,
+  provideAppInitializer,
+  provideBrowserGlobalErrorListeners,
+} from '@angular/core';
 import { provideRouter } from '@angular/router';
-import { provideHttpClient } from '@angular/common/http';
+import { provideHttpClient, withInterceptors } from '@angular/common/http';
 
 import { routes } from './app.routes';
+import { InventoryStore } from './services/inventory-store';
+import { CycleCountStore } from './services/cycle-count-store';
+import { ReadSessionStore } from './services/read-session-store';
+import { SterilizationStore } from './services/sterilization-store';
+import { authInterceptor } from './services/auth-interceptor';
+import { gatewayErrorInterceptor } from './services/gateway-error-interceptor';
 
 export const appConfig: ApplicationConfig = {
   providers: [
     provideBrowserGlobalErrorListeners(),
     provideRouter(routes),
-    provideHttpClient()
+    provideHttpClient(withInterceptors([gatewayErrorInterceptor, authInterceptor])),
+    /*
+     * Inventario, conteos, sesiones de lectura y esterilización se crean al arrancar y toman el
+     * stream mientras lo necesitan (activos, conteo o sesión abiertos, estaciones configuradas).
+     */
+    provideAppInitializer(() => {
+      inject(InventoryStore);
+      inject(CycleCountStore);
+      inject(ReadSessionStore);
+      inject(SterilizationStore);
+    })
   ]
 };
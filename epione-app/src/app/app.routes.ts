@@ -6,15 +6,18 @@ import { Config } from './pages/config/config';
 import { Lectura } from './pages/demo-tunel-rfid/lectura/lectura';
 import { Maleta } from './pages/demo-tunel-rfid/maleta/maleta';
 import { IcuInterventions } from './pages/icu-interventions/icu-interventions';
+import { Login } from './pages/login/login';
+import { authGuard } from './services/auth-guard';
 
 export const routes: Routes = [
-  { path: '', component: Home },
-  { path: 'icu-interventions', component: IcuInterventions },
-  { path: 'inventario', component: Inventario },
-  { path: 'reportes', component: Reportes },
-  { path: 'config', component: Config },
+  { path: 'login', component: Login },
+  { path: '', component: Home, canActivate: [authGuard] },
+  { path: 'icu-interventions', component: IcuInterventions, canActivate: [authGuard] },
+  { path: 'inventario', component: Inventario, canActivate: [authGuard] },
+  { path: 'reportes', component: Reportes, canActivate: [authGuard] },
+  { path: 'config', component: Config, canActivate: [authGuard], data: { permission: 'config' } },
   { path: 'demo-tunel-rfid', redirectTo: 'demo-tunel-rfid/lectura', pathMatch: 'full' },
-  { path: 'demo-tunel-rfid/lectura', component: Lectura },
-  { path: 'demo-tunel-rfid/maleta', component: Maleta },
+  { path: 'demo-tunel-rfid/lectura', component: Lectura, canActivate: [authGuard] },
+  { path: 'demo-tunel-rfid/maleta', component: Maleta, canActivate: [authGuard] },
   { path: '**', redirectTo: '' }
 ];
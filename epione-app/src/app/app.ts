@@ -1,16 +1,39 @@
 import { Component } from '@angular/core';
+import { FormsModule } from '@angular/forms';
 import { Router, RouterLink, RouterLinkActive, RouterOutlet } from '@angular/router';
+import { GatewayProfile, GatewayProfileStore } from './services/gateway-profile-store';
+import { AuthStore, roleLabel } from './services/auth-store';
+import { NotificationCenter } from './notification-center/notification-center';
 
 @Component({
   selector: 'app-root',
-  imports: [RouterLink, RouterLinkActive, RouterOutlet],
+  imports: [FormsModule, NotificationCenter, RouterLink, RouterLinkActive, RouterOutlet],
   templateUrl: './app.html',
   styleUrl: './app.css'
 })
 export class App {
   sidebarOpen = false;
 
-  constructor(private router: Router) {}
+  constructor(
+    private router: Router,
+    public gateways: GatewayProfileStore,
+    public auth: AuthStore
+  ) {}
+
+  get userRoleLabel(): string {
+    return this.auth.user ? roleLabel(this.auth.user.role) : '';
+  }
+
+  logout(): void {
+    this.auth.logout();
+    this.router.navigate(['/login']);
+  }
+
+  /** Perfil fijado por la pantalla abierta; mientras exista, el selector global no la afecta. */
+  get pinnedProfile(): GatewayProfile | undefined {
+    const page = this.gateways.page;
+    return page ? this.gateways.pinFor(page) : undefined;
+  }
 
   get isDemoTunelActive(): boolean {
     return this.router.url.includes('demo-tunel-rfid');
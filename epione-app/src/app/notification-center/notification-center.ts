@@ -0,0 +1,79 @@
+import { ChangeDetectorRef, Component, HostListener, OnDestroy, OnInit } from '@angular/core';
+import { DatePipe } from '@angular/common';
+import { Subscription } from 'rxjs';
+import {
+  AppNotification,
+  NotificationLevel,
+  NotificationStore,
+} from '../services/notification-store';
+
+/** Campana de la barra superior con el historial de avisos, y los toasts abajo a la derecha. */
+@Component({
+  selector: 'app-notification-center',
+  imports: [DatePipe],
+  templateUrl: './notification-center.html',
+  styleUrl: './notification-center.css',
+})
+export class NotificationCenter implements OnInit, OnDestroy {
+  toasts: AppNotification[] = [];
+  history: AppNotification[] = [];
+  open = false;
+
+  private subs = new Subscription();
+
+  constructor(
+    private notifications: NotificationStore,
+    private cdr: ChangeDetectorRef
+  ) {}
+
+  ngOnInit(): void {
+    this.subs.add(
+      this.notifications.toasts$.subscribe((list) => {
+        this.toasts = list;
+        this.cdr.markForCheck();
+      })
+    );
+    this.subs.add(
+      this.notifications.history$.subscribe((list) => {
+        this.history = list;
+        if (this.open) this.notifications.markAllRead();
+        this.cdr.markForCheck();
+      })
+    );
+  }
+
+  ngOnDestroy(): void {
+    this.subs.unsubscribe();
+  }
+
+  get unreadCount(): number {
+    return this.notifications.unreadCount;
+  }
+
+  toggle(): void {
+    this.open = !this.open;
+    if (this.open) this.notifications.markAllRead();
+  }
+
+  @HostListener('document:keydown.escape')
+  close(): void {
+    this.open = false;
+  }
+
+  dismiss(n: AppNotification): void {
+    this.notifications.dismiss(n.id);
+  }
+
+  clearHistory(): void {
+    this.notifications.clearHistory();
+  }
+
+  icon(level: NotificationLevel): string {
+    switch (level) {
+      case 'error': return 'error';
+      case 'warning': return 'warning';
+      case 'success': return 'check_circle';
+      case 'info': return 'info';
+    }
+  }
+}
@@ -1,11 +1,379 @@
-import { Component } from '@angular/core';
+import { ChangeDetectorRef, Component, OnDestroy, OnInit } from '@angular/core';
+import { FormsModule } from '@angular/forms';
+import { forkJoin, Observable, of, Subscription } from 'rxjs';
+import { catchError, map, skip } from 'rxjs/operators';
+import { RfidApi, Reader, Antenna } from '../../services/rfid-api';
+import { errorMessage } from '../../services/gateway-error';
+import {
+  GATEWAY_PAGES,
+  GatewayAuthMode,
+  GatewayPage,
+  GatewayProfile,
+  GatewayProfileInput,
+  GatewayProfileStore,
+  gatewayAuthLabel,
+  gatewayPageLabel,
+  gatewayProfileError,
+} from '../../services/gateway-profile-store';
+
+/** Campos editables de una antena; lo que el gateway no reporta queda undefined o null. */
+interface AntennaSettings {
+  enabled: boolean | undefined;
+  txPowerDbm: number | null;
+  rxSensitivityDbm: number | null;
+}
+
+interface AntennaGroup {
+  readerId: string;
+  readerName: string;
+  antennas: Antenna[];
+}
+
+interface AntennaChange {
+  antenna: Antenna;
+  field: keyof AntennaSettings;
+  before: AntennaSettings[keyof AntennaSettings];
+  after: AntennaSettings[keyof AntennaSettings];
+}
+
+interface ApplyResult {
+  antennaId: string;
+  ok: boolean;
+  message: string;
+}
+
+/** Rangos admitidos por los lectores del túnel (dBm). */
+const TX_POWER_RANGE = { min: 10, max: 33 };
+const RX_SENSITIVITY_RANGE = { min: -90, max: -30 };
+
+/** Se guarda por perfil (`<clave>_<id del perfil>`): los IDs de antena se repiten entre gateways. */
+const LAST_KNOWN_GOOD_KEY = 'antenna_last_known_good';
+
+function emptyProfile(): GatewayProfileInput {
+  return { label: '', url: '', authMode: 'none', token: '', defaultReaderId: '' };
+}
 
 @Component({
   selector: 'app-config',
-  imports: [],
+  imports: [FormsModule],
   templateUrl: './config.html',
   styleUrl: './config.css',
 })
-export class Config {
+export class Config implements OnInit, OnDestroy {
+  /** Formulario de perfil abierto; `editingProfileId` null = perfil nuevo. */
+  showProfileForm = false;
+  editingProfileId: string | null = null;
+  profileForm: GatewayProfileInput = emptyProfile();
+  readonly gatewayPages = GATEWAY_PAGES;
+  readonly authModes: GatewayAuthMode[] = ['none', 'bearer'];
+
+  readers: Reader[] = [];
+  antennas: Antenna[] = [];
+  loading = false;
+  applying = false;
+
+  /** Valores editados por antena (id → ajustes). */
+  drafts: Record<string, AntennaSettings> = {};
+  /** Configuración marcada como buena por el operador (o la primera cargada); se usa para "revertir". */
+  lastKnownGood: Record<string, AntennaSettings> = {};
+  results: ApplyResult[] = [];
+  /** Perfil al que corresponde `lastKnownGood`. */
+  private lastKnownGoodProfileId = '';
+
+  readonly txRange = TX_POWER_RANGE;
+  readonly rxRange = RX_SENSITIVITY_RANGE;
+
+  private subs = new Subscription();
+
+  constructor(
+    public api: RfidApi,
+    public gateways: GatewayProfileStore,
+    private cdr: ChangeDetectorRef
+  ) {}
+
+  ngOnInit(): void {
+    this.loadLastKnownGood();
+    this.load();
+    /* Las antenas son del gateway global: se recargan si cambia. */
+    this.subs.add(
+      this.gateways.active$.pipe(skip(1)).subscribe(() => {
+        this.readers = [];
+        this.antennas = [];
+        this.resetDrafts();
+        this.loadLastKnownGood();
+        this.load();
+      })
+    );
+  }
+
+  ngOnDestroy(): void {
+    this.subs.unsubscribe();
+  }
+
+  gatewayAuthLabel(mode: GatewayAuthMode): string {
+    return gatewayAuthLabel(mode);
+  }
+
+  gatewayPageLabel(page: GatewayPage): string {
+    return gatewayPageLabel(page);
+  }
+
+  pinnedProfile(page: GatewayPage): GatewayProfile | undefined {
+    return this.gateways.pinFor(page);
+  }
+
+  newProfile(): void {
+    this.editingProfileId = null;
+    this.profileForm = emptyProfile();
+    this.showProfileForm = true;
+  }
+
+  editProfile(p: GatewayProfile): void {
+    this.editingProfileId = p.id;
+    this.profileForm = {
+      label: p.label,
+      url: p.url,
+      authMode: p.authMode,
+      token: p.token ?? '',
+      defaultReaderId: p.defaultReaderId ?? '',
+    };
+    this.showProfileForm = true;
+  }
+
+  cancelProfile(): void {
+    this.showProfileForm = false;
+    this.editingProfileId = null;
+  }
+
+  get profileFormError(): string {
+    return gatewayProfileError(this.profileForm);
+  }
+
+  saveProfile(): void {
+    if (this.profileFormError) return;
+    const f = this.profileForm;
+    const input: GatewayProfileInput = {
+      label: f.label.trim(),
+      url: f.url.trim(),
+      authMode: f.authMode,
+      token: f.authMode === 'bearer' ? f.token?.trim() : undefined,
+      defaultReaderId: f.defaultReaderId?.trim() || undefined,
+    };
+    if (this.editingProfileId) this.gateways.update(this.editingProfileId, input);
+    else this.gateways.add(input);
+    this.cancelProfile();
+  }
+
+  deleteProfile(p: GatewayProfile): void {
+    const pinned = this.gatewayPages.filter((page) => this.pinnedProfile(page)?.id === p.id);
+    const note = pinned.length ? ' Las pantallas que lo tienen fijado pasan al global.' : '';
+    if (!confirm(`¿Eliminar el gateway "${p.label}"?${note}`)) return;
+    if (this.editingProfileId === p.id) this.cancelProfile();
+    this.gateways.remove(p.id);
+  }
+
+  load(): void {
+    if (!this.api.getBaseUrl()) return;
+    this.loading = true;
+    forkJoin({
+      readers: this.api.getReaders().pipe(catchError(() => of([] as Reader[]))),
+      antennas: this.api.getAntennas(),
+    }).subscribe({
+      next: ({ readers, antennas }) => {
+        this.readers = readers;
+        this.antennas = antennas;
+        this.resetDrafts();
+        for (const a of antennas) {
+          if (!this.lastKnownGood[a.id]) this.lastKnownGood[a.id] = this.settingsOf(a);
+        }
+        this.saveLastKnownGood();
+        this.loading = false;
+        this.cdr.markForCheck();
+      },
+      error: () => {
+        this.loading = false;
+        this.cdr.markForCheck();
+      },
+    });
+  }
+
+  /** Antenas agrupadas por lector (readerId o prefijo del ID de la antena). */
+  get groups(): AntennaGroup[] {
+    const groups = new Map<string, AntennaGroup>();
+    for (const a of this.antennas) {
+      const reader = this.readers.find((r) => a.readerId === r.id || a.id?.startsWith(r.id));
+      const readerId = reader?.id ?? a.readerId ?? '';
+      let g = groups.get(readerId);
+      if (!g) {
+        g = { readerId, readerName: reader?.name || readerId || 'Sin lector', antennas: [] };
+        groups.set(readerId, g);
+      }
+      g.antennas.push(a);
+    }
+    return Array.from(groups.values());
+  }
+
+  private settingsOf(a: Antenna): AntennaSettings {
+    return {
+      enabled: a.enabled,
+      txPowerDbm: a.txPowerDbm ?? null,
+      rxSensitivityDbm: a.rxSensitivityDbm ?? null,
+    };
+  }
+
+  resetDrafts(): void {
+    this.drafts = {};
+    for (const a of this.antennas) this.drafts[a.id] = this.settingsOf(a);
+    this.results = [];
+  }
+
+  /** Mensaje de validación del campo, o '' si es válido. Un valor del gateway no se vacía. */
+  validationError(id: string, field: 'txPowerDbm' | 'rxSensitivityDbm'): string {
+    const v = this.drafts[id]?.[field];
+    if (v === null || v === undefined) {
+      const current = this.antennas.find((a) => a.id === id)?.[field];
+      return current === null || current === undefined ? '' : 'Valor requerido';
+    }
+    const range = field === 'txPowerDbm' ? this.txRange : this.rxRange;
+    if (typeof v !== 'number' || Number.isNaN(v)) return 'Valor numérico requerido';
+    if (v < range.min || v > range.max) return `Debe estar entre ${range.min} y ${range.max} dBm`;
+    return '';
+  }
+
+  get hasValidationErrors(): boolean {
+    return this.antennas.some(
+      (a) =>
+        !!this.validationError(a.id, 'txPowerDbm') ||
+        !!this.validationError(a.id, 'rxSensitivityDbm')
+    );
+  }
+
+  /** Diferencias entre lo editado y lo que tiene el gateway; undefined no es un cambio. */
+  get pendingChanges(): AntennaChange[] {
+    const changes: AntennaChange[] = [];
+    for (const a of this.antennas) {
+      const before = this.settingsOf(a);
+      const after = this.drafts[a.id];
+      if (!after) continue;
+      for (const field of ['enabled', 'txPowerDbm', 'rxSensitivityDbm'] as const) {
+        if (after[field] !== undefined && before[field] !== after[field]) {
+          changes.push({ antenna: a, field, before: before[field], after: after[field] });
+        }
+      }
+    }
+    return changes;
+  }
+
+  isChanged(a: Antenna): boolean {
+    return this.pendingChanges.some((c) => c.antenna.id === a.id);
+  }
+
+  fieldLabel(field: keyof AntennaSettings): string {
+    switch (field) {
+      case 'enabled': return 'Activa';
+      case 'txPowerDbm': return 'Tx (dBm)';
+      case 'rxSensitivityDbm': return 'Rx (dBm)';
+    }
+  }
+
+  formatValue(v: AntennaSettings[keyof AntennaSettings]): string {
+    if (v === null || v === undefined) return '-';
+    if (typeof v === 'boolean') return v ? 'Sí' : 'No';
+    return String(v);
+  }
+
+  resultFor(a: Antenna): ApplyResult | undefined {
+    return this.results.find((r) => r.antennaId === a.id);
+  }
+
+  /**
+   * Aplica todos los cambios pendientes en un lote; cada antena reporta éxito o error por separado.
+   * Solo se mandan los campos que el usuario cambió (y sus valores anteriores a la bitácora).
+   */
+  applyChanges(): void {
+    if (this.applying || this.hasValidationErrors) return;
+    const pending = this.pendingChanges;
+    const changed = this.antennas.filter((a) => pending.some((c) => c.antenna.id === a.id));
+    if (changed.length === 0) return;
+    this.applying = true;
+    this.results = [];
+    const requests: Observable<ApplyResult & { antenna?: Antenna }>[] = changed.map((a) => {
+      const changes = pending.filter((c) => c.antenna.id === a.id);
+      const body: Partial<Antenna> = Object.fromEntries(changes.map((c) => [c.field, c.after]));
+      const before = Object.fromEntries(changes.map((c) => [c.field, c.before]));
+      return this.api.updateAntenna(a.id, body, before).pipe(
+        map((updated) => ({
+          antennaId: a.id,
+          ok: true,
+          message: 'Aplicado',
+          antenna: { ...a, ...body, ...updated },
+        })),
+        catchError((e) =>
+          of({ antennaId: a.id, ok: false, message: errorMessage(e) })
+        )
+      );
+    });
+    forkJoin(requests).subscribe((results) => {
+      for (const r of results) {
+        if (!r.ok || !r.antenna) continue;
+        const updated = r.antenna;
+        this.antennas = this.antennas.map((a) => (a.id === updated.id ? updated : a));
+        this.drafts[updated.id] = this.settingsOf(updated);
+      }
+      this.results = results.map(({ antennaId, ok, message }) => ({ antennaId, ok, message }));
+      this.applying = false;
+      this.cdr.markForCheck();
+    });
+  }
+
+  /** Carga en el editor los últimos valores buenos conocidos; se aplican con "Aplicar cambios". */
+  revertToLastKnownGood(): void {
+    for (const a of this.antennas) {
+      const good = this.lastKnownGood[a.id];
+      if (good) this.drafts[a.id] = { ...good };
+    }
+    this.results = [];
+  }
+
+  /** Guarda la configuración actual del gateway como la última buena conocida. */
+  markAsKnownGood(): void {
+    for (const a of this.antennas) this.lastKnownGood[a.id] = this.settingsOf(a);
+    this.saveLastKnownGood();
+  }
+
+  get canRevert(): boolean {
+    return this.antennas.some((a) => {
+      const good = this.lastKnownGood[a.id];
+      const current = this.settingsOf(a);
+      return (
+        !!good &&
+        ((good.enabled !== undefined && good.enabled !== current.enabled) ||
+          good.txPowerDbm !== current.txPowerDbm ||
+          good.rxSensitivityDbm !== current.rxSensitivityDbm)
+      );
+    });
+  }
+
+  /** Los valores buenos conocidos del perfil global; cada gateway tiene los suyos. */
+  private loadLastKnownGood(): void {
+    this.lastKnownGoodProfileId = this.gateways.active?.id ?? '';
+    this.lastKnownGood = {};
+    if (!this.lastKnownGoodProfileId) return;
+    try {
+      const raw = localStorage.getItem(`${LAST_KNOWN_GOOD_KEY}_${this.lastKnownGoodProfileId}`);
+      this.lastKnownGood = raw ? JSON.parse(raw) : {};
+    } catch {
+      this.lastKnownGood = {};
+    }
+  }
 
+  private saveLastKnownGood(): void {
+    if (!this.lastKnownGoodProfileId) return;
+    try {
+      localStorage.setItem(
+        `${LAST_KNOWN_GOOD_KEY}_${this.lastKnownGoodProfileId}`,
+        JSON.stringify(this.lastKnownGood)
+      );
+    } catch {}
+  }
 }
@@ -1,43 +1,98 @@
-import { ChangeDetectorRef, Component, NgZone, OnInit, OnDestroy } from '@angular/core';
+import { ChangeDetectorRef, Component, OnInit, OnDestroy } from '@angular/core';
 import { CommonModule, JsonPipe } from '@angular/common';
 import { FormsModule } from '@angular/forms';
-import { RfidApi, Reader, Antenna, ReaderStatus } from '../../../services/rfid-api';
+import { Subscription } from 'rxjs';
+import { skip } from 'rxjs/operators';
+import { RfidApi, Reader, Antenna, ReaderStatus, antennaPort } from '../../../services/rfid-api';
+import { GatewayProfileStore } from '../../../services/gateway-profile-store';
+import { AuthStore } from '../../../services/auth-store';
+import {
+  RfidRealtime,
+  RealtimeConnectionState,
+  RealtimeEvent,
+  RealtimeHandle,
+  provideGatewayPage,
+  readMatchesReader,
+  realtimeStateLabel,
+} from '../../../services/rfid-realtime';
+import { ReadSessionStore } from '../../../services/read-session-store';
+import { TagReadEvent } from '../../../services/tag-read-event';
 
 interface TagCount {
   id: string;
   count: number;
-  lastSeen: string;
+  /** Epoch ms de la primera y la última lectura. */
+  firstSeen: number;
+  lastSeen: number;
+  /** Lecturas por puerto de antena. */
+  antennaCounts: Map<number, number>;
+  rssiMin: number | null;
+  rssiMax: number | null;
+  rssiSum: number;
+  rssiSamples: number;
+}
+
+type TagSortKey = 'id' | 'count' | 'firstSeen' | 'lastSeen' | 'antennas' | 'rssiAvg';
+
+/** Columna del heatmap: antena conocida o puerto visto en lecturas sin antena cargada. */
+interface HeatmapColumn {
+  port: number;
+  label: string;
 }
 
 @Component({
   selector: 'app-lectura',
   imports: [CommonModule, FormsModule, JsonPipe],
+  /* REST y stream propios: siguen el perfil fijado aquí sin mover los de raíz. */
+  providers: provideGatewayPage('lectura'),
   templateUrl: './lectura.html',
   styleUrl: './lectura.css',
 })
 export class Lectura implements OnInit, OnDestroy {
-  apiBaseUrl = '';
+  /** Perfil de gateway fijado en esta pantalla ('' = el global de la barra superior). */
+  pinnedProfileId = '';
   readers: Reader[] = [];
   antennas: Antenna[] = [];
   selectedReaderId = '';
   readerStatus: ReaderStatus | null = null;
   loading = false;
-  error = '';
   statusPolling: ReturnType<typeof setInterval> | null = null;
   uiRefreshInterval: ReturnType<typeof setInterval> | null = null;
 
-  events: Array<{ time: string; data: unknown }> = [];
+  events: Array<{ time: string; data: unknown; rejectedReason: string | null }> = [];
   maxEvents = 200;
   sseConnected = false;
-  eventSource: EventSource | null = null;
-  ws: WebSocket | null = null;
+  realtimeState: RealtimeConnectionState = 'closed';
+  /** Segundos desde el último evento del stream (heartbeat). */
+  secondsSinceLastEvent: number | null = null;
   eventsReceived = 0;
+  /** Eventos descartados por tener un payload desconocido. */
+  eventsRejected = 0;
+  private realtimeSubs = new Subscription();
+  /** Handle del stream mientras esta pantalla tiene una lectura en curso. */
+  private realtimeHandle: RealtimeHandle | null = null;
 
-  /** Map: tagId -> { count, lastSeen } */
+  /** Map: tagId -> agregado de lecturas (antenas, RSSI, primera/última vez) */
   tagCounts = new Map<string, TagCount>();
   totalReads = 0;
 
-  constructor(public api: RfidApi, private ngZone: NgZone, private cdr: ChangeDetectorRef) {}
+  /** Orden y filtros de la tabla de tags. */
+  sortKey: TagSortKey = 'count';
+  sortDesc = true;
+  tagFilter = '';
+  /** Puerto de antena para filtrar ('' = todas). */
+  antennaFilter = '';
+  /** Máximo de filas en el heatmap (los tags con más lecturas). */
+  readonly heatmapMaxRows = 30;
+
+  constructor(
+    public api: RfidApi,
+    public gateways: GatewayProfileStore,
+    public auth: AuthStore,
+    private realtime: RfidRealtime,
+    private sessions: ReadSessionStore,
+    private cdr: ChangeDetectorRef
+  ) {}
 
   get isReading(): boolean {
     return !!this.readerStatus?.reading;
@@ -48,11 +103,99 @@ export class Lectura implements OnInit, OnDestroy {
   }
 
   get tagList(): TagCount[] {
-    return Array.from(this.tagCounts.values()).sort((a, b) => b.count - a.count);
+    const term = this.tagFilter.trim().toLowerCase();
+    const port = this.antennaFilter === '' ? null : Number(this.antennaFilter);
+    const list = Array.from(this.tagCounts.values()).filter(
+      (t) => (!term || t.id.toLowerCase().includes(term)) && (port === null || t.antennaCounts.has(port))
+    );
+    const dir = this.sortDesc ? -1 : 1;
+    return list.sort((a, b) => {
+      const va = this.sortValue(a);
+      const vb = this.sortValue(b);
+      if (va === vb) return 0;
+      return (va < vb ? -1 : 1) * dir;
+    });
+  }
+
+  private sortValue(t: TagCount): string | number {
+    switch (this.sortKey) {
+      case 'id': return t.id;
+      case 'count': return t.count;
+      case 'firstSeen': return t.firstSeen;
+      case 'lastSeen': return t.lastSeen;
+      case 'antennas': return t.antennaCounts.size;
+      case 'rssiAvg': return this.rssiAvg(t) ?? -Infinity;
+    }
+  }
+
+  sortBy(key: TagSortKey): void {
+    if (this.sortKey === key) {
+      this.sortDesc = !this.sortDesc;
+    } else {
+      this.sortKey = key;
+      this.sortDesc = key !== 'id';
+    }
+  }
+
+  sortIcon(key: TagSortKey): string {
+    if (this.sortKey !== key) return '';
+    return this.sortDesc ? 'arrow_downward' : 'arrow_upward';
+  }
+
+  rssiAvg(t: TagCount): number | null {
+    return t.rssiSamples ? t.rssiSum / t.rssiSamples : null;
+  }
+
+  /** Puertos de antena que leyeron el tag, ordenados. */
+  tagAntennas(t: TagCount): number[] {
+    return Array.from(t.antennaCounts.keys()).sort((a, b) => a - b);
+  }
+
+  /** Columnas del heatmap: antenas del lector cargadas con getAntennas() más puertos vistos sin antena conocida. */
+  get heatmapColumns(): HeatmapColumn[] {
+    const cols = new Map<number, HeatmapColumn>();
+    for (const a of this.filteredAntennas()) {
+      const port = antennaPort(a);
+      if (port !== null && !cols.has(port)) cols.set(port, { port, label: a.name || `Ant ${port}` });
+    }
+    for (const t of this.tagCounts.values()) {
+      for (const port of t.antennaCounts.keys()) {
+        if (!cols.has(port)) cols.set(port, { port, label: `Puerto ${port}` });
+      }
+    }
+    return Array.from(cols.values()).sort((a, b) => a.port - b.port);
+  }
+
+  get heatmapRows(): TagCount[] {
+    return this.tagList.slice(0, this.heatmapMaxRows);
+  }
+
+  /** Mayor número de lecturas en una celda, para escalar la intensidad. */
+  get heatmapMax(): number {
+    let max = 0;
+    for (const t of this.tagCounts.values()) {
+      for (const c of t.antennaCounts.values()) max = Math.max(max, c);
+    }
+    return max;
+  }
+
+  heatmapCount(t: TagCount, port: number): number {
+    return t.antennaCounts.get(port) ?? 0;
+  }
+
+  /** Opacidad de la celda (0–1) proporcional a las lecturas. */
+  heatmapIntensity(t: TagCount, port: number): number {
+    const max = this.heatmapMax;
+    return max ? this.heatmapCount(t, port) / max : 0;
   }
 
   ngOnInit(): void {
-    this.apiBaseUrl = this.api.getBaseUrl();
+    this.gateways.enterPage('lectura');
+    this.pinnedProfileId = this.gateways.pinFor('lectura')?.id ?? '';
+    this.realtimeSubs.add(
+      this.gateways.profileFor$('lectura').pipe(skip(1)).subscribe(() => this.onGatewayChange())
+    );
+    this.subscribeRealtime();
     this.loadReaders();
     this.loadAntennas();
   }
@@ -60,34 +203,42 @@ export class Lectura implements OnInit, OnDestroy {
   ngOnDestroy(): void {
     this.stopStatusPolling();
     this.stopUiRefresh();
-    this.disconnectRealtime();
+    this.realtimeSubs.unsubscribe();
+    this.realtimeHandle?.release();
+    this.gateways.leavePage('lectura');
   }
 
-  saveBaseUrl(): void {
-    this.api.setBaseUrl(this.apiBaseUrl);
-    this.error = '';
+  pinProfile(): void {
+    this.gateways.pin('lectura', this.pinnedProfileId || null);
+  }
+
+  /** Otro gateway: se olvida el lector elegido y se recarga todo contra el nuevo. */
+  private onGatewayChange(): void {
+    this.stopStatusPolling();
+    this.selectedReaderId = '';
+    this.readerStatus = null;
+    this.readers = [];
+    this.antennas = [];
     this.loadReaders();
     this.loadAntennas();
+    this.cdr.markForCheck();
   }
 
   loadReaders(): void {
     if (!this.api.getBaseUrl()) return;
     this.loading = true;
-    this.error = '';
     this.api.getReaders().subscribe({
       next: (list) => {
         this.readers = list;
         if (list.length && !this.selectedReaderId) {
-          this.selectedReaderId = list[0].id;
+          const preferred = this.gateways.profileFor('lectura')?.defaultReaderId;
+          this.selectedReaderId = list.find((r) => r.id === preferred)?.id ?? list[0].id;
           this.restartStatusPolling();
         }
         this.refreshStatus();
         this.loading = false;
       },
-      error: (err) => {
-        this.error = err?.message || 'Error al cargar lectores';
-        this.loading = false;
-      },
+      error: () => (this.loading = false),
     });
   }
 
@@ -148,205 +299,135 @@ export class Lectura implements OnInit, OnDestroy {
 
   startReading(): void {
     if (!this.selectedReaderId || this.isReading) return;
-    this.error = '';
     this.connectRealtime();
     this.startUiRefresh();
-    this.api.startReader(this.selectedReaderId).subscribe({
-      next: () => this.refreshStatus(),
-      error: (e) => (this.error = e?.error?.message || e?.message || 'Error'),
+    const readerId = this.selectedReaderId;
+    this.api.startReader(readerId).subscribe({
+      next: () => {
+        this.sessions.start('lectura', readerId, this.readers.find((r) => r.id === readerId)?.name);
+        this.refreshStatus();
+      },
+      error: () => this.refreshStatus(),
     });
   }
 
   stopReading(): void {
     if (!this.selectedReaderId) return;
-    this.error = '';
-    this.api.stopReader(this.selectedReaderId).subscribe({
+    const readerId = this.selectedReaderId;
+    this.api.stopReader(readerId).subscribe({
       next: () => {
+        this.sessions.stop(readerId);
         this.refreshStatus();
         this.stopUiRefresh();
         this.disconnectRealtime();
       },
-      error: (e) => (this.error = e?.error?.message || e?.message || 'Error'),
+      error: () => this.refreshStatus(),
     });
   }
 
   resetReader(): void {
     if (!this.selectedReaderId || this.isReading) return;
-    this.error = '';
     this.api.resetReader(this.selectedReaderId).subscribe({
       next: () => this.refreshStatus(),
-      error: (e) => (this.error = e?.error?.message || e?.message || 'Error'),
+      error: () => this.refreshStatus(),
     });
   }
 
   rebootReader(): void {
     if (!this.selectedReaderId || this.isReading) return;
-    this.error = '';
     this.api.rebootReader(this.selectedReaderId).subscribe({
       next: () => this.refreshStatus(),
-      error: (e) => (this.error = e?.error?.message || e?.message || 'Error'),
+      error: () => this.refreshStatus(),
     });
   }
 
   resetAntennas(): void {
     if (!this.selectedReaderId || this.isReading) return;
-    this.error = '';
     this.api.resetReaderAntennas(this.selectedReaderId).subscribe({
       next: () => this.loadAntennas(),
-      error: (e) => (this.error = e?.error?.message || e?.message || 'Error'),
+      error: () => this.refreshStatus(),
     });
   }
 
-  /** Extrae el ID del tag de cualquier estructura de evento (recursivo). */
-  extractTagId(data: unknown): string | null {
-    if (data == null) return null;
-    if (typeof data === 'string') {
-      const s = data.trim();
-      if (s.length >= 6 && /^[0-9A-Fa-f\-]+$/.test(s)) return s;
-      if (s.length > 0) return s;
-      return null;
-    }
-    if (Array.isArray(data)) {
-      for (const item of data) {
-        const id = this.extractTagId(item);
-        if (id) return id;
-      }
-      return null;
-    }
-    if (typeof data === 'object') {
-      const d = data as Record<string, unknown>;
-      const preferidos = ['epc', 'tagId', 'tag_id', 'id', 'tagEPC', 'EPC'];
-      for (const key of preferidos) {
-        const v = d[key];
-        if (typeof v === 'string' && v.trim()) return v.trim();
-      }
-      const tag = d['tag'];
-      if (tag) {
-        const id = this.extractTagId(tag);
-        if (id) return id;
-      }
-      if (Array.isArray(d['tags'])) {
-        for (const t of d['tags']) {
-          const id = this.extractTagId(t);
-          if (id) return id;
-        }
-      }
-      if (d['data']) {
-        const id = this.extractTagId(d['data']);
-        if (id) return id;
-      }
-      for (const v of Object.values(d)) {
-        const id = this.extractTagId(v);
-        if (id) return id;
-      }
-    }
-    return null;
-  }
-
-  /** Procesa un evento recibido (SSE o WebSocket). */
-  private processEvent(raw: string): void {
-    let data: unknown;
-    try {
-      data = JSON.parse(raw);
-    } catch {
-      data = { raw };
-    }
-    const now = new Date().toLocaleTimeString('es-MX');
+  /** Procesa un evento recibido del stream compartido. */
+  private processEvent(event: RealtimeEvent): void {
+    const now = event.receivedAt.toLocaleTimeString('es-MX');
     this.eventsReceived++;
-    this.events.unshift({ time: now, data });
+    if (event.rejectedReason) this.eventsRejected++;
+    this.events.unshift({ time: now, data: event.data, rejectedReason: event.rejectedReason });
     if (this.events.length > this.maxEvents) this.events.pop();
 
-    const tagIds = this.extractAllTagIds(data);
-    for (const tagId of tagIds) {
+    const reads = this.selectedReaderId
+      ? event.reads.filter((r) => readMatchesReader(r, this.selectedReaderId))
+      : event.reads;
+    for (const read of reads) {
       this.totalReads++;
-      const existing = this.tagCounts.get(tagId);
-      if (existing) {
-        existing.count++;
-        existing.lastSeen = now;
-      } else {
-        this.tagCounts.set(tagId, { id: tagId, count: 1, lastSeen: now });
-      }
+      this.aggregateRead(read);
     }
   }
 
-  /** Extrae todos los IDs de tags de un evento (puede tener uno o varios). */
-  private extractAllTagIds(data: unknown): string[] {
-    const seen = new Set<string>();
-    const add = (id: string | null) => {
-      if (id && id.length >= 4 && !seen.has(id)) {
-        seen.add(id);
-        return id;
-      }
-      return null;
-    };
-    const ids: string[] = [];
-    const main = add(this.extractTagId(data));
-    if (main) ids.push(main);
-    if (data && typeof data === 'object') {
-      const d = data as Record<string, unknown>;
-      if (Array.isArray(d['tags'])) {
-        for (const t of d['tags']) {
-          const id = add(this.extractTagId(t));
-          if (id) ids.push(id);
-        }
-      }
+  private aggregateRead(read: TagReadEvent): void {
+    const at = read.timestamp.getTime();
+    let t = this.tagCounts.get(read.epc);
+    if (!t) {
+      t = {
+        id: read.epc,
+        count: 0,
+        firstSeen: at,
+        lastSeen: at,
+        antennaCounts: new Map(),
+        rssiMin: null,
+        rssiMax: null,
+        rssiSum: 0,
+        rssiSamples: 0,
+      };
+      this.tagCounts.set(read.epc, t);
+    }
+    t.count++;
+    t.firstSeen = Math.min(t.firstSeen, at);
+    t.lastSeen = Math.max(t.lastSeen, at);
+    if (read.antennaPort !== null) {
+      t.antennaCounts.set(read.antennaPort, (t.antennaCounts.get(read.antennaPort) ?? 0) + 1);
+    }
+    if (read.rssi !== null) {
+      t.rssiMin = t.rssiMin === null ? read.rssi : Math.min(t.rssiMin, read.rssi);
+      t.rssiMax = t.rssiMax === null ? read.rssi : Math.max(t.rssiMax, read.rssi);
+      t.rssiSum += read.rssi;
+      t.rssiSamples++;
     }
-    return ids;
   }
 
-  /** Conecta SSE y WebSocket para recibir eventos en tiempo real. */
-  connectRealtime(): void {
-    this.disconnectRealtime();
-    const base = this.api.getBaseUrl();
-    if (!base) return;
-
-    const readerId = this.selectedReaderId || undefined;
-    const wsUrl = this.api.getWebSocketUrl();
-    const wsFull = readerId ? `${wsUrl}?readerId=${encodeURIComponent(readerId)}` : wsUrl;
-
-    try {
-      this.eventSource = new EventSource(
-        readerId ? this.api.getRealtimeEventsUrl(readerId) : this.api.getRealtimeEventsUrl()
-      );
-      this.eventSource.onopen = () => this.ngZone.run(() => (this.sseConnected = true));
-      this.eventSource.onerror = () => this.ngZone.run(() => (this.sseConnected = false));
-      this.eventSource.onmessage = (ev) => this.ngZone.run(() => this.processEvent(ev.data));
-      this.eventSource.addEventListener('tag', (ev: MessageEvent) => this.ngZone.run(() => this.processEvent(ev.data)));
-      this.eventSource.addEventListener('detection', (ev: MessageEvent) => this.ngZone.run(() => this.processEvent(ev.data)));
-      this.eventSource.addEventListener('event', (ev: MessageEvent) => this.ngZone.run(() => this.processEvent(ev.data)));
-    } catch {
-      this.sseConnected = false;
-    }
+  /** Se suscribe al stream compartido; la conexión sigue viva al cambiar de página. */
+  private subscribeRealtime(): void {
+    this.realtimeSubs.add(
+      this.realtime.state$.subscribe((state) => {
+        this.realtimeState = state;
+        this.sseConnected = state === 'open' || state === 'degraded';
+        this.cdr.markForCheck();
+      })
+    );
+    this.realtimeSubs.add(
+      this.realtime.heartbeat$.subscribe((s) => {
+        this.secondsSinceLastEvent = s;
+        this.cdr.markForCheck();
+      })
+    );
+    this.realtimeSubs.add(this.realtime.events$.subscribe((ev) => this.processEvent(ev)));
+  }
 
-    try {
-      this.ws = new WebSocket(wsFull);
-      this.ws.onopen = () => this.ngZone.run(() => (this.sseConnected = true));
-      this.ws.onclose = () => this.ngZone.run(() => {
-        if (!this.eventSource || this.eventSource.readyState !== EventSource.OPEN) {
-          this.sseConnected = false;
-        }
-      });
-      this.ws.onerror = () => this.ngZone.run(() => {
-        if (!this.eventSource || this.eventSource.readyState !== EventSource.OPEN) {
-          this.sseConnected = false;
-        }
-      });
-      this.ws.onmessage = (ev) => this.ngZone.run(() => this.processEvent(ev.data));
-    } catch {
-    }
+  get realtimeStateLabel(): string {
+    return realtimeStateLabel(this.realtimeState);
   }
 
+  connectRealtime(): void {
+    this.realtimeHandle ??= this.realtime.acquire();
+  }
+
+  /** Suelta el stream de esta pantalla; sigue abierto si otra pantalla o servicio lo usa. */
   disconnectRealtime(): void {
     this.stopUiRefresh();
-    if (this.eventSource) {
-      this.eventSource.close();
-      this.eventSource = null;
-    }
-    if (this.ws) {
-      this.ws.close();
-      this.ws = null;
-    }
-    this.sseConnected = false;
+    this.realtimeHandle?.release();
+    this.realtimeHandle = null;
   }
 
   clearEvents(): void {
@@ -0,0 +1,119 @@
+import { ChangeDetectorRef, Component, OnDestroy, OnInit } from '@angular/core';
+import { FormsModule } from '@angular/forms';
+import { Subscription } from 'rxjs';
+import { InventoryStore } from '../../../../services/inventory-store';
+import {
+  KitTemplate,
+  KitTemplateItem,
+  KitTemplateStore,
+} from '../../../../services/kit-template-store';
+
+/** Plantillas de kit: qué tipos de producto (SKU) y cuántos debe llevar una maleta. */
+@Component({
+  selector: 'app-kit-templates',
+  imports: [FormsModule],
+  templateUrl: './kit-templates.html',
+  styleUrl: './kit-templates.css',
+})
+export class KitTemplates implements OnInit, OnDestroy {
+  templates: KitTemplate[] = [];
+
+  /** Formulario; `editingId` null = plantilla nueva. */
+  showForm = false;
+  editingId: string | null = null;
+  name = '';
+  items: KitTemplateItem[] = [];
+  newSku = '';
+  newQuantity = 1;
+  formError = '';
+
+  private subs = new Subscription();
+
+  constructor(
+    private kits: KitTemplateStore,
+    private inventory: InventoryStore,
+    private cdr: ChangeDetectorRef
+  ) {}
+
+  ngOnInit(): void {
+    this.subs.add(
+      this.kits.templates$.subscribe((list) => {
+        this.templates = list;
+        this.cdr.markForCheck();
+      })
+    );
+  }
+
+  ngOnDestroy(): void {
+    this.subs.unsubscribe();
+  }
+
+  /** Tipos de producto del catálogo de inventario (SKU + descripción). */
+  get products(): Array<{ sku: string; name: string }> {
+    const map = new Map<string, string>();
+    for (const a of this.inventory.assets) {
+      if (a.sku && !map.has(a.sku)) map.set(a.sku, a.description || a.sku);
+    }
+    return Array.from(map, ([sku, name]) => ({ sku, name })).sort((a, b) =>
+      a.name.localeCompare(b.name)
+    );
+  }
+
+  summary(t: KitTemplate): string {
+    return t.items.map((i) => `${i.quantity}× ${i.name || i.sku}`).join(', ');
+  }
+
+  openNew(): void {
+    this.editingId = null;
+    this.name = '';
+    this.items = [];
+    this.formError = '';
+    this.showForm = true;
+  }
+
+  edit(t: KitTemplate): void {
+    this.editingId = t.id;
+    this.name = t.name;
+    this.items = t.items.map((i) => ({ ...i }));
+    this.formError = '';
+    this.showForm = true;
+  }
+
+  closeForm(): void {
+    this.showForm = false;
+    this.editingId = null;
+  }
+
+  addItem(): void {
+    const sku = this.newSku.trim();
+    if (!sku) return;
+    const existing = this.items.find((i) => i.sku === sku);
+    const quantity = Math.max(1, Math.floor(Number(this.newQuantity) || 1));
+    if (existing) {
+      existing.quantity += quantity;
+    } else {
+      const name = this.products.find((p) => p.sku === sku)?.name ?? sku;
+      this.items = [...this.items, { sku, name, quantity }];
+    }
+    this.newSku = '';
+    this.newQuantity = 1;
+  }
+
+  removeItem(sku: string): void {
+    this.items = this.items.filter((i) => i.sku !== sku);
+  }
+
+  save(): void {
+    this.formError = this.kits.validate(this.name, this.items);
+    if (this.formError) return;
+    this.kits.save(this.name, this.items, this.editingId ?? undefined);
+    this.closeForm();
+  }
+
+  remove(t: KitTemplate): void {
+    if (!confirm(`¿Eliminar la plantilla "${t.name}"? Las maletas que la usan quedarán sin plantilla.`)) {
+      return;
+    }
+    this.kits.remove(t.id);
+  }
+}
@@ -0,0 +1,238 @@
+import { TestBed } from '@angular/core/testing';
+import { provideHttpClient } from '@angular/common/http';
+import { provideHttpClientTesting } from '@angular/common/http/testing';
+import { AssetInput, InventoryStore } from '../../../services/inventory-store';
+import { KitTemplateStore } from '../../../services/kit-template-store';
+import { MaletaItem, MaletaStore } from '../../../services/maleta-store';
+import { SterilizationStore } from '../../../services/sterilization-store';
+import { TunnelPassStore } from '../../../services/tunnel-pass-store';
+import { Maleta } from './maleta';
+
+function day(offset: number): string {
+  const d = new Date();
+  d.setDate(d.getDate() + offset);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+}
+
+function maleta(
+  id: string,
+  masterRfid: string,
+  productRfids: string[],
+  extra: Partial<MaletaItem> = {}
+): MaletaItem {
+  return { id, masterRfid, productRfids, createdAt: '2026-01-01T00:00:00.000Z', ...extra };
+}
+
+function asset(epc: string, sku: string, expiryDate = ''): AssetInput {
+  return { epc, sku, description: '', lot: '', expiryDate, location: '', status: 'ACTIVO' };
+}
+
+/** Semáforo con lectura simulada (el texto de la página), sin plantilla HTML. */
+function setup(maletas: MaletaItem[], read: string[]) {
+  TestBed.configureTestingModule({
+    providers: [provideHttpClient(), provideHttpClientTesting()],
+  });
+  TestBed.overrideComponent(Maleta, { set: { template: '', imports: [] } });
+  const page = TestBed.createComponent(Maleta).componentInstance;
+  page.maletas = maletas;
+  page.showSimulatedRead = true;
+  page.simulatedReadInput = read.join('\n');
+  return page;
+}
+
+describe('Maleta: semáforo', () => {
+  beforeEach(() => localStorage.clear());
+
+  describe('por maleta', () => {
+    it('verde con el maestro y todos los productos leídos', () => {
+      const m = maleta('a', 'M1', ['P1', 'P2']);
+      expect(setup([m], ['M1', 'P1', 'P2']).getMaletaStatus(m)).toBe('green');
+    });
+
+    it('azul si falta el maestro o algún producto', () => {
+      const m = maleta('a', 'M1', ['P1', 'P2']);
+      const page = setup([m], ['M1', 'P1']);
+      expect(page.getMaletaStatus(m)).toBe('blue');
+      page.simulatedReadInput = 'P1, P2';
+      expect(page.getMaletaStatus(m)).toBe('blue');
+    });
+
+    it('rojo si tiene un producto marcado como caducado, aunque esté completa', () => {
+      const m = maleta('a', 'M1', ['P1'], { expiredProductRfids: ['P1'] });
+      expect(setup([m], ['M1', 'P1']).getMaletaStatus(m)).toBe('red');
+    });
+
+    it('rojo si la fecha de caducidad ya pasó, aunque falten piezas', () => {
+      const m = maleta('a', 'M1', ['P1'], { productDates: { P1: { expiryDate: day(-1) } } });
+      expect(setup([m], []).getMaletaStatus(m)).toBe('red');
+    });
+
+    it('rojo por la caducidad del catálogo de inventario', () => {
+      const m = maleta('a', 'M1', ['P1']);
+      const page = setup([m], ['M1', 'P1']);
+      TestBed.inject(InventoryStore).save(asset('P1', 'PINZA', day(-3)));
+      expect(page.getMaletaStatus(m)).toBe('red');
+    });
+
+    it('naranja si está completa pero con productos por caducar', () => {
+      const m = maleta('a', 'M1', ['P1'], { productDates: { P1: { expiryDate: day(0) } } });
+      expect(setup([m], ['M1', 'P1']).getMaletaStatus(m)).toBe('orange');
+    });
+
+    it('azul antes que naranja si además le faltan piezas', () => {
+      const m = maleta('a', 'M1', ['P1'], { productDates: { P1: { expiryDate: day(0) } } });
+      expect(setup([m], ['M1']).getMaletaStatus(m)).toBe('blue');
+    });
+
+    it('morado si está en el ciclo de esterilización sin terminar', () => {
+      const m = maleta('a', 'M1', ['P1']);
+      const page = setup([m], ['M1', 'P1']);
+      const sterilization = TestBed.inject(SterilizationStore);
+      sterilization.recordManual('a', 'LAVADA', 'Ana');
+      expect(page.getMaletaStatus(m)).toBe('purple');
+      sterilization.recordManual('a', 'ESTERILIZADA', 'Ana', 'C-12');
+      expect(page.getMaletaStatus(m)).toBe('green');
+    });
+
+    it('rojo gana a morado', () => {
+      const m = maleta('a', 'M1', ['P1'], { expiredProductRfids: ['P1'] });
+      const page = setup([m], ['M1', 'P1']);
+      TestBed.inject(SterilizationStore).recordManual('a', 'SUCIA', 'Ana');
+      expect(page.getMaletaStatus(m)).toBe('red');
+    });
+
+    it('azul si faltan piezas de la plantilla y verde al completarla', () => {
+      const m = maleta('a', 'M1', []);
+      const page = setup([m], ['M1', 'T1']);
+      m.templateId = TestBed.inject(KitTemplateStore).save('Básico', [
+        { sku: 'TIJERA', name: 'Tijera', quantity: 2 },
+      ]).id;
+      const inventory = TestBed.inject(InventoryStore);
+      inventory.save(asset('T1', 'TIJERA'));
+      inventory.save(asset('T2', 'TIJERA'));
+      expect(page.getMaletaStatus(m)).toBe('blue');
+      page.simulatedReadInput = 'M1, T1, T2';
+      expect(page.getMaletaStatus(m)).toBe('green');
+    });
+
+    it('las piezas leídas de la plantilla también cuentan para la caducidad', () => {
+      const m = maleta('a', 'M1', []);
+      const page = setup([m], ['M1', 'T1']);
+      m.templateId = TestBed.inject(KitTemplateStore).save('Básico', [
+        { sku: 'TIJERA', name: 'Tijera', quantity: 1 },
+      ]).id;
+      TestBed.inject(InventoryStore).save(asset('T1', 'TIJERA', day(-1)));
+      expect(page.getMaletaStatus(m)).toBe('red');
+    });
+
+    it('con lectura real usa los tags del túnel en vez del texto simulado', () => {
+      const m = maleta('a', 'M1', ['P1']);
+      const page = setup([m], ['M1', 'P1']);
+      page.showSimulatedRead = false;
+      expect(page.getMaletaStatus(m)).toBe('blue');
+      for (const id of ['M1', 'P1']) page.tagCounts.set(id, { id, count: 1, lastSeen: '' });
+      expect(page.getMaletaStatus(m)).toBe('green');
+    });
+  });
+
+  describe('general', () => {
+    const complete = () => maleta('a', 'M1', ['P1']);
+    const incomplete = () => maleta('b', 'M2', ['P2']);
+
+    it('verde sin maletas cargadas, lea lo que lea', () => {
+      expect(setup([], ['X']).generalSemaphoreStatus).toBe('green');
+    });
+
+    it('verde si todas están completas', () => {
+      expect(setup([complete()], ['M1', 'P1']).generalSemaphoreStatus).toBe('green');
+    });
+
+    it('azul si alguna está incompleta', () => {
+      expect(setup([complete(), incomplete()], ['M1', 'P1']).generalSemaphoreStatus).toBe('blue');
+    });
+
+    it('naranja si están completas pero alguna tiene productos por caducar', () => {
+      const m = maleta('a', 'M1', ['P1'], { productDates: { P1: { expiryDate: day(0) } } });
+      expect(setup([m], ['M1', 'P1']).generalSemaphoreStatus).toBe('orange');
+    });
+
+    it('amarillo si se leyó un tag que no está en ninguna maleta', () => {
+      const page = setup([complete()], ['M1', 'P1', 'EXTRA']);
+      expect(page.extraUnlistedTags).toEqual(['EXTRA']);
+      expect(page.generalSemaphoreStatus).toBe('yellow');
+    });
+
+    it('amarillo gana a azul', () => {
+      expect(setup([complete(), incomplete()], ['M1', 'EXTRA']).generalSemaphoreStatus).toBe(
+        'yellow'
+      );
+    });
+
+    it('una pieza del tipo que pide una plantilla no cuenta como extra', () => {
+      const m = maleta('a', 'M1', []);
+      const page = setup([m], ['M1', 'T1']);
+      m.templateId = TestBed.inject(KitTemplateStore).save('Básico', [
+        { sku: 'TIJERA', name: 'Tijera', quantity: 1 },
+      ]).id;
+      TestBed.inject(InventoryStore).save(asset('T1', 'TIJERA'));
+      expect(page.hasUnknownTagRead).toBe(false);
+      expect(page.generalSemaphoreStatus).toBe('green');
+    });
+
+    it('morado gana a amarillo', () => {
+      const page = setup([complete()], ['M1', 'P1', 'EXTRA']);
+      TestBed.inject(SterilizationStore).recordManual('a', 'SUCIA', 'Ana');
+      expect(page.generalSemaphoreStatus).toBe('purple');
+    });
+
+    it('rojo gana a todo', () => {
+      const expired = maleta('c', 'M3', ['P3'], { expiredProductRfids: ['P3'] });
+      const page = setup([complete(), incomplete(), expired], ['M1', 'P1', 'EXTRA']);
+      TestBed.inject(SterilizationStore).recordManual('a', 'SUCIA', 'Ana');
+      expect(page.generalSemaphoreStatus).toBe('red');
+    });
+
+    it('cuenta las maletas completas', () => {
+      expect(setup([complete(), incomplete()], ['M1', 'P1']).completedMaletasCount).toBe(1);
+    });
+  });
+});
+
+describe('Maleta: pasada por el túnel', () => {
+  beforeEach(() => localStorage.clear());
+
+  /** Cierra una pasada de la maleta con lo leído en la vista. */
+  function pass(m: MaletaItem, read: string[], sterilization?: (s: SterilizationStore) => void) {
+    const page = setup([m], read);
+    TestBed.inject(MaletaStore).save([m]);
+    sterilization?.(TestBed.inject(SterilizationStore));
+    page.currentPass = { maletaId: m.id, masterRfid: m.masterRfid, readerId: 'r1', startedAt: '' };
+    page['endPass']();
+    return TestBed.inject(TunnelPassStore).passes[0];
+  }
+
+  it('completa y esterilizada cierra como completa', () => {
+    expect(pass(maleta('a', 'M1', ['P1']), ['M1', 'P1']).result).toBe('complete');
+  });
+
+  it('completa pero sin esterilizar no cuenta como completa', () => {
+    const saved = pass(maleta('a', 'M1', ['P1']), ['M1', 'P1'], (s) =>
+      s.recordManual('a', 'LAVADA', 'Ana')
+    );
+    expect(saved).toMatchObject({ result: 'not-sterile', status: 'purple' });
+  });
+
+  it('sin esterilizar gana a faltantes', () => {
+    const saved = pass(maleta('a', 'M1', ['P1']), ['M1'], (s) =>
+      s.recordManual('a', 'SUCIA', 'Ana')
+    );
+    expect(saved.result).toBe('not-sterile');
+  });
+
+  it('caducado gana a sin esterilizar', () => {
+    const m = maleta('a', 'M1', ['P1'], { expiredProductRfids: ['P1'] });
+    const saved = pass(m, ['M1', 'P1'], (s) => s.recordManual('a', 'SUCIA', 'Ana'));
+    expect(saved.result).toBe('expired');
+  });
+});
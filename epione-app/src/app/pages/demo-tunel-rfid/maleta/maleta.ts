@@ -1,7 +1,73 @@
 import { ChangeDetectorRef, Component, NgZone, OnInit, OnDestroy } from '@angular/core';
 import { CommonModule, JsonPipe } from '@angular/common';
 import { FormsModule } from '@angular/forms';
+import { Subscription } from 'rxjs';
+import { skip } from 'rxjs/operators';
 import { RfidApi, Reader, Antenna, ReaderStatus } from '../../../services/rfid-api';
+import { GatewayProfileStore } from '../../../services/gateway-profile-store';
+import { AuthStore } from '../../../services/auth-store';
+import {
+  RfidRealtime,
+  RealtimeConnectionState,
+  RealtimeEvent,
+  RealtimeHandle,
+  provideGatewayPage,
+  readMatchesReader,
+  realtimeStateLabel,
+} from '../../../services/rfid-realtime';
+import { ReadSessionExtras, ReadSessionStore } from '../../../services/read-session-store';
+import { TagReadEvent } from '../../../services/tag-read-event';
+import {
+  ExpiryState,
+  expiryState,
+  describeMaletaChanges,
+  EpcConflict,
+  MaletaChange,
+  MaletaItem,
+  MaletaStore,
+  MaletaSyncState,
+  ProductDates,
+  SemaphoreStatus,
+} from '../../../services/maleta-store';
+import {
+  MaletaImportMode,
+  MaletaImportParse,
+  MaletaImportPreview,
+  maletasToCsvRows,
+  maletasToJson,
+  maletasToTxt,
+  parseMaletasFile,
+  previewMaletaImport,
+} from '../../../services/maleta-io';
+import { downloadText, toCsv } from '../../../services/csv';
+import { SurgeryStore } from '../../../services/surgery-store';
+import {
+  OpenTunnelPass,
+  passResultLabel,
+  TunnelPass,
+  TunnelPassResult,
+  TunnelPassStore,
+} from '../../../services/tunnel-pass-store';
+import { InventoryStore } from '../../../services/inventory-store';
+import {
+  describeMissing,
+  evaluateKit,
+  KitLineResult,
+  KitTemplate,
+  KitTemplateStore,
+} from '../../../services/kit-template-store';
+import { KitTemplates } from './kit-templates/kit-templates';
+import {
+  nextStage,
+  STERILIZATION_STAGES,
+  SterilizationStage,
+  SterilizationStore,
+  StageRecord,
+  stageLabel,
+} from '../../../services/sterilization-store';
+import { SterilizationStations } from './sterilization-stations/sterilization-stations';
+import { TunnelKiosk } from './tunnel-kiosk/tunnel-kiosk';
+import { TunnelSounds } from '../../../services/tunnel-sounds';
 
 interface TagCount {
   id: string;
@@ -9,41 +75,37 @@ interface TagCount {
   lastSeen: string;
 }
 
-/** Maleta: RFID maestro (la maleta) + RFIDs de productos dentro. */
-export interface MaletaItem {
-  id: string;
-  masterRfid: string;
-  productRfids: string[];
-  createdAt: string;
-  /** RFIDs de productos marcados como caducados (semáforo rojo por producto). */
-  expiredProductRfids?: string[];
-}
-
-export type SemaphoreStatus = 'red' | 'blue' | 'yellow' | 'green';
-
 @Component({
   selector: 'app-maleta',
-  imports: [CommonModule, FormsModule, JsonPipe],
+  imports: [CommonModule, FormsModule, JsonPipe, KitTemplates, SterilizationStations, TunnelKiosk],
+  /* REST y stream propios: siguen el perfil fijado aquí sin mover los de raíz. */
+  providers: provideGatewayPage('maleta'),
   templateUrl: './maleta.html',
   styleUrl: './maleta.css',
 })
 export class Maleta implements OnInit, OnDestroy {
-  apiBaseUrl = '';
+  /** Perfil de gateway fijado en esta pantalla ('' = el global de la barra superior). */
+  pinnedProfileId = '';
   readers: Reader[] = [];
   antennas: Antenna[] = [];
   selectedReaderId = '';
   readerStatus: ReaderStatus | null = null;
   loading = false;
-  error = '';
   statusPolling: ReturnType<typeof setInterval> | null = null;
   uiRefreshInterval: ReturnType<typeof setInterval> | null = null;
 
-  events: Array<{ time: string; data: unknown }> = [];
+  events: Array<{ time: string; data: unknown; rejectedReason: string | null }> = [];
   maxEvents = 200;
   sseConnected = false;
-  eventSource: EventSource | null = null;
-  ws: WebSocket | null = null;
+  realtimeState: RealtimeConnectionState = 'closed';
+  /** Segundos desde el último evento del stream (heartbeat). */
+  secondsSinceLastEvent: number | null = null;
   eventsReceived = 0;
+  /** Eventos descartados por tener un payload desconocido. */
+  eventsRejected = 0;
+  private realtimeSubs = new Subscription();
+  /** Handle del stream mientras esta pantalla tiene una lectura en curso. */
+  private realtimeHandle: RealtimeHandle | null = null;
 
   tagCounts = new Map<string, TagCount>();
   totalReads = 0;
@@ -55,13 +117,50 @@ export class Maleta implements OnInit, OnDestroy {
 
   /** Lista de maletas guardadas (RFID maestro + productos). */
   maletas: MaletaItem[] = [];
-  private static readonly MALETAS_STORAGE_KEY = 'maleta_list';
+  /** Maletas ya verificadas en verde con la lectura actual (se reinicia al limpiar tags). */
+  private verifiedMaletaIds = new Set<string>();
 
-  /** Formulario nueva maleta */
+  /** Formulario nueva maleta (también se usa para editar una guardada) */
   showCreateMaleta = false;
+  /** Maleta en edición; null = creando una nueva. */
+  editingMaletaId: string | null = null;
+  newMaletaName = '';
   newMaletaMasterRfid = '';
   newMaletaProductRfids: string[] = [];
   newProductRfidInput = '';
+  /** Plantilla de kit de la maleta nueva ('' = solo lista de EPC). */
+  newMaletaTemplateId = '';
+  kitTemplates: KitTemplate[] = [];
+  /** Producto cuya etiqueta se está reemplazando: la próxima que se agregue ocupa su lugar. */
+  replacingRfid: string | null = null;
+  /** Etiquetas reemplazadas en esta edición (original → nueva); conservan fechas y caducado. */
+  private replacedRfids: Record<string, string> = {};
+  /** El usuario aceptó guardar con productos que también están en otra maleta. */
+  confirmSharedEpcs = false;
+
+  /** Importación de maletas: archivo leído y vista previa antes de aplicar. */
+  importParse: MaletaImportParse | null = null;
+  importPreview: MaletaImportPreview | null = null;
+  importMode: MaletaImportMode = 'merge';
+  importFileName = '';
+
+  /** Registro manual de etapa de esterilización (una maleta a la vez). */
+  readonly sterilizationStages = STERILIZATION_STAGES;
+  readonly stageLabel = stageLabel;
+  stageFormMaletaId: string | null = null;
+  stageFormStage: SterilizationStage = 'SUCIA';
+  stageFormOperator = '';
+  stageFormCycle = '';
+
+  /** Modo por pasada: pasada en curso, la última cerrada y el historial reciente. */
+  currentPass: OpenTunnelPass | null = null;
+  lastPass: TunnelPass | null = null;
+  recentPasses: TunnelPass[] = [];
+  /** Quiosco a pantalla completa para el operador del túnel. */
+  showKiosk = false;
+  private passQuietTimer: ReturnType<typeof setTimeout> | null = null;
+  /** EPCs leídos en modo por pasada desde que se limpió la vista, en orden de llegada. */
+  private passReadLog: string[] = [];
 
   /** Simular lectura del túnel: texto con etiquetas (una por línea o separadas por coma). */
   simulatedReadInput = '';
@@ -70,7 +169,22 @@ export class Maleta implements OnInit, OnDestroy {
   showSimulatedRead = true;
   private static readonly SHOW_SIMULATED_KEY = 'maleta_show_simulated';
 
-  constructor(public api: RfidApi, private ngZone: NgZone, private cdr: ChangeDetectorRef) {}
+  constructor(
+    public api: RfidApi,
+    public gateways: GatewayProfileStore,
+    public auth: AuthStore,
+    private realtime: RfidRealtime,
+    private sessions: ReadSessionStore,
+    private maletaStore: MaletaStore,
+    private surgeries: SurgeryStore,
+    private kits: KitTemplateStore,
+    private inventory: InventoryStore,
+    private sterilization: SterilizationStore,
+    private passes: TunnelPassStore,
+    private sounds: TunnelSounds,
+    private ngZone: NgZone,
+    private cdr: ChangeDetectorRef
+  ) {}
 
   get isReading(): boolean {
     return !!this.readerStatus?.reading;
@@ -113,61 +227,228 @@ export class Maleta implements OnInit, OnDestroy {
     return set;
   }
 
+  /** SKUs que piden las plantillas de las maletas cargadas. */
+  private getExpectedSkuUnion(): Set<string> {
+    const set = new Set<string>();
+    for (const m of this.maletas) {
+      for (const i of this.kits.get(m.templateId)?.items ?? []) set.add(i.sku);
+    }
+    return set;
+  }
+
+  /** Etiqueta esperada: EPC cargado en una maleta o producto de un tipo que pide alguna plantilla. */
+  private isExpectedTag(epc: string, expected: Set<string>, skus: Set<string>): boolean {
+    if (expected.has(epc)) return true;
+    const sku = this.inventory.get(epc)?.sku;
+    return !!sku && skus.has(sku);
+  }
+
   /** True si se leyó al menos una etiqueta que no está cargada en ninguna maleta. */
   get hasUnknownTagRead(): boolean {
-    if (this.maletas.length === 0) return false;
-    const expected = this.getExpectedTagUnion();
-    const read = this.effectiveReadTags;
-    return read.some((r) => r.length > 0 && !expected.has(r));
+    return this.extraUnlistedTags.length > 0;
   }
 
   /** Lista única de etiquetas leídas que no están en ninguna maleta (productos extras no enlistados). */
   get extraUnlistedTags(): string[] {
     if (this.maletas.length === 0) return [];
     const expected = this.getExpectedTagUnion();
+    const skus = this.getExpectedSkuUnion();
     const read = this.effectiveReadTags;
     const unlisted = new Set<string>();
     for (const r of read) {
-      if (r.length > 0 && !expected.has(r)) unlisted.add(r);
+      if (r.length > 0 && !this.isExpectedTag(r, expected, skus)) unlisted.add(r);
     }
     return Array.from(unlisted);
   }
 
-  /** Estado del semáforo por maleta: rojo=caducado en esta maleta, azul=incompleta, verde=completa (todos sus RFIDs leídos). */
+  /** Estado del semáforo por maleta: rojo=caducado en esta maleta, azul=incompleta (faltan RFIDs o piezas de la plantilla), verde=completa. */
   getMaletaStatus(m: MaletaItem): SemaphoreStatus {
-    const expired = m.expiredProductRfids ?? [];
-    if (expired.length > 0) return 'red';
+    const expiry = this.getMaletaExpiryCounts(m);
+    if (expiry.expired > 0) return 'red';
+    if (this.sterilization.needsSterilization(m.id)) return 'purple';
     const expected = [m.masterRfid, ...m.productRfids].map((s) => s.trim()).filter((s) => s.length > 0);
     const read = this.effectiveReadTags;
     const missing = expected.filter((e) => !read.includes(e));
     if (missing.length > 0) return 'blue';
+    if (this.getKitMissing(m).length > 0) return 'blue';
+    if (expiry.warning > 0) return 'orange'; /* completa, pero con productos por caducar */
     return 'green'; /* maleta completada: todos sus RFIDs leídos */
   }
 
-  /** Progreso de lectura de la maleta: cuántos esperados ya se leyeron. */
+  getMaletaStage(m: MaletaItem): SterilizationStage | null {
+    return this.sterilization.currentStage(m.id);
+  }
+
+  /** Historial de etapas de la maleta, la más reciente primero. */
+  getMaletaStageHistory(m: MaletaItem): StageRecord[] {
+    return this.sterilization.historyFor(m.id).reverse();
+  }
+
+  openStageForm(m: MaletaItem): void {
+    const current = this.getMaletaStage(m);
+    this.stageFormMaletaId = m.id;
+    this.stageFormStage = current ? nextStage(current) : 'SUCIA';
+    this.stageFormCycle = '';
+  }
+
+  closeStageForm(): void {
+    this.stageFormMaletaId = null;
+  }
+
+  saveStageForm(m: MaletaItem): void {
+    this.sterilization.recordManual(
+      m.id,
+      this.stageFormStage,
+      this.stageFormOperator,
+      this.stageFormCycle
+    );
+    this.closeStageForm();
+  }
+
+  /** Caducidad del producto: la fecha de la maleta o, si no tiene, la del catálogo de inventario. */
+  getProductExpiryDate(m: MaletaItem, rfid: string): string {
+    const id = (rfid || '').trim();
+    return m.productDates?.[id]?.expiryDate || this.inventory.get(id)?.expiryDate || '';
+  }
+
+  /** Caducado si está marcado a mano o si ya pasó su fecha; "por caducar" dentro de la ventana configurada. */
+  getProductExpiryState(m: MaletaItem, rfid: string): ExpiryState {
+    if (this.isProductExpired(m, rfid)) return 'expired';
+    return expiryState(this.getProductExpiryDate(m, rfid), this.expiryWarningDays);
+  }
+
+  /**
+   * Productos caducados y por caducar de la maleta: sus RFIDs fijos y, si tiene plantilla,
+   * las piezas leídas del tipo que pide la plantilla.
+   */
+  getMaletaExpiryCounts(m: MaletaItem): { expired: number; warning: number } {
+    let expired = 0;
+    let warning = 0;
+    for (const rfid of this.getMaletaProducts(m)) {
+      const state = this.getProductExpiryState(m, rfid);
+      if (state === 'expired') expired++;
+      else if (state === 'warning') warning++;
+    }
+    return { expired, warning };
+  }
+
+  /** RFIDs fijos de la maleta más las piezas leídas del tipo que pide su plantilla. */
+  private getMaletaProducts(m: MaletaItem): Set<string> {
+    const products = new Set(m.productRfids.map((r) => r.trim()));
+    const skus = new Set(this.getMaletaTemplate(m)?.items.map((i) => i.sku) ?? []);
+    if (skus.size > 0) {
+      for (const epc of this.effectiveReadTags) {
+        const sku = this.inventory.get(epc)?.sku;
+        if (sku && skus.has(sku)) products.add(epc);
+      }
+    }
+    return products;
+  }
+
+  /** Suma de caducados y por caducar de todas las maletas (semáforo general). */
+  get expiryTotals(): { expired: number; warning: number } {
+    const totals = { expired: 0, warning: 0 };
+    for (const m of this.maletas) {
+      const c = this.getMaletaExpiryCounts(m);
+      totals.expired += c.expired;
+      totals.warning += c.warning;
+    }
+    return totals;
+  }
+
+  get maletaSyncState(): MaletaSyncState {
+    return this.maletaStore.syncState;
+  }
+
+  get maletaSyncLabel(): string {
+    switch (this.maletaStore.syncState) {
+      case 'local': return 'Solo en este navegador';
+      case 'syncing': return 'Sincronizando…';
+      case 'pending': return `${this.maletaStore.pendingCount} cambio(s) sin enviar al gateway`;
+      case 'synced': return 'Sincronizado con el gateway';
+    }
+  }
+
+  syncMaletas(): void {
+    this.maletaStore.sync().subscribe(() => this.cdr.markForCheck());
+  }
+
+  get expiryWarningDays(): number {
+    return this.maletaStore.expiryWarningDays;
+  }
+
+  set expiryWarningDays(days: number) {
+    this.maletaStore.setExpiryWarningDays(Number(days));
+  }
+
+  getProductDates(m: MaletaItem, rfid: string): ProductDates {
+    return m.productDates?.[(rfid || '').trim()] ?? {};
+  }
+
+  /** Guarda la fecha de caducidad o de esterilización de un producto ('' la borra). */
+  setProductDate(m: MaletaItem, rfid: string, field: keyof ProductDates, value: string): void {
+    const id = (rfid || '').trim();
+    if (!id) return;
+    const dates: ProductDates = { ...m.productDates?.[id], [field]: value || undefined };
+    m.productDates = { ...m.productDates, [id]: dates };
+    this.saveMaletasToStorage();
+  }
+
+  /** Progreso de lectura de la maleta: cuántos esperados ya se leyeron (EPC + piezas de la plantilla). */
   getMaletaProgress(m: MaletaItem): { read: number; total: number } {
     const expected = [m.masterRfid, ...m.productRfids].map((s) => s.trim());
     const read = this.effectiveReadTags;
     const readCount = expected.filter((e) => read.includes(e)).length;
-    return { read: readCount, total: expected.length };
+    const kit = this.kitTotals(m);
+    return { read: readCount + kit.found, total: expected.length + kit.expected };
   }
 
   /** Resumen de lectura: si la etiqueta de la maleta se leyó y cuántos productos se leyeron. */
   getMaletaReadSummary(m: MaletaItem): { masterRead: boolean; productsRead: number; productsTotal: number } {
     const read = this.effectiveReadTags;
     const masterRead = read.includes((m.masterRfid || '').trim());
-    const productsTotal = (m.productRfids || []).length;
-    const productsRead = (m.productRfids || []).filter((rfid) => read.includes((rfid || '').trim())).length;
+    const kit = this.kitTotals(m);
+    const productsTotal = (m.productRfids || []).length + kit.expected;
+    const productsRead =
+      (m.productRfids || []).filter((rfid) => read.includes((rfid || '').trim())).length + kit.found;
     return { masterRead, productsRead, productsTotal };
   }
 
+  /** Plantilla de kit de la maleta, si tiene y sigue existiendo. */
+  getMaletaTemplate(m: MaletaItem): KitTemplate | undefined {
+    return this.kits.get(m.templateId);
+  }
+
+  /** Lectura contra la plantilla por tipo de producto; [] si la maleta no tiene plantilla. */
+  getKitLines(m: MaletaItem): KitLineResult[] {
+    const template = this.getMaletaTemplate(m);
+    if (!template) return [];
+    return evaluateKit(template, this.effectiveReadTags, (epc) => this.inventory.get(epc)?.sku);
+  }
+
+  /** Faltantes de la plantilla, p. ej. "Falta 1 × Porta agujas". */
+  getKitMissing(m: MaletaItem): string[] {
+    return describeMissing(this.getKitLines(m));
+  }
+
+  /** Piezas esperadas y leídas de la plantilla (las de más no suman). */
+  private kitTotals(m: MaletaItem): { expected: number; found: number } {
+    let expected = 0;
+    let found = 0;
+    for (const l of this.getKitLines(m)) {
+      expected += l.expected;
+      found += Math.min(l.found, l.expected);
+    }
+    return { expected, found };
+  }
+
   /** Indica si un producto (RFID) está marcado como caducado. */
   isProductExpired(m: MaletaItem, rfid: string): boolean {
     const id = (rfid || '').trim();
     return (m.expiredProductRfids ?? []).includes(id);
   }
 
-  /** Marca o desmarca un producto como caducado. */
+  /** Marca o desmarca un producto como caducado a mano (además caduca solo por su fecha). */
   toggleProductExpired(m: MaletaItem, rfid: string, event?: Event): void {
     event?.preventDefault();
     event?.stopPropagation();
@@ -203,26 +484,90 @@ export class Maleta implements OnInit, OnDestroy {
     } catch {}
   }
 
+  /** Modo por pasada: solo con lectura real del túnel. */
+  get passModeActive(): boolean {
+    return this.passes.enabled && !this.showSimulatedRead;
+  }
+
+  get passModeEnabled(): boolean {
+    return this.passes.enabled;
+  }
+
+  set passModeEnabled(enabled: boolean) {
+    this.passes.setEnabled(enabled);
+    if (!enabled) this.discardPass();
+  }
+
+  get passQuietSeconds(): number {
+    return this.passes.quietSeconds;
+  }
+
+  set passQuietSeconds(seconds: number) {
+    this.passes.setQuietSeconds(Number(seconds));
+  }
+
+  /** Abre el quiosco: usa la lectura del túnel y el modo por pasada, que son los que lo alimentan. */
+  openKiosk(): void {
+    this.sounds.unlock();
+    if (this.showSimulatedRead) this.toggleShowSimulatedRead();
+    this.passModeEnabled = true;
+    this.showKiosk = true;
+  }
+
+  closeKiosk(): void {
+    this.showKiosk = false;
+  }
+
+  /** Maleta de la pasada en curso. */
+  get currentPassMaleta(): MaletaItem | undefined {
+    return this.currentPass ? this.maletaStore.get(this.currentPass.maletaId) : undefined;
+  }
+
+  passResultLabel(result: TunnelPassResult): string {
+    return passResultLabel(result);
+  }
+
   /** Número de maletas completadas (semáforo verde). */
   get completedMaletasCount(): number {
     return this.maletas.filter((m) => this.getMaletaStatus(m) === 'green').length;
   }
 
-  /** Semáforo general: rojo si alguna maleta tiene caducado; amarillo si hay producto extra no enlistado; azul/verde según maletas. */
+  /** Semáforo general: rojo si alguna maleta tiene caducado; amarillo si hay producto extra no enlistado; azul/naranja/verde según maletas. */
   get generalSemaphoreStatus(): SemaphoreStatus {
     if (this.maletas.length === 0) return 'green';
     const statuses = this.maletas.map((m) => this.getMaletaStatus(m));
     if (statuses.some((s) => s === 'red')) return 'red';
+    if (statuses.some((s) => s === 'purple')) return 'purple';
     if (this.hasUnknownTagRead) return 'yellow';
     if (statuses.some((s) => s === 'yellow')) return 'yellow';
     if (statuses.some((s) => s === 'blue')) return 'blue';
+    if (statuses.some((s) => s === 'orange')) return 'orange';
     return 'green';
   }
 
+  /** Semáforo de cada maleta al detener la lectura, para el historial de Reportes. */
+  private sessionOutcomes(): ReadSessionExtras {
+    return {
+      maletaOutcomes: this.maletas.map((m) => {
+        const summary = this.getMaletaReadSummary(m);
+        return {
+          maletaId: m.id,
+          masterRfid: m.masterRfid,
+          status: this.getMaletaStatus(m),
+          productsRead: summary.productsRead,
+          productsTotal: summary.productsTotal,
+        };
+      }),
+      generalStatus: this.generalSemaphoreStatus,
+      simulated: this.showSimulatedRead,
+    };
+  }
 
   semaphoreTitle(status: SemaphoreStatus): string {
     switch (status) {
       case 'red': return 'Caducada';
+      case 'purple': return 'Sin esterilizar (ciclo de reprocesamiento incompleto)';
+      case 'orange': return 'Completa, con productos por caducar';
       case 'blue': return 'Incompleta (leyendo o faltan RFID)';
       case 'yellow': return 'Lectura con etiquetas extra';
       case 'green': return 'Lectura completa';
@@ -233,6 +578,8 @@ export class Maleta implements OnInit, OnDestroy {
   semaphoreLegend(status: SemaphoreStatus): string {
     switch (status) {
       case 'red': return 'Caducada';
+      case 'purple': return 'Sin esterilizar';
+      case 'orange': return 'Por caducar';
       case 'blue': return 'Incompleta';
       case 'yellow': return 'Extra';
       case 'green': return 'Completa';
@@ -240,60 +587,114 @@ export class Maleta implements OnInit, OnDestroy {
     }
   }
 
-  /** URL por defecto para la vista Maleta (túnel). */
-  private static readonly MALETA_API = 'https://rfid.leyluz.com';
-
   /** True si no hay lectores (muestra timer de reintento). */
   get needsRetry(): boolean {
     return !this.loading && this.api.getBaseUrl() !== '' && this.readers.length === 0;
   }
 
   ngOnInit(): void {
-    this.api.setBaseUrl(Maleta.MALETA_API);
-    this.apiBaseUrl = this.api.getBaseUrl();
+    this.gateways.enterPage('maleta');
+    this.pinnedProfileId = this.gateways.pinFor('maleta')?.id ?? '';
+    this.realtimeSubs.add(
+      this.gateways.profileFor$('maleta').pipe(skip(1)).subscribe(() => this.onGatewayChange())
+    );
     this.retryCountdown = this.retryIntervalSeconds;
     try {
       const saved = localStorage.getItem(Maleta.SHOW_SIMULATED_KEY);
       if (saved !== null) this.showSimulatedRead = saved === 'true';
     } catch {}
-    this.loadMaletasFromStorage();
+    this.realtimeSubs.add(
+      this.maletaStore.maletas$.subscribe((list) => {
+        this.maletas = list;
+        this.cdr.markForCheck();
+      })
+    );
+    this.realtimeSubs.add(this.maletaStore.syncState$.subscribe(() => this.cdr.markForCheck()));
+    this.realtimeSubs.add(this.kits.templates$.subscribe((list) => (this.kitTemplates = list)));
+    this.realtimeSubs.add(
+      this.passes.passes$.subscribe((list) => {
+        this.recentPasses = list.slice(0, 20);
+        this.cdr.markForCheck();
+      })
+    );
+    this.realtimeSubs.add(this.sterilization.history$.subscribe(() => this.cdr.markForCheck()));
+    /* Cirugías con maletas asignadas: las verificaciones del túnel se registran en ellas. */
+    this.surgeries.load().subscribe();
+    this.maletaStore.sync().subscribe();
+    this.subscribeRealtime();
     this.loadReaders();
     this.loadAntennas();
     this.startRetryTimer();
   }
 
-  private loadMaletasFromStorage(): void {
-    try {
-      const raw = localStorage.getItem(Maleta.MALETAS_STORAGE_KEY);
-      if (raw) {
-        this.maletas = JSON.parse(raw);
-        this.maletas.forEach((m) => {
-          if ((m as { expired?: boolean }).expired && m.productRfids?.length) {
-            m.expiredProductRfids = [...m.productRfids];
-            delete (m as { expired?: boolean }).expired;
-          }
-        });
-      }
-    } catch {
-      this.maletas = [];
-    }
-  }
-
   private saveMaletasToStorage(): void {
-    try {
-      localStorage.setItem(Maleta.MALETAS_STORAGE_KEY, JSON.stringify(this.maletas));
-    } catch {}
+    this.maletaStore.save(this.maletas);
   }
 
   openCreateMaleta(): void {
     this.showCreateMaleta = true;
+    this.editingMaletaId = null;
+    this.newMaletaName = '';
     this.newMaletaMasterRfid = '';
     this.newMaletaProductRfids = [];
     this.newProductRfidInput = '';
+    this.newMaletaTemplateId = '';
+    this.resetEditState();
+  }
+
+  /** Abre el formulario con los datos de una maleta guardada. */
+  openEditMaleta(m: MaletaItem, event?: Event): void {
+    event?.preventDefault();
+    event?.stopPropagation();
+    this.showCreateMaleta = true;
+    this.editingMaletaId = m.id;
+    this.newMaletaName = m.name ?? '';
+    this.newMaletaMasterRfid = m.masterRfid;
+    this.newMaletaProductRfids = [...m.productRfids];
+    this.newProductRfidInput = '';
+    this.newMaletaTemplateId = m.templateId ?? '';
+    this.resetEditState();
   }
 
   closeCreateMaleta(): void {
     this.showCreateMaleta = false;
+    this.editingMaletaId = null;
+    this.resetEditState();
+  }
+
+  private resetEditState(): void {
+    this.replacingRfid = null;
+    this.replacedRfids = {};
+    this.confirmSharedEpcs = false;
+  }
+
+  get editingMaleta(): MaletaItem | undefined {
+    return this.editingMaletaId ? this.maletaStore.get(this.editingMaletaId) : undefined;
+  }
+
+  /** EPCs del formulario que ya están en otra maleta. */
+  get formConflicts(): EpcConflict[] {
+    return this.maletaStore.epcConflicts(
+      this.newMaletaMasterRfid,
+      this.newMaletaProductRfids,
+      this.editingMaletaId ?? undefined
+    );
+  }
+
+  /** Un EPC es maestro en una maleta y también está en otra: no se puede guardar. */
+  get hasMasterConflict(): boolean {
+    return this.formConflicts.some((c) => c.asMaster);
+  }
+
+  /** Entre productos compartidos solo se pide confirmación. */
+  get canSaveMaleta(): boolean {
+    if (!this.newMaletaMasterRfid.trim() || this.hasMasterConflict) return false;
+    return this.formConflicts.length === 0 || this.confirmSharedEpcs;
+  }
+
+  /** Marca un producto para reemplazar su etiqueta (p. ej. una dañada). */
+  startReplaceProduct(rfid: string): void {
+    this.replacingRfid = this.replacingRfid === rfid ? null : rfid;
   }
 
   /** Usar un tag de la lectura como RFID maestro. */
@@ -303,42 +704,97 @@ export class Maleta implements OnInit, OnDestroy {
 
   /** Añadir un tag de la lectura como producto (evita duplicar y que sea el maestro). */
   addProductFromTag(tagId: string): void {
-    const id = tagId.trim();
-    if (!id || id === this.newMaletaMasterRfid) return;
-    if (this.newMaletaProductRfids.includes(id)) return;
-    this.newMaletaProductRfids = [...this.newMaletaProductRfids, id];
+    this.addProductRfid(tagId.trim());
   }
 
   addProductManual(): void {
-    const id = this.newProductRfidInput.trim();
-    if (!id) return;
-    if (this.newMaletaProductRfids.includes(id)) {
-      this.newProductRfidInput = '';
+    this.addProductRfid(this.newProductRfidInput.trim());
+    this.newProductRfidInput = '';
+  }
+
+  /** Agrega el producto o, si hay uno marcado para reemplazar, lo sustituye en su lugar. */
+  private addProductRfid(id: string): void {
+    if (!id || id === this.newMaletaMasterRfid.trim()) return;
+    if (this.newMaletaProductRfids.includes(id)) return;
+    const old = this.replacingRfid;
+    if (old) {
+      this.newMaletaProductRfids = this.newMaletaProductRfids.map((p) => (p === old ? id : p));
+      const original = Object.keys(this.replacedRfids).find((k) => this.replacedRfids[k] === old);
+      this.replacedRfids = { ...this.replacedRfids, [original ?? old]: id };
+      this.replacingRfid = null;
       return;
     }
     this.newMaletaProductRfids = [...this.newMaletaProductRfids, id];
-    this.newProductRfidInput = '';
   }
 
   removeProduct(rfid: string): void {
     this.newMaletaProductRfids = this.newMaletaProductRfids.filter((p) => p !== rfid);
+    const original = Object.keys(this.replacedRfids).find((k) => this.replacedRfids[k] === rfid);
+    if (original) {
+      const rest = { ...this.replacedRfids };
+      delete rest[original];
+      this.replacedRfids = rest;
+    }
+    if (this.replacingRfid === rfid) this.replacingRfid = null;
   }
 
   saveMaleta(): void {
     const master = this.newMaletaMasterRfid.trim();
-    if (!master) return;
-    const item: MaletaItem = {
-      id: `maleta_${Date.now()}`,
-      masterRfid: master,
-      productRfids: [...this.newMaletaProductRfids],
-      createdAt: new Date().toISOString(),
-    };
-    this.maletas = [item, ...this.maletas];
+    if (!master || !this.canSaveMaleta) return;
+    if (this.editingMaletaId) {
+      this.updateMaleta(master);
+    } else {
+      const name = this.newMaletaName.trim();
+      const item: MaletaItem = {
+        id: `maleta_${Date.now()}`,
+        masterRfid: master,
+        productRfids: [...this.newMaletaProductRfids],
+        createdAt: new Date().toISOString(),
+        ...(name ? { name } : {}),
+        ...(this.newMaletaTemplateId ? { templateId: this.newMaletaTemplateId } : {}),
+      };
+      this.maletas = [item, ...this.maletas];
+    }
     this.saveMaletasToStorage();
     this.closeCreateMaleta();
     this.cdr.detectChanges();
   }
 
+  /**
+   * Aplica la edición y la anota en el historial. Fechas y marca de caducado siguen a la
+   * etiqueta nueva cuando se reemplaza una; las de productos quitados se descartan.
+   */
+  private updateMaleta(master: string): void {
+    const before = this.maletas.find((m) => m.id === this.editingMaletaId);
+    if (!before) return;
+    const products = [...this.newMaletaProductRfids];
+    const carry = (rfid: string) => this.replacedRfids[rfid] ?? rfid;
+    const expired = (before.expiredProductRfids ?? []).map(carry).filter((r) => products.includes(r));
+    const dates: Record<string, ProductDates> = {};
+    for (const [rfid, d] of Object.entries(before.productDates ?? {})) {
+      if (products.includes(carry(rfid))) dates[carry(rfid)] = d;
+    }
+    const after: MaletaItem = {
+      ...before,
+      name: this.newMaletaName.trim() || undefined,
+      masterRfid: master,
+      productRfids: products,
+      templateId: this.newMaletaTemplateId || undefined,
+      expiredProductRfids: expired,
+      productDates: dates,
+    };
+    const changes = describeMaletaChanges(before, after, this.replacedRfids);
+    if (changes.length > 0) {
+      after.history = [...(before.history ?? []), { at: new Date().toISOString(), changes }];
+    }
+    this.maletas = this.maletas.map((m) => (m.id === before.id ? after : m));
+  }
+
+  /** Historial de ediciones, la más reciente primero. */
+  getMaletaHistory(m: MaletaItem): MaletaChange[] {
+    return [...(m.history ?? [])].reverse();
+  }
+
   deleteMaleta(item: MaletaItem, event?: Event): void {
     event?.preventDefault();
     event?.stopPropagation();
@@ -346,48 +802,42 @@ export class Maleta implements OnInit, OnDestroy {
     this.saveMaletasToStorage();
   }
 
-  /** Formato .txt: MAESTRO <rfid> = maleta; líneas siguientes = productos hasta el próximo MAESTRO. */
-  private static readonly TXT_MAESTRO_PREFIX = 'MAESTRO ';
-
   /** Exporta las maletas a un .txt para guardar y saber qué hay que leer. */
   exportMaletasToTxt(): void {
-    const lines: string[] = [
-      '# Maletas - qué hay que leer',
-      '# MAESTRO = RFID de la maleta. Líneas debajo = productos hasta el próximo MAESTRO.',
-      '',
-    ];
-    for (const m of this.maletas) {
-      lines.push(Maleta.TXT_MAESTRO_PREFIX + m.masterRfid);
-      for (const rfid of m.productRfids) {
-        lines.push(rfid.trim());
-      }
-      lines.push('');
-    }
-    const blob = new Blob([lines.join('\n')], { type: 'text/plain;charset=utf-8' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `maletas_${new Date().toISOString().slice(0, 10)}.txt`;
-    a.click();
-    URL.revokeObjectURL(url);
+    downloadText(maletasToTxt(this.maletas), `maletas_${this.today()}.txt`);
+  }
+
+  /** JSON con todos los datos de cada maleta (caducados, fechas, plantilla). */
+  exportMaletasToJson(): void {
+    downloadText(maletasToJson(this.maletas), `maletas_${this.today()}.json`, 'application/json');
+  }
+
+  /** CSV (abre en Excel): una fila por producto. */
+  exportMaletasToCsv(): void {
+    downloadText(
+      toCsv(maletasToCsvRows(this.maletas)),
+      `maletas_${this.today()}.csv`,
+      'text/csv;charset=utf-8'
+    );
   }
 
-  /** Carga maletas desde un .txt (reemplaza las actuales). */
+  private today(): string {
+    return new Date().toISOString().slice(0, 10);
+  }
+
+  /** Lee el archivo (.txt, .json o .csv) y muestra la vista previa; no cambia nada todavía. */
   importMaletasFromFile(file: File): void {
     const reader = new FileReader();
     reader.onload = () => {
-      const text = (reader.result as string) || '';
-      const loaded = this.parseMaletasTxt(text);
-      if (loaded.length > 0) {
-        this.maletas = loaded;
-        this.saveMaletasToStorage();
-        this.cdr.detectChanges();
-      }
+      this.importParse = parseMaletasFile(file.name, (reader.result as string) || '');
+      this.importFileName = file.name;
+      this.updateImportPreview();
+      this.cdr.markForCheck();
     };
     reader.readAsText(file, 'UTF-8');
   }
 
-  /** Llamado al elegir un archivo .txt para cargar maletas. */
+  /** Llamado al elegir un archivo para cargar maletas. */
   onMaletasFileSelected(event: Event): void {
     const input = event.target as HTMLInputElement;
     const file = input?.files?.[0];
@@ -397,36 +847,36 @@ export class Maleta implements OnInit, OnDestroy {
     }
   }
 
-  /** Parsea el formato .txt a lista de MaletaItem. */
-  private parseMaletasTxt(text: string): MaletaItem[] {
-    const result: MaletaItem[] = [];
-    const lines = text.split(/\r?\n/).map((l) => l.trim());
-    let current: MaletaItem | null = null;
-    for (const line of lines) {
-      if (!line || line.startsWith('#')) continue;
-      if (line.startsWith(Maleta.TXT_MAESTRO_PREFIX)) {
-        const masterRfid = line.slice(Maleta.TXT_MAESTRO_PREFIX.length).trim();
-        if (masterRfid) {
-          current = {
-            id: `maleta_${Date.now()}_${result.length}`,
-            masterRfid,
-            productRfids: [],
-            createdAt: new Date().toISOString(),
-          };
-          result.push(current);
-        }
-      } else if (current && line) {
-        current.productRfids.push(line);
-      }
-    }
-    return result;
+  updateImportPreview(): void {
+    this.importPreview = this.importParse
+      ? previewMaletaImport(this.importParse, this.maletas, this.importMode)
+      : null;
+  }
+
+  /** Aplica la importación revisada (merge o replace). */
+  applyImport(): void {
+    this.updateImportPreview();
+    if (!this.importPreview || this.importPreview.mode === 'dry-run') return;
+    this.maletas = this.importPreview.result;
+    this.saveMaletasToStorage();
+    this.cancelImport();
+  }
+
+  cancelImport(): void {
+    this.importParse = null;
+    this.importPreview = null;
+    this.importFileName = '';
   }
 
   ngOnDestroy(): void {
+    /* La pasada abierta se cierra con lo leído hasta ahora en vez de perderse. */
+    this.endPass();
     this.stopRetryTimer();
     this.stopStatusPolling();
     this.stopUiRefresh();
-    this.disconnectRealtime();
+    this.realtimeSubs.unsubscribe();
+    this.realtimeHandle?.release();
+    this.gateways.leavePage('maleta');
   }
 
   private startRetryTimer(): void {
@@ -458,7 +908,6 @@ export class Maleta implements OnInit, OnDestroy {
 
   /** Recarga API y resetea el temporizador de reintento. */
   forceReload(): void {
-    this.error = '';
     this.retryCountdown = this.retryIntervalSeconds;
     this.loadReaders();
     this.loadAntennas();
@@ -467,22 +916,31 @@ export class Maleta implements OnInit, OnDestroy {
     }
   }
 
-  saveBaseUrl(): void {
-    this.api.setBaseUrl(this.apiBaseUrl);
-    this.error = '';
+  pinProfile(): void {
+    this.gateways.pin('maleta', this.pinnedProfileId || null);
+  }
+
+  /** Otro gateway: se olvida el lector elegido y se recarga todo contra el nuevo. */
+  private onGatewayChange(): void {
+    this.stopStatusPolling();
+    this.selectedReaderId = '';
+    this.readerStatus = null;
+    this.readers = [];
+    this.antennas = [];
     this.loadReaders();
     this.loadAntennas();
+    this.cdr.markForCheck();
   }
 
   loadReaders(): void {
     if (!this.api.getBaseUrl()) return;
     this.loading = true;
-    this.error = '';
     this.api.getReaders().subscribe({
       next: (list) => {
         this.readers = list;
         if (list.length && !this.selectedReaderId) {
-          this.selectedReaderId = list[0].id;
+          const preferred = this.gateways.profileFor('maleta')?.defaultReaderId;
+          this.selectedReaderId = list.find((r) => r.id === preferred)?.id ?? list[0].id;
           this.restartStatusPolling();
         }
         this.refreshStatus();
@@ -491,8 +949,7 @@ export class Maleta implements OnInit, OnDestroy {
           this.retryCountdown = this.retryIntervalSeconds;
         }
       },
-      error: (err) => {
-        this.error = err?.message || 'Error al cargar lectores';
+      error: () => {
         this.loading = false;
         this.retryCountdown = this.retryIntervalSeconds;
       },
@@ -556,114 +1013,73 @@ export class Maleta implements OnInit, OnDestroy {
 
   startReading(): void {
     if (!this.selectedReaderId || this.isReading) return;
-    this.error = '';
     this.connectRealtime();
     this.startUiRefresh();
-    this.api.startReader(this.selectedReaderId).subscribe({
-      next: () => this.refreshStatus(),
-      error: (e) => (this.error = e?.error?.message || e?.message || 'Error'),
+    const readerId = this.selectedReaderId;
+    this.api.startReader(readerId).subscribe({
+      next: () => {
+        this.sessions.start('maleta', readerId, this.readers.find((r) => r.id === readerId)?.name);
+        this.refreshStatus();
+      },
+      error: () => this.refreshStatus(),
     });
   }
 
   stopReading(): void {
     if (!this.selectedReaderId) return;
-    this.error = '';
-    this.api.stopReader(this.selectedReaderId).subscribe({
+    const readerId = this.selectedReaderId;
+    this.api.stopReader(readerId).subscribe({
       next: () => {
+        this.sessions.stop(readerId, this.sessionOutcomes());
         this.refreshStatus();
         this.stopUiRefresh();
         this.disconnectRealtime();
       },
-      error: (e) => (this.error = e?.error?.message || e?.message || 'Error'),
+      error: () => this.refreshStatus(),
     });
   }
 
   resetReader(): void {
     if (!this.selectedReaderId || this.isReading) return;
-    this.error = '';
     this.api.resetReader(this.selectedReaderId).subscribe({
       next: () => this.refreshStatus(),
-      error: (e) => (this.error = e?.error?.message || e?.message || 'Error'),
+      error: () => this.refreshStatus(),
     });
   }
 
   rebootReader(): void {
     if (!this.selectedReaderId || this.isReading) return;
-    this.error = '';
     this.api.rebootReader(this.selectedReaderId).subscribe({
       next: () => this.refreshStatus(),
-      error: (e) => (this.error = e?.error?.message || e?.message || 'Error'),
+      error: () => this.refreshStatus(),
     });
   }
 
   resetAntennas(): void {
     if (!this.selectedReaderId || this.isReading) return;
-    this.error = '';
     this.api.resetReaderAntennas(this.selectedReaderId).subscribe({
       next: () => this.loadAntennas(),
-      error: (e) => (this.error = e?.error?.message || e?.message || 'Error'),
+      error: () => this.refreshStatus(),
     });
   }
 
-  extractTagId(data: unknown): string | null {
-    if (data == null) return null;
-    if (typeof data === 'string') {
-      const s = data.trim();
-      if (s.length >= 6 && /^[0-9A-Fa-f\-]+$/.test(s)) return s;
-      if (s.length > 0) return s;
-      return null;
-    }
-    if (Array.isArray(data)) {
-      for (const item of data) {
-        const id = this.extractTagId(item);
-        if (id) return id;
-      }
-      return null;
-    }
-    if (typeof data === 'object') {
-      const d = data as Record<string, unknown>;
-      const preferidos = ['epc', 'tagId', 'tag_id', 'id', 'tagEPC', 'EPC'];
-      for (const key of preferidos) {
-        const v = d[key];
-        if (typeof v === 'string' && v.trim()) return v.trim();
-      }
-      const tag = d['tag'];
-      if (tag) {
-        const id = this.extractTagId(tag);
-        if (id) return id;
-      }
-      if (Array.isArray(d['tags'])) {
-        for (const t of d['tags']) {
-          const id = this.extractTagId(t);
-          if (id) return id;
-        }
-      }
-      if (d['data']) {
-        const id = this.extractTagId(d['data']);
-        if (id) return id;
-      }
-      for (const v of Object.values(d)) {
-        const id = this.extractTagId(v);
-        if (id) return id;
-      }
-    }
-    return null;
-  }
-
-  private processEvent(raw: string): void {
-    let data: unknown;
-    try {
-      data = JSON.parse(raw);
-    } catch {
-      data = { raw };
-    }
-    const now = new Date().toLocaleTimeString('es-MX');
+  /** Procesa un evento recibido del stream compartido. */
+  private processEvent(event: RealtimeEvent): void {
+    const now = event.receivedAt.toLocaleTimeString('es-MX');
     this.eventsReceived++;
-    this.events.unshift({ time: now, data });
+    if (event.rejectedReason) this.eventsRejected++;
+    this.events.unshift({ time: now, data: event.data, rejectedReason: event.rejectedReason });
     if (this.events.length > this.maxEvents) this.events.pop();
 
-    const tagIds = this.extractAllTagIds(data);
-    for (const tagId of tagIds) {
+    const reads = this.selectedReaderId
+      ? event.reads.filter((r) => readMatchesReader(r, this.selectedReaderId))
+      : event.reads;
+    for (const read of reads) {
+      if (this.passModeActive) {
+        this.trackPass(read);
+        this.passReadLog.push(read.epc);
+      }
+      const tagId = read.epc;
       this.totalReads++;
       const existing = this.tagCounts.get(tagId);
       if (existing) {
@@ -673,84 +1089,162 @@ export class Maleta implements OnInit, OnDestroy {
         this.tagCounts.set(tagId, { id: tagId, count: 1, lastSeen: now });
       }
     }
+    if (reads.length) this.recordVerifications(reads[0].readerId ?? this.selectedReaderId);
   }
 
-  private extractAllTagIds(data: unknown): string[] {
-    const seen = new Set<string>();
-    const add = (id: string | null) => {
-      if (id && id.length >= 4 && !seen.has(id)) {
-        seen.add(id);
-        return id;
-      }
-      return null;
-    };
-    const ids: string[] = [];
-    const main = add(this.extractTagId(data));
-    if (main) ids.push(main);
-    if (data && typeof data === 'object') {
-      const d = data as Record<string, unknown>;
-      if (Array.isArray(d['tags'])) {
-        for (const t of d['tags']) {
-          const id = add(this.extractTagId(t));
-          if (id) ids.push(id);
-        }
-      }
+  /**
+   * Modo por pasada: el maestro de una maleta abre su pasada (y cierra la anterior si era de
+   * otra maleta); cada lectura reinicia la cuenta de silencio que la cierra. Lo leído después
+   * del último producto de la anterior ya es de la maleta que entra y pasa a su pasada.
+   */
+  private trackPass(read: TagReadEvent): void {
+    const m = this.maletas.find((x) => x.masterRfid.trim() === read.epc);
+    if (m && this.currentPass?.maletaId !== m.id) {
+      if (this.currentPass) this.endPass(this.readsAfterLastOwn(this.currentPass.maletaId));
+      this.currentPass = {
+        maletaId: m.id,
+        masterRfid: m.masterRfid,
+        readerId: read.readerId ?? this.selectedReaderId,
+        startedAt: new Date().toISOString(),
+      };
+      this.passes.setCurrent(this.currentPass);
     }
-    return ids;
+    if (!this.currentPass) return;
+    if (this.passQuietTimer) clearTimeout(this.passQuietTimer);
+    this.passQuietTimer = setTimeout(
+      () => this.ngZone.run(() => this.endPass()),
+      this.passes.quietSeconds * 1000
+    );
   }
 
-  connectRealtime(): void {
-    this.disconnectRealtime();
-    const base = this.api.getBaseUrl();
-    if (!base) return;
-
-    const readerId = this.selectedReaderId || undefined;
-    const wsUrl = this.api.getWebSocketUrl();
-    const wsFull = readerId ? `${wsUrl}?readerId=${encodeURIComponent(readerId)}` : wsUrl;
+  /** Lecturas posteriores a la última etiqueta de la maleta (maestro, producto o pieza del kit). */
+  private readsAfterLastOwn(maletaId: string): string[] {
+    const m = this.maletaStore.get(maletaId);
+    if (!m) return [];
+    const skus = new Set(this.getMaletaTemplate(m)?.items.map((i) => i.sku) ?? []);
+    const own = new Set([m.masterRfid, ...m.productRfids].map((r) => r.trim()));
+    const isOwn = (epc: string) => own.has(epc) || skus.has(this.inventory.get(epc)?.sku ?? '');
+    let last = this.passReadLog.length - 1;
+    while (last >= 0 && !isOwn(this.passReadLog[last])) last--;
+    return this.passReadLog.slice(last + 1);
+  }
 
-    try {
-      this.eventSource = new EventSource(
-        readerId ? this.api.getRealtimeEventsUrl(readerId) : this.api.getRealtimeEventsUrl()
-      );
-      this.eventSource.onopen = () => this.ngZone.run(() => (this.sseConnected = true));
-      this.eventSource.onerror = () => this.ngZone.run(() => (this.sseConnected = false));
-      this.eventSource.onmessage = (ev) => this.ngZone.run(() => this.processEvent(ev.data));
-      this.eventSource.addEventListener('tag', (ev: MessageEvent) => this.ngZone.run(() => this.processEvent(ev.data)));
-      this.eventSource.addEventListener('detection', (ev: MessageEvent) => this.ngZone.run(() => this.processEvent(ev.data)));
-      this.eventSource.addEventListener('event', (ev: MessageEvent) => this.ngZone.run(() => this.processEvent(ev.data)));
-    } catch {
-      this.sseConnected = false;
+  /**
+   * Cierra la pasada: guarda el resultado de esa maleta (faltantes, extras y caducados con lo
+   * leído desde que se limpió la vista) y deja la vista lista para la siguiente. `carry` son
+   * lecturas de la maleta que sigue: no cuentan para esta y quedan en la vista.
+   */
+  private endPass(carry: string[] = []): void {
+    const pass = this.currentPass;
+    this.discardPass();
+    const m = pass ? this.maletaStore.get(pass.maletaId) : undefined;
+    if (!pass || !m) return;
+    const carried = [...new Set(carry)]
+      .map((epc) => this.tagCounts.get(epc))
+      .filter((t): t is TagCount => !!t);
+    for (const t of carried) this.tagCounts.delete(t.id);
+    const skus = new Set(this.getMaletaTemplate(m)?.items.map((i) => i.sku) ?? []);
+    const own = new Set([m.masterRfid, ...m.productRfids].map((r) => r.trim()));
+    const missing = [...this.getMaletaMissing(m), ...this.getKitMissing(m)];
+    const extra = this.effectiveReadTags.filter(
+      (epc) => !own.has(epc) && !skus.has(this.inventory.get(epc)?.sku ?? '')
+    );
+    const expired = [...this.getMaletaProducts(m)].filter(
+      (r) => this.getProductExpiryState(m, r) === 'expired'
+    );
+    const status = this.getMaletaStatus(m);
+    const result: TunnelPassResult =
+      expired.length > 0
+        ? 'expired'
+        : status === 'purple'
+          ? 'not-sterile'
+          : missing.length > 0
+            ? 'missing'
+            : extra.length > 0
+              ? 'extra'
+              : 'complete';
+    this.lastPass = this.passes.record({
+      ...pass,
+      masterRfid: m.masterRfid,
+      endedAt: new Date().toISOString(),
+      result,
+      status,
+      missing,
+      extra,
+      expired,
+      uniqueTags: this.uniqueCount,
+    });
+    this.clearTags();
+    for (const t of carried) {
+      const count = carry.filter((epc) => epc === t.id).length;
+      this.tagCounts.set(t.id, { ...t, count });
     }
+    this.totalReads = carry.length;
+    this.passReadLog = [...carry];
+    this.cdr.markForCheck();
+  }
 
-    try {
-      this.ws = new WebSocket(wsFull);
-      this.ws.onopen = () => this.ngZone.run(() => (this.sseConnected = true));
-      this.ws.onclose = () => this.ngZone.run(() => {
-        if (!this.eventSource || this.eventSource.readyState !== EventSource.OPEN) {
-          this.sseConnected = false;
-        }
-      });
-      this.ws.onerror = () => this.ngZone.run(() => {
-        if (!this.eventSource || this.eventSource.readyState !== EventSource.OPEN) {
-          this.sseConnected = false;
-        }
+  private discardPass(): void {
+    if (this.passQuietTimer) clearTimeout(this.passQuietTimer);
+    this.passQuietTimer = null;
+    if (this.currentPass) this.passes.setCurrent(null);
+    this.currentPass = null;
+  }
+
+  /**
+   * Registra en las cirugías programadas cada maleta que llega a verde con lectura real del túnel
+   * (nunca con la simulada). Es la evidencia que exige Preparación de cirugía para iniciar.
+   */
+  private recordVerifications(readerId: string): void {
+    if (this.showSimulatedRead) return;
+    for (const m of this.maletas) {
+      if (this.verifiedMaletaIds.has(m.id) || this.getMaletaStatus(m) !== 'green') continue;
+      this.verifiedMaletaIds.add(m.id);
+      this.surgeries.recordVerification(m, readerId).subscribe({
+        error: () => this.verifiedMaletaIds.delete(m.id),
       });
-      this.ws.onmessage = (ev) => this.ngZone.run(() => this.processEvent(ev.data));
-    } catch {
     }
   }
 
+  /** Cirugías programadas que tienen asignada esta maleta. */
+  surgeriesFor(m: MaletaItem): string {
+    return this.surgeries.surgeries
+      .filter((s) => s.estado === 'PROGRAMADA' && s.maletaIds?.includes(m.id))
+      .map((s) => `#${s.id} ${s.paciente}${this.surgeries.isVerified(s, m.id) ? ' ✓' : ''}`)
+      .join(', ');
+  }
+
+  /** Se suscribe al stream compartido; la conexión sigue viva al cambiar de página. */
+  private subscribeRealtime(): void {
+    this.realtimeSubs.add(
+      this.realtime.state$.subscribe((state) => {
+        this.realtimeState = state;
+        this.sseConnected = state === 'open' || state === 'degraded';
+        this.cdr.markForCheck();
+      })
+    );
+    this.realtimeSubs.add(
+      this.realtime.heartbeat$.subscribe((s) => {
+        this.secondsSinceLastEvent = s;
+        this.cdr.markForCheck();
+      })
+    );
+    this.realtimeSubs.add(this.realtime.events$.subscribe((ev) => this.processEvent(ev)));
+  }
+
+  get realtimeStateLabel(): string {
+    return realtimeStateLabel(this.realtimeState);
+  }
+
+  connectRealtime(): void {
+    this.realtimeHandle ??= this.realtime.acquire();
+  }
+
+  /** Suelta el stream de esta pantalla; sigue abierto si otra pantalla o servicio lo usa. */
   disconnectRealtime(): void {
     this.stopUiRefresh();
-    if (this.eventSource) {
-      this.eventSource.close();
-      this.eventSource = null;
-    }
-    if (this.ws) {
-      this.ws.close();
-      this.ws = null;
-    }
-    this.sseConnected = false;
+    this.realtimeHandle?.release();
+    this.realtimeHandle = null;
   }
 
   clearEvents(): void {
@@ -759,7 +1253,9 @@ export class Maleta implements OnInit, OnDestroy {
 
   clearTags(): void {
     this.tagCounts.clear();
+    this.passReadLog = [];
     this.totalReads = 0;
+    this.verifiedMaletaIds.clear();
   }
 
   filteredAntennas(): Antenna[] {
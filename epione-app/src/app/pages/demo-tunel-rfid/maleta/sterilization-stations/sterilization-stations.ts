@@ -0,0 +1,120 @@
+import {
+  ChangeDetectorRef,
+  Component,
+  EnvironmentInjector,
+  OnDestroy,
+  OnInit,
+} from '@angular/core';
+import { FormsModule } from '@angular/forms';
+import { Subscription } from 'rxjs';
+import { RfidApi, Reader } from '../../../../services/rfid-api';
+import {
+  STERILIZATION_STAGES,
+  SterilizationStore,
+  StageStation,
+  stageLabel,
+} from '../../../../services/sterilization-store';
+
+type StationForm = Omit<StageStation, 'id'>;
+
+const EMPTY_STATION: StationForm = {
+  readerId: '',
+  antennaPort: null,
+  stage: 'SUCIA',
+  operator: '',
+  autoclaveCycle: '',
+};
+
+/** Estaciones del reprocesamiento: qué lector o antena registra cada etapa del ciclo. */
+@Component({
+  selector: 'app-sterilization-stations',
+  imports: [FormsModule],
+  templateUrl: './sterilization-stations.html',
+  styleUrl: './sterilization-stations.css',
+})
+export class SterilizationStations implements OnInit, OnDestroy {
+  stations: StageStation[] = [];
+  readers: Reader[] = [];
+  readonly stages = STERILIZATION_STAGES;
+  readonly stageLabel = stageLabel;
+
+  showForm = false;
+  editingId: string | null = null;
+  form: StationForm = { ...EMPTY_STATION };
+  formError = '';
+
+  private subs = new Subscription();
+  private api: RfidApi;
+
+  constructor(
+    private sterilization: SterilizationStore,
+    private cdr: ChangeDetectorRef,
+    injector: EnvironmentInjector
+  ) {
+    /* Las estaciones se escuchan en el stream global: lectores del gateway global, no del pin. */
+    this.api = injector.get(RfidApi);
+  }
+
+  ngOnInit(): void {
+    this.subs.add(
+      this.sterilization.stations$.subscribe((list) => {
+        this.stations = list;
+        this.cdr.markForCheck();
+      })
+    );
+    if (this.api.getBaseUrl()) {
+      this.api.getReaders().subscribe({
+        next: (list) => {
+          this.readers = list;
+          this.cdr.markForCheck();
+        },
+        error: () => (this.readers = []),
+      });
+    }
+  }
+
+  ngOnDestroy(): void {
+    this.subs.unsubscribe();
+  }
+
+  openNew(): void {
+    this.editingId = null;
+    this.form = { ...EMPTY_STATION };
+    this.formError = '';
+    this.showForm = true;
+  }
+
+  edit(s: StageStation): void {
+    const { id, ...form } = s;
+    this.editingId = id;
+    this.form = form;
+    this.formError = '';
+    this.showForm = true;
+  }
+
+  closeForm(): void {
+    this.showForm = false;
+    this.editingId = null;
+  }
+
+  save(): void {
+    const port = this.form.antennaPort as number | string | null;
+    const station: StationForm = {
+      ...this.form,
+      antennaPort: port === null || port === '' ? null : Number(port),
+    };
+    this.formError = this.sterilization.validateStation(station, this.editingId ?? undefined);
+    if (this.formError) return;
+    this.sterilization.saveStation(station, this.editingId ?? undefined);
+    this.closeForm();
+  }
+
+  remove(s: StageStation): void {
+    if (!confirm(`¿Quitar la estación ${stageLabel(s.stage)} (${s.readerId})?`)) return;
+    this.sterilization.removeStation(s.id);
+  }
+
+  readerName(id: string): string {
+    return this.readers.find((r) => r.id === id)?.name || id;
+  }
+}
@@ -0,0 +1,158 @@
+import { ChangeDetectorRef, Component, ElementRef, OnDestroy, OnInit, output } from '@angular/core';
+import { DatePipe } from '@angular/common';
+import { Subscription } from 'rxjs';
+import { maletaLabel, MaletaStore } from '../../../../services/maleta-store';
+import {
+  OpenTunnelPass,
+  passResultLabel,
+  TunnelPass,
+  TunnelPassResult,
+  TunnelPassStore,
+} from '../../../../services/tunnel-pass-store';
+import { TunnelSounds } from '../../../../services/tunnel-sounds';
+
+/** Teclas que confirman el resultado; los pedales USB suelen enviar Enter, espacio o AvPág. */
+const ACK_KEYS = [' ', 'Enter', 'PageDown', 'F13'];
+
+/** Cada cuánto se repite la alarma de un resultado no confirmado. */
+const ALARM_REPEAT_MS = 5000;
+
+/** Color del semáforo grande por resultado (mismos colores que la lista de maletas). */
+const RESULT_STATUS: Record<TunnelPassResult, string> = {
+  complete: 'green',
+  missing: 'blue',
+  extra: 'yellow',
+  expired: 'red',
+  'not-sterile': 'purple',
+};
+
+/**
+ * Quiosco del túnel a pantalla completa: un semáforo grande por pasada y un sonido por
+ * resultado. Cada pasada nueva se anuncia aunque el resultado sea igual al anterior; las
+ * alarmas (todo lo que no es completa) se repiten hasta confirmarlas con tecla o pedal.
+ */
+@Component({
+  selector: 'app-tunnel-kiosk',
+  imports: [DatePipe],
+  templateUrl: './tunnel-kiosk.html',
+  styleUrl: './tunnel-kiosk.css',
+  host: {
+    '(document:keydown)': 'onKey($event)',
+    '(document:fullscreenchange)': 'onFullscreenChange()',
+  },
+})
+export class TunnelKiosk implements OnInit, OnDestroy {
+  readonly closed = output<void>();
+
+  current: OpenTunnelPass | null = null;
+  /** Resultado en pantalla. */
+  shown: TunnelPass | null = null;
+  acknowledged = true;
+
+  private lastSeenId: string | undefined;
+  private alarmTimer: ReturnType<typeof setInterval> | null = null;
+  private wasFullscreen = false;
+  private subs = new Subscription();
+
+  constructor(
+    private passes: TunnelPassStore,
+    private maletas: MaletaStore,
+    private sounds: TunnelSounds,
+    private host: ElementRef<HTMLElement>,
+    private cdr: ChangeDetectorRef
+  ) {}
+
+  ngOnInit(): void {
+    /* Solo se anuncian las pasadas que terminen con el quiosco abierto. */
+    this.lastSeenId = this.passes.passes[0]?.id;
+    this.subs.add(
+      this.passes.passes$.subscribe((list) => {
+        const latest = list[0];
+        if (latest && latest.id !== this.lastSeenId) {
+          this.lastSeenId = latest.id;
+          this.showResult(latest);
+        }
+        this.cdr.markForCheck();
+      })
+    );
+    this.subs.add(
+      this.passes.current$.subscribe((pass) => {
+        this.current = pass;
+        this.cdr.markForCheck();
+      })
+    );
+    this.host.nativeElement.requestFullscreen?.().catch(() => {});
+  }
+
+  ngOnDestroy(): void {
+    this.stopAlarm();
+    this.subs.unsubscribe();
+    if (document.fullscreenElement === this.host.nativeElement) {
+      document.exitFullscreen().catch(() => {});
+    }
+  }
+
+  /** El resultado sin confirmar manda; confirmado, se muestra hasta que empieza otra pasada. */
+  get showingResult(): boolean {
+    return !!this.shown && (!this.acknowledged || !this.current);
+  }
+
+  get lightStatus(): string {
+    if (this.shown && this.showingResult) return RESULT_STATUS[this.shown.result];
+    return this.current ? 'reading' : 'idle';
+  }
+
+  get headline(): string {
+    if (this.shown && this.showingResult) return passResultLabel(this.shown.result);
+    return this.current ? 'Leyendo…' : 'Esperando maleta';
+  }
+
+  label(maletaId: string, masterRfid: string): string {
+    const m = this.maletas.get(maletaId);
+    return m ? maletaLabel(m) : masterRfid;
+  }
+
+  onKey(event: KeyboardEvent): void {
+    if (event.key === 'Escape') {
+      this.exit();
+    } else if (ACK_KEYS.includes(event.key)) {
+      event.preventDefault();
+      this.acknowledge();
+    }
+  }
+
+  onFullscreenChange(): void {
+    const active = document.fullscreenElement === this.host.nativeElement;
+    /* Salir de pantalla completa con Esc (el navegador no entrega la tecla) cierra el quiosco. */
+    if (this.wasFullscreen && !active) this.exit();
+    this.wasFullscreen = active;
+  }
+
+  acknowledge(): void {
+    if (!this.shown || this.acknowledged) return;
+    this.acknowledged = true;
+    this.passes.acknowledge(this.shown.id);
+    this.stopAlarm();
+    this.cdr.markForCheck();
+  }
+
+  exit(): void {
+    this.stopAlarm();
+    this.closed.emit();
+  }
+
+  private showResult(pass: TunnelPass): void {
+    this.stopAlarm();
+    this.shown = pass;
+    this.acknowledged = pass.result === 'complete';
+    this.sounds.play(pass.result);
+    if (!this.acknowledged) {
+      this.alarmTimer = setInterval(() => this.sounds.play(pass.result), ALARM_REPEAT_MS);
+    }
+  }
+
+  private stopAlarm(): void {
+    if (this.alarmTimer) clearInterval(this.alarmTimer);
+    this.alarmTimer = null;
+  }
+}
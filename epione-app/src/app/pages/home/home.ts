@@ -1,11 +1,256 @@
-import { Component } from '@angular/core';
+import { ChangeDetectorRef, Component, OnDestroy, OnInit } from '@angular/core';
+import { DecimalPipe } from '@angular/common';
+import { RouterLink } from '@angular/router';
+import { forkJoin, Observable, of, Subscription } from 'rxjs';
+import { catchError, skip } from 'rxjs/operators';
+import { RfidApi, Reader, Antenna, ReaderStatus, antennaPort } from '../../services/rfid-api';
+import { GatewayProfileStore } from '../../services/gateway-profile-store';
+import { AuthStore } from '../../services/auth-store';
+import {
+  RfidRealtime,
+  RealtimeConnectionState,
+  RealtimeHandle,
+  realtimeStateLabel,
+} from '../../services/rfid-realtime';
+import { ReadSessionStore } from '../../services/read-session-store';
+import { TagReadEvent } from '../../services/tag-read-event';
+
+/** Lectura reciente de un lector (ventana deslizante de un minuto). */
+interface RecentRead {
+  at: number;
+  epc: string;
+  antennaPort: number | null;
+}
+
+type AntennaHealth = 'ok' | 'idle' | 'off';
+
+interface ReaderCard {
+  reader: Reader;
+  status: ReaderStatus | null;
+  antennas: Antenna[];
+  recent: RecentRead[];
+  busy: boolean;
+}
+
+/** Ventanas de cálculo de métricas (ms). */
+const RATE_WINDOW_MS = 5000;
+const UNIQUE_WINDOW_MS = 60000;
+const STATUS_POLL_MS = 5000;
+const TICK_MS = 1000;
 
 @Component({
   selector: 'app-home',
-  imports: [],
+  imports: [DecimalPipe, RouterLink],
   templateUrl: './home.html',
   styleUrl: './home.css',
 })
-export class Home {
+export class Home implements OnInit, OnDestroy {
+  cards: ReaderCard[] = [];
+  loading = false;
+  /** La última carga falló; el detalle ya lo avisó el centro de notificaciones. */
+  loadFailed = false;
+  realtimeState: RealtimeConnectionState = 'closed';
+  /** Lecturas que no se pudieron atribuir a ningún lector en el último minuto. */
+  unassignedReads = 0;
+
+  private statusPolling: ReturnType<typeof setInterval> | null = null;
+  private tick: ReturnType<typeof setInterval> | null = null;
+  private subs = new Subscription();
+  /** Handle del stream mientras algún lector está leyendo. */
+  private realtimeHandle: RealtimeHandle | null = null;
+
+  constructor(
+    public api: RfidApi,
+    private realtime: RfidRealtime,
+    private sessions: ReadSessionStore,
+    private gateways: GatewayProfileStore,
+    public auth: AuthStore,
+    private cdr: ChangeDetectorRef
+  ) {}
+
+  ngOnInit(): void {
+    this.subs.add(
+      this.realtime.state$.subscribe((state) => {
+        this.realtimeState = state;
+        this.cdr.markForCheck();
+      })
+    );
+    /* Una sola suscripción al stream para todos los lectores; se reparte por readerId. */
+    this.subs.add(this.realtime.tagReads$.subscribe((read) => this.onRead(read)));
+    /* Cambio de gateway global desde la barra superior: las tarjetas son de otro gateway. */
+    this.subs.add(
+      this.gateways.active$.pipe(skip(1)).subscribe(() => {
+        this.cards = [];
+        this.load();
+      })
+    );
+    this.load();
+    this.tick = setInterval(() => {
+      this.pruneRecent();
+      this.cdr.markForCheck();
+    }, TICK_MS);
+  }
+
+  ngOnDestroy(): void {
+    this.subs.unsubscribe();
+    this.stopStatusPolling();
+    this.realtimeHandle?.release();
+    if (this.tick) {
+      clearInterval(this.tick);
+      this.tick = null;
+    }
+  }
+
+  get realtimeStateLabel(): string {
+    return realtimeStateLabel(this.realtimeState);
+  }
+
+  load(): void {
+    if (!this.api.getBaseUrl()) return;
+    this.loading = true;
+    this.loadFailed = false;
+    forkJoin({
+      readers: this.api.getReaders(),
+      antennas: this.api.getAntennas().pipe(catchError(() => of([] as Antenna[]))),
+    }).subscribe({
+      next: ({ readers, antennas }) => {
+        this.cards = readers.map((reader) => ({
+          reader,
+          status: null,
+          antennas: antennas.filter((a) => a.readerId === reader.id || a.id?.startsWith(reader.id)),
+          recent: this.cards.find((c) => c.reader.id === reader.id)?.recent ?? [],
+          busy: false,
+        }));
+        this.loading = false;
+        this.refreshStatuses();
+        this.startStatusPolling();
+        this.cdr.markForCheck();
+      },
+      error: () => {
+        this.loadFailed = true;
+        this.loading = false;
+        this.cdr.markForCheck();
+      },
+    });
+  }
+
+  refreshStatuses(): void {
+    if (this.cards.length === 0) return;
+    forkJoin(
+      this.cards.map((c) =>
+        this.api.getReaderStatus(c.reader.id).pipe(catchError(() => of(null)))
+      )
+    ).subscribe((statuses) => {
+      statuses.forEach((s, i) => {
+        if (this.cards[i]) this.cards[i].status = s;
+      });
+      this.holdStream(this.cards.some((c) => c.status?.reading));
+      this.cdr.markForCheck();
+    });
+  }
+
+  /** Toma o suelta el stream compartido según haya lectores leyendo. */
+  private holdStream(reading: boolean): void {
+    if (reading && !this.realtimeHandle) {
+      this.realtimeHandle = this.realtime.acquire();
+    } else if (!reading && this.realtimeHandle) {
+      this.realtimeHandle.release();
+      this.realtimeHandle = null;
+    }
+  }
+
+  private startStatusPolling(): void {
+    this.stopStatusPolling();
+    this.statusPolling = setInterval(() => this.refreshStatuses(), STATUS_POLL_MS);
+  }
+
+  private stopStatusPolling(): void {
+    if (this.statusPolling) {
+      clearInterval(this.statusPolling);
+      this.statusPolling = null;
+    }
+  }
+
+  /** Atribuye la lectura a su lector; sin readerId solo se asigna si hay un único lector. */
+  private onRead(read: TagReadEvent): void {
+    const card = read.readerId
+      ? this.cards.find((c) => c.reader.id === read.readerId)
+      : this.cards.length === 1
+        ? this.cards[0]
+        : undefined;
+    if (!card) {
+      this.unassignedReads++;
+      return;
+    }
+    card.recent.push({ at: Date.now(), epc: read.epc, antennaPort: read.antennaPort });
+  }
+
+  private pruneRecent(): void {
+    const cutoff = Date.now() - UNIQUE_WINDOW_MS;
+    for (const c of this.cards) {
+      const idx = c.recent.findIndex((r) => r.at >= cutoff);
+      if (idx > 0) c.recent.splice(0, idx);
+      else if (idx === -1) c.recent.length = 0;
+    }
+  }
+
+  readsPerSecond(c: ReaderCard): number {
+    const cutoff = Date.now() - RATE_WINDOW_MS;
+    return c.recent.filter((r) => r.at >= cutoff).length / (RATE_WINDOW_MS / 1000);
+  }
+
+  uniqueTagsLastMinute(c: ReaderCard): number {
+    return new Set(c.recent.map((r) => r.epc)).size;
+  }
+
+  /** Salud de la antena: deshabilitada, sin lecturas en el último minuto o leyendo. */
+  antennaHealth(c: ReaderCard, a: Antenna): AntennaHealth {
+    if (a.enabled === false) return 'off';
+    const port = antennaPort(a);
+    return c.recent.some((r) => r.antennaPort === port) ? 'ok' : 'idle';
+  }
+
+  antennaHealthTitle(health: AntennaHealth): string {
+    switch (health) {
+      case 'ok': return 'Leyendo';
+      case 'idle': return 'Sin lecturas en el último minuto';
+      case 'off': return 'Deshabilitada';
+    }
+  }
+
+  startReader(c: ReaderCard): void {
+    this.runAction(c, this.api.startReader(c.reader.id), () => {
+      this.sessions.start('home', c.reader.id, c.reader.name);
+      this.holdStream(true);
+    });
+  }
+
+  stopReader(c: ReaderCard): void {
+    this.runAction(c, this.api.stopReader(c.reader.id), () => this.sessions.stop(c.reader.id));
+  }
+
+  resetReader(c: ReaderCard): void {
+    this.runAction(c, this.api.resetReader(c.reader.id));
+  }
+
+  rebootReader(c: ReaderCard): void {
+    this.runAction(c, this.api.rebootReader(c.reader.id));
+  }
 
+  private runAction(c: ReaderCard, action: Observable<unknown>, onSuccess?: () => void): void {
+    if (c.busy) return;
+    c.busy = true;
+    action.subscribe({
+      next: () => {
+        c.busy = false;
+        onSuccess?.();
+        this.refreshStatuses();
+      },
+      error: () => {
+        c.busy = false;
+        this.refreshStatuses();
+        this.cdr.markForCheck();
+      },
+    });
+  }
 }
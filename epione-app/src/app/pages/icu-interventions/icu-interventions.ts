@@ -1,33 +1,62 @@
-import { Component, OnInit } from '@angular/core';
+import { ChangeDetectorRef, Component, OnDestroy, OnInit } from '@angular/core';
 import { FormsModule } from '@angular/forms';
-import { NgFor, NgIf } from '@angular/common';
-
-interface Surgery {
-  id: number;
-  paciente: string;
-  procedimiento: string;
-  estado: string;
-  fecha: string;
-}
+import { DatePipe, NgFor, NgIf } from '@angular/common';
+import { Observable, Subscription } from 'rxjs';
+import { Surgery, SurgeryStatus } from '../../services/rfid-api';
+import { canTransition, SurgeryInput, SurgeryStore } from '../../services/surgery-store';
+import { MaletaItem, MaletaStore } from '../../services/maleta-store';
+import { errorMessage, GatewayError } from '../../services/gateway-error';
+
+const EMPTY_FORM: SurgeryInput = {
+  paciente: '',
+  procedimiento: '',
+  fecha: '',
+  quirofano: '',
+  notas: '',
+  maletaIds: [],
+};
 
 @Component({
   selector: 'app-icu-interventions',
-  imports: [FormsModule, NgFor, NgIf],
+  imports: [DatePipe, FormsModule, NgFor, NgIf],
   templateUrl: './icu-interventions.html',
   styleUrl: './icu-interventions.css',
 })
-export class IcuInterventions implements OnInit {
+export class IcuInterventions implements OnInit, OnDestroy {
   estadoSeleccionado = 'PROGRAMADA';
   textoFiltro = '';
 
   cirugias: Surgery[] = [];
+  loading = false;
+  error = '';
+  /** Cirugía con una acción en curso (para deshabilitar sus botones). */
+  ocupadaId: Surgery['id'] | null = null;
+
+  /** Formulario de programar/editar; `editandoId` null = cirugía nueva. */
+  mostrarFormulario = false;
+  editandoId: Surgery['id'] | null = null;
+  form: SurgeryInput = { ...EMPTY_FORM };
+  formError = '';
+  guardando = false;
+
+  /** Maletas disponibles para asignar y cirugía con el detalle de verificación abierto. */
+  maletas: MaletaItem[] = [];
+  detalleId: Surgery['id'] | null = null;
+
+  private subs = new Subscription();
+
+  constructor(
+    public store: SurgeryStore,
+    private maletaStore: MaletaStore,
+    private cdr: ChangeDetectorRef
+  ) {}
 
   itemsPerPageOptions = [5, 10, 20];
   itemsPerPage = 5;
   currentPage = 1;
 
   get cirugiasFiltradas(): Surgery[] {
-    let data = this.cirugias;
+    let data = [...this.cirugias].sort((a, b) => a.fecha.localeCompare(b.fecha));
 
     if (this.estadoSeleccionado) {
       data = data.filter(c => c.estado === this.estadoSeleccionado);
@@ -58,7 +87,173 @@ export class IcuInterventions implements OnInit {
     return this.cirugiasFiltradas.slice(start, end);
   }
 
-  ngOnInit(): void {}
+  ngOnInit(): void {
+    this.subs.add(
+      this.store.surgeries$.subscribe(list => {
+        this.cirugias = list;
+        if (this.currentPage > this.totalPages) this.currentPage = this.totalPages;
+        this.cdr.markForCheck();
+      })
+    );
+    this.subs.add(
+      this.maletaStore.maletas$.subscribe(list => {
+        this.maletas = list;
+        this.cdr.markForCheck();
+      })
+    );
+    this.cargar();
+  }
+
+  ngOnDestroy(): void {
+    this.subs.unsubscribe();
+  }
+
+  cargar() {
+    this.loading = true;
+    this.error = '';
+    this.store.load().subscribe({
+      next: () => {
+        this.loading = false;
+        this.cdr.markForCheck();
+      },
+    });
+  }
+
+  onFiltroChange() {
+    this.currentPage = 1;
+  }
+
+  nuevaCirugia() {
+    this.editandoId = null;
+    this.form = { ...EMPTY_FORM, maletaIds: [] };
+    this.formError = '';
+    this.mostrarFormulario = true;
+  }
+
+  editarCirugia(c: Surgery) {
+    this.editandoId = c.id;
+    this.form = {
+      paciente: c.paciente,
+      procedimiento: c.procedimiento,
+      fecha: c.fecha,
+      quirofano: c.quirofano ?? '',
+      notas: c.notas ?? '',
+      maletaIds: [...(c.maletaIds ?? [])],
+    };
+    this.formError = '';
+    this.mostrarFormulario = true;
+  }
+
+  cerrarFormulario() {
+    this.mostrarFormulario = false;
+    this.editandoId = null;
+    this.formError = '';
+  }
+
+  guardarCirugia() {
+    this.formError = this.store.validate(this.form);
+    if (this.formError || this.guardando) return;
+    this.guardando = true;
+    const request =
+      this.editandoId === null
+        ? this.store.schedule(this.form)
+        : this.store.update(this.editandoId, this.form);
+    request.subscribe({
+      next: () => {
+        this.guardando = false;
+        this.cerrarFormulario();
+        this.cdr.markForCheck();
+      },
+      error: e => {
+        this.guardando = false;
+        this.formError = this.mensajeLocal(e);
+        this.cdr.markForCheck();
+      },
+    });
+  }
+
+  isMaletaEnFormulario(id: string): boolean {
+    return !!this.form.maletaIds?.includes(id);
+  }
+
+  toggleMaletaEnFormulario(id: string) {
+    const ids = this.form.maletaIds ?? [];
+    this.form.maletaIds = ids.includes(id) ? ids.filter(m => m !== id) : [...ids, id];
+  }
+
+  /** RFID maestro de la maleta, o aviso si ya no existe en la lista de maletas. */
+  maletaLabel(id: string): string {
+    return this.maletaStore.get(id)?.masterRfid ?? `${id} (eliminada)`;
+  }
+
+  toggleDetalle(c: Surgery) {
+    this.detalleId = this.detalleId === c.id ? null : c.id;
+  }
+
+  maletasVerificadas(c: Surgery): number {
+    return (c.maletaIds ?? []).length - this.store.pendingMaletaIds(c).length;
+  }
+
+  /** Motivo por el que no se puede iniciar, o '' si las maletas están verificadas. */
+  bloqueoInicio(c: Surgery): string {
+    const pendientes = this.store.pendingMaletaIds(c);
+    if (pendientes.length === 0) return '';
+    return `Falta verificar en el túnel: ${pendientes.map(id => this.maletaLabel(id)).join(', ')}`;
+  }
+
+  puedePasarA(c: Surgery, estado: SurgeryStatus): boolean {
+    return canTransition(c.estado, estado);
+  }
+
+  iniciar(c: Surgery) {
+    this.ejecutar(c, this.store.changeStatus(c.id, 'EN_PROCESO'));
+  }
+
+  finalizar(c: Surgery) {
+    this.ejecutar(c, this.store.changeStatus(c.id, 'FINALIZADA'));
+  }
+
+  cancelar(c: Surgery) {
+    if (!confirm(`¿Cancelar la cirugía de ${c.paciente}?`)) return;
+    this.ejecutar(c, this.store.cancel(c.id));
+  }
+
+  estadoLabel(estado: SurgeryStatus): string {
+    switch (estado) {
+      case 'PROGRAMADA': return 'Programada';
+      case 'EN_PROCESO': return 'En proceso';
+      case 'FINALIZADA': return 'Finalizada';
+      case 'CANCELADA': return 'Cancelada';
+    }
+  }
+
+  /** Fecha `YYYY-MM-DDTHH:mm` como `DD/MM/YYYY HH:mm`. */
+  formatFecha(fecha: string): string {
+    const m = /^(\d{4})-(\d{2})-(\d{2})T(\d{2}:\d{2})/.exec(fecha || '');
+    return m ? `${m[3]}/${m[2]}/${m[1]} ${m[4]}` : fecha;
+  }
+
+  private ejecutar(c: Surgery, action: Observable<Surgery>) {
+    if (this.ocupadaId !== null) return;
+    this.ocupadaId = c.id;
+    this.error = '';
+    action.subscribe({
+      next: () => {
+        this.ocupadaId = null;
+        this.cdr.markForCheck();
+      },
+      error: e => {
+        this.ocupadaId = null;
+        this.error = this.mensajeLocal(e);
+        this.cdr.markForCheck();
+      },
+    });
+  }
+
+  /** Solo validaciones de la página: los errores del gateway ya los muestra un toast. */
+  private mensajeLocal(e: unknown): string {
+    return e instanceof GatewayError ? '' : errorMessage(e);
+  }
 
   cambiarItemsPerPage(value: number) {
     this.itemsPerPage = value;
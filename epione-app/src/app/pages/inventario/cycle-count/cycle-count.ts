@@ -0,0 +1,98 @@
+import { ChangeDetectorRef, Component, OnDestroy, OnInit } from '@angular/core';
+import { DatePipe } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { RouterLink } from '@angular/router';
+import { Subscription } from 'rxjs';
+import { InventoryStore } from '../../../services/inventory-store';
+import {
+  ActiveCycleCount,
+  CycleCountRecord,
+  CycleCountStore,
+  CycleCountTotals,
+} from '../../../services/cycle-count-store';
+
+type ExpectedSource = 'location' | 'list';
+
+/** Conteo cíclico: el usuario define lo esperado, el túnel lee y se concilia en vivo. */
+@Component({
+  selector: 'app-cycle-count',
+  imports: [DatePipe, FormsModule, RouterLink],
+  templateUrl: './cycle-count.html',
+  styleUrl: './cycle-count.css',
+})
+export class CycleCount implements OnInit, OnDestroy {
+  active: ActiveCycleCount | null = null;
+  totals: CycleCountTotals | null = null;
+  diff: { found: string[]; missing: string[]; unexpected: string[] } | null = null;
+  lastClosed: CycleCountRecord | null = null;
+
+  source: ExpectedSource = 'location';
+  location = '';
+  listInput = '';
+  closeNote = '';
+
+  private subs = new Subscription();
+
+  constructor(
+    private counts: CycleCountStore,
+    private inventory: InventoryStore,
+    private cdr: ChangeDetectorRef
+  ) {}
+
+  ngOnInit(): void {
+    this.subs.add(
+      this.counts.active$.subscribe((active) => {
+        this.active = active;
+        this.totals = active ? this.counts.totals(active) : null;
+        this.diff = active ? this.counts.diff(active) : null;
+        this.cdr.markForCheck();
+      })
+    );
+  }
+
+  ngOnDestroy(): void {
+    this.subs.unsubscribe();
+  }
+
+  /** Ubicaciones distintas del catálogo. */
+  get locations(): string[] {
+    const set = new Set(this.inventory.assets.map((a) => a.location).filter((l) => l));
+    return Array.from(set).sort();
+  }
+
+  /** EPC esperados según la fuente elegida (activos dados de baja no se esperan). */
+  get expectedEpcs(): string[] {
+    if (this.source === 'location') {
+      return this.inventory.assets
+        .filter((a) => a.location === this.location && a.status !== 'BAJA')
+        .map((a) => a.epc);
+    }
+    return this.listInput
+      .split(/[\r\n,;]+/)
+      .map((s) => s.trim())
+      .filter((s) => s.length > 0);
+  }
+
+  describe(epc: string): string {
+    const a = this.inventory.get(epc);
+    return a ? `${a.sku} · ${a.description}` : '';
+  }
+
+  start(): void {
+    const expected = this.expectedEpcs;
+    if (expected.length === 0) return;
+    const scope = this.source === 'location' ? this.location : 'Lista manual';
+    this.lastClosed = null;
+    this.counts.start(scope, expected);
+  }
+
+  close(): void {
+    this.lastClosed = this.counts.close(this.closeNote);
+    this.closeNote = '';
+  }
+
+  cancel(): void {
+    if (!confirm('¿Descartar el conteo en curso? No se guardará.')) return;
+    this.counts.cancel();
+  }
+}
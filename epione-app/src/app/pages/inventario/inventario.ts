@@ -1,11 +1,236 @@
-import { Component } from '@angular/core';
+import { ChangeDetectorRef, Component, OnDestroy, OnInit } from '@angular/core';
+import { DatePipe } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { Subscription } from 'rxjs';
+import {
+  Asset,
+  AssetInput,
+  AssetStatus,
+  ASSET_CSV_COLUMNS,
+  ASSET_STATUSES,
+  CsvImportResult,
+  InventoryStore,
+} from '../../services/inventory-store';
+import { downloadText, toCsv } from '../../services/csv';
+import { CycleCount } from './cycle-count/cycle-count';
 
 @Component({
   selector: 'app-inventario',
-  imports: [],
+  imports: [DatePipe, FormsModule, CycleCount],
   templateUrl: './inventario.html',
   styleUrl: './inventario.css',
 })
-export class Inventario {
+export class Inventario implements OnInit, OnDestroy {
+  activos: Asset[] = [];
+  readonly estados = ASSET_STATUSES;
 
+  estadoSeleccionado: AssetStatus | '' = '';
+  textoFiltro = '';
+
+  itemsPerPageOptions = [10, 20, 50];
+  itemsPerPage = 10;
+  currentPage = 1;
+
+  /** Formulario de alta/edición; `editingEpc` es null al crear. */
+  showForm = false;
+  editingEpc: string | null = null;
+  form: AssetInput = this.emptyForm();
+  formError = '';
+
+  importResult: CsvImportResult | null = null;
+
+  private sub?: Subscription;
+
+  constructor(private store: InventoryStore, private cdr: ChangeDetectorRef) {}
+
+  ngOnInit(): void {
+    this.sub = this.store.assets$.subscribe((list) => {
+      this.activos = list;
+      if (this.currentPage > this.totalPages) this.currentPage = this.totalPages;
+      this.cdr.markForCheck();
+    });
+  }
+
+  ngOnDestroy(): void {
+    this.sub?.unsubscribe();
+  }
+
+  get activosFiltrados(): Asset[] {
+    let data = this.activos;
+
+    if (this.estadoSeleccionado) {
+      data = data.filter((a) => a.status === this.estadoSeleccionado);
+    }
+
+    if (this.textoFiltro.trim()) {
+      const term = this.textoFiltro.toLowerCase();
+      data = data.filter(
+        (a) =>
+          a.epc.toLowerCase().includes(term) ||
+          a.sku.toLowerCase().includes(term) ||
+          a.description.toLowerCase().includes(term) ||
+          a.lot.toLowerCase().includes(term) ||
+          a.location.toLowerCase().includes(term)
+      );
+    }
+
+    return data;
+  }
+
+  get totalItems(): number {
+    return this.activosFiltrados.length;
+  }
+
+  get totalPages(): number {
+    return Math.max(1, Math.ceil(this.totalItems / this.itemsPerPage));
+  }
+
+  get paginaActualActivos(): Asset[] {
+    const start = (this.currentPage - 1) * this.itemsPerPage;
+    const end = start + this.itemsPerPage;
+    return this.activosFiltrados.slice(start, end);
+  }
+
+  onFiltroChange(): void {
+    this.currentPage = 1;
+  }
+
+  cambiarItemsPerPage(value: number) {
+    this.itemsPerPage = Number(value);
+    this.currentPage = 1;
+  }
+
+  irPrimeraPagina() {
+    this.currentPage = 1;
+  }
+
+  irPaginaAnterior() {
+    if (this.currentPage > 1) {
+      this.currentPage--;
+    }
+  }
+
+  irPaginaSiguiente() {
+    if (this.currentPage < this.totalPages) {
+      this.currentPage++;
+    }
+  }
+
+  irUltimaPagina() {
+    this.currentPage = this.totalPages;
+  }
+
+  get paginatorInfo(): string {
+    if (this.totalItems === 0) return '0 of 0';
+    const start = (this.currentPage - 1) * this.itemsPerPage + 1;
+    const end = Math.min(this.currentPage * this.itemsPerPage, this.totalItems);
+    return `${start} - ${end} of ${this.totalItems}`;
+  }
+
+  /** True si la fecha de caducidad ya pasó. */
+  isExpired(a: Asset): boolean {
+    return !!a.expiryDate && a.expiryDate < new Date().toISOString().slice(0, 10);
+  }
+
+  private emptyForm(): AssetInput {
+    return {
+      epc: '',
+      sku: '',
+      description: '',
+      lot: '',
+      expiryDate: '',
+      location: '',
+      status: 'ACTIVO',
+    };
+  }
+
+  openCreate(): void {
+    this.editingEpc = null;
+    this.form = this.emptyForm();
+    this.formError = '';
+    this.showForm = true;
+  }
+
+  openEdit(a: Asset): void {
+    this.editingEpc = a.epc;
+    this.form = {
+      epc: a.epc,
+      sku: a.sku,
+      description: a.description,
+      lot: a.lot,
+      expiryDate: a.expiryDate,
+      location: a.location,
+      status: a.status,
+    };
+    this.formError = '';
+    this.showForm = true;
+  }
+
+  closeForm(): void {
+    this.showForm = false;
+  }
+
+  saveForm(): void {
+    this.formError = this.store.validate(this.form, this.editingEpc ?? undefined);
+    if (this.formError) return;
+    this.store.save(this.form, this.editingEpc ?? undefined);
+    this.showForm = false;
+  }
+
+  deleteAsset(a: Asset): void {
+    if (!confirm(`¿Eliminar el activo ${a.sku || a.epc}?`)) return;
+    this.store.remove(a.epc);
+  }
+
+  /** Llamado al elegir un archivo .csv para importar activos. */
+  onCsvSelected(event: Event): void {
+    const input = event.target as HTMLInputElement;
+    const file = input?.files?.[0];
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = () => {
+      this.importResult = this.store.importCsv((reader.result as string) || '');
+      this.currentPage = 1;
+      this.cdr.markForCheck();
+    };
+    reader.readAsText(file, 'UTF-8');
+    input.value = '';
+  }
+
+  /** Descarga una plantilla CSV con el encabezado esperado. */
+  downloadTemplate(): void {
+    const example = [
+      'E28011600000000000000001',
+      'SKU-001',
+      'Pinza Kelly',
+      'L2401',
+      '2027-01-31',
+      'Almacén 1',
+      'ACTIVO',
+    ];
+    downloadText(
+      toCsv([ASSET_CSV_COLUMNS, example]),
+      'inventario_plantilla.csv',
+      'text/csv;charset=utf-8'
+    );
+  }
+
+  exportCsv(): void {
+    const rows: unknown[][] = [
+      [...ASSET_CSV_COLUMNS, 'lastSeenAt', 'lastSeenReaderId', 'lastSeenAntenna'],
+    ];
+    for (const a of this.activosFiltrados) {
+      rows.push([
+        ...ASSET_CSV_COLUMNS.map((c) => a[c]),
+        a.lastSeenAt,
+        a.lastSeenReaderId,
+        a.lastSeenAntenna,
+      ]);
+    }
+    downloadText(
+      toCsv(rows),
+      `inventario_${new Date().toISOString().slice(0, 10)}.csv`,
+      'text/csv;charset=utf-8'
+    );
+  }
 }
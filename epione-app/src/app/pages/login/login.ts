@@ -0,0 +1,50 @@
+import { ChangeDetectorRef, Component } from '@angular/core';
+import { FormsModule } from '@angular/forms';
+import { ActivatedRoute, Router } from '@angular/router';
+import { LOCAL_USERS, UserRole } from '../../services/auth-provider';
+import { AuthStore, roleLabel } from '../../services/auth-store';
+import { errorMessage } from '../../services/gateway-error';
+
+@Component({
+  selector: 'app-login',
+  imports: [FormsModule],
+  templateUrl: './login.html',
+  styleUrl: './login.css',
+})
+export class Login {
+  username = '';
+  password = '';
+  submitting = false;
+  error = '';
+
+  readonly localUsers = LOCAL_USERS;
+
+  constructor(
+    public auth: AuthStore,
+    private router: Router,
+    private route: ActivatedRoute,
+    private cdr: ChangeDetectorRef
+  ) {}
+
+  roleLabel(role: UserRole): string {
+    return roleLabel(role);
+  }
+
+  submit(): void {
+    if (this.submitting || !this.username.trim() || !this.password) return;
+    this.submitting = true;
+    this.error = '';
+    this.auth.login(this.username, this.password).subscribe({
+      next: () => {
+        this.submitting = false;
+        const returnUrl = this.route.snapshot.queryParamMap.get('returnUrl') || '/';
+        this.router.navigateByUrl(returnUrl);
+      },
+      error: (e) => {
+        this.error = errorMessage(e);
+        this.submitting = false;
+        this.cdr.markForCheck();
+      },
+    });
+  }
+}
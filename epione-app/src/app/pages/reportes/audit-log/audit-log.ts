@@ -0,0 +1,226 @@
+import { ChangeDetectorRef, Component, OnDestroy, OnInit } from '@angular/core';
+import { DatePipe } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { Subscription } from 'rxjs';
+import {
+  AUDIT_ACTIONS,
+  AuditAction,
+  AuditEntry,
+  AuditExport,
+  AuditStore,
+  AuditVerification,
+  auditActionLabel,
+  verifyAuditChain,
+} from '../../../services/audit-store';
+import { roleLabel } from '../../../services/auth-store';
+import { downloadText, toCsv } from '../../../services/csv';
+
+/** Valor corto para la tabla; el detalle completo se ve al abrir el registro. */
+function shortValue(value: unknown): string {
+  if (value === undefined) return '';
+  const text = JSON.stringify(value);
+  return text.length > 80 ? `${text.slice(0, 77)}...` : text;
+}
+
+/** Bitácora de auditoría: filtros, detalle antes/después y exportación encadenada por hash. */
+@Component({
+  selector: 'app-audit-log',
+  imports: [DatePipe, FormsModule],
+  templateUrl: './audit-log.html',
+  styleUrl: './audit-log.css',
+})
+export class AuditLog implements OnInit, OnDestroy {
+  readonly actions = AUDIT_ACTIONS;
+
+  entries: AuditEntry[] = [];
+  verification: AuditVerification = { ok: true };
+  seleccionado: AuditEntry | null = null;
+  /** Resultado de verificar un archivo exportado ('' = sin verificar). */
+  archivoVerificado = '';
+  archivoValido = false;
+
+  /** Filtros: fechas YYYY-MM-DD (inclusive), acción y usuario ('' = todos), texto libre. */
+  fechaDesde = '';
+  fechaHasta = '';
+  accion: AuditAction | '' = '';
+  usuario = '';
+  texto = '';
+
+  private subs = new Subscription();
+
+  constructor(
+    private audit: AuditStore,
+    private cdr: ChangeDetectorRef
+  ) {}
+
+  ngOnInit(): void {
+    this.subs.add(
+      this.audit.entries$.subscribe((list) => {
+        this.entries = list;
+        this.verification = this.audit.verify();
+        this.cdr.markForCheck();
+      })
+    );
+  }
+
+  ngOnDestroy(): void {
+    this.subs.unsubscribe();
+  }
+
+  get usuarios(): string[] {
+    return Array.from(new Set(this.entries.map((e) => e.username).filter(Boolean))).sort();
+  }
+
+  get filtrados(): AuditEntry[] {
+    const text = this.texto.trim().toLowerCase();
+    return this.entries.filter((e) => {
+      const day = this.localDay(e.at);
+      if (this.fechaDesde && day < this.fechaDesde) return false;
+      if (this.fechaHasta && day > this.fechaHasta) return false;
+      if (this.accion && e.action !== this.accion) return false;
+      if (this.usuario && e.username !== this.usuario) return false;
+      if (text) {
+        const haystack = [e.target.id, e.target.label, e.gateway, e.error].join(' ').toLowerCase();
+        if (!haystack.includes(text)) return false;
+      }
+      return true;
+    });
+  }
+
+  get hayFiltros(): boolean {
+    return !!(this.fechaDesde || this.fechaHasta || this.accion || this.usuario || this.texto);
+  }
+
+  limpiarFiltros(): void {
+    this.fechaDesde = '';
+    this.fechaHasta = '';
+    this.accion = '';
+    this.usuario = '';
+    this.texto = '';
+  }
+
+  seleccionar(e: AuditEntry): void {
+    this.seleccionado = this.seleccionado?.seq === e.seq ? null : e;
+  }
+
+  actionLabel(action: AuditAction): string {
+    return auditActionLabel(action);
+  }
+
+  userLabel(e: AuditEntry): string {
+    if (!e.username) return 'Sin sesión';
+    return e.role ? `${e.username} (${roleLabel(e.role)})` : e.username;
+  }
+
+  targetLabel(e: AuditEntry): string {
+    return e.target.label || e.target.id;
+  }
+
+  changeLabel(e: AuditEntry): string {
+    const before = shortValue(e.before);
+    const after = shortValue(e.after);
+    if (before && after) return `${before} → ${after}`;
+    return before || after || '-';
+  }
+
+  json(value: unknown): string {
+    return value === undefined ? '-' : JSON.stringify(value, null, 2);
+  }
+
+  /** Bitácora completa con la cadena de hashes; se verifica con "Verificar archivo". */
+  exportarJson(): void {
+    downloadText(
+      JSON.stringify(this.audit.export(), null, 2),
+      `auditoria_${new Date().toISOString().slice(0, 10)}.json`,
+      'application/json'
+    );
+  }
+
+  /** Registros filtrados, con su hash para cotejarlos contra el JSON exportado. */
+  exportarCsv(): void {
+    const rows: unknown[][] = [
+      [
+        'seq',
+        'fecha',
+        'usuario',
+        'rol',
+        'accion',
+        'tipo',
+        'objetivo',
+        'gateway',
+        'antes',
+        'despues',
+        'resultado',
+        'hash',
+      ],
+    ];
+    for (const e of this.filtrados) {
+      rows.push([
+        e.seq,
+        e.at,
+        e.username,
+        e.role ?? '',
+        this.actionLabel(e.action),
+        e.target.type,
+        this.targetLabel(e),
+        e.gateway ?? '',
+        e.before === undefined ? '' : JSON.stringify(e.before),
+        e.after === undefined ? '' : JSON.stringify(e.after),
+        e.ok ? 'ok' : `error: ${e.error ?? ''}`,
+        e.hash,
+      ]);
+    }
+    downloadText(
+      toCsv(rows),
+      `auditoria_${new Date().toISOString().slice(0, 10)}.csv`,
+      'text/csv;charset=utf-8'
+    );
+  }
+
+  /** Llamado al elegir un JSON exportado para revisar su cadena de hashes. */
+  onArchivoSelected(event: Event): void {
+    const input = event.target as HTMLInputElement;
+    const file = input?.files?.[0];
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = () => {
+      this.verificarArchivo(file.name, (reader.result as string) || '');
+      this.cdr.markForCheck();
+    };
+    reader.readAsText(file, 'UTF-8');
+    input.value = '';
+  }
+
+  private verificarArchivo(name: string, text: string): void {
+    this.archivoValido = false;
+    let data: AuditExport;
+    try {
+      data = JSON.parse(text);
+    } catch {
+      this.archivoVerificado = `${name}: no es un JSON válido.`;
+      return;
+    }
+    const entries = Array.isArray(data?.entries) ? data.entries : null;
+    if (!entries) {
+      this.archivoVerificado = `${name}: no es una exportación de la bitácora.`;
+      return;
+    }
+    const result = verifyAuditChain(entries);
+    const head = entries[entries.length - 1]?.hash;
+    if (!result.ok) {
+      this.archivoVerificado = `${name}: cadena rota en el registro #${result.brokenAt}.`;
+    } else if (data.headHash && head && data.headHash !== head) {
+      this.archivoVerificado = `${name}: el hash final no coincide con el último registro.`;
+    } else {
+      this.archivoValido = true;
+      this.archivoVerificado = `${name}: ${entries.length} registros íntegros.`;
+    }
+  }
+
+  /** Día local YYYY-MM-DD de una fecha ISO (los filtros de fecha son en hora local). */
+  private localDay(iso: string): string {
+    const d = new Date(iso);
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+  }
+}
@@ -1,11 +1,280 @@
-import { Component } from '@angular/core';
+import { ChangeDetectorRef, Component, OnDestroy, OnInit } from '@angular/core';
+import { DatePipe, DecimalPipe } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { Subscription } from 'rxjs';
+import { CycleCountRecord, CycleCountStore } from '../../services/cycle-count-store';
+import {
+  ReadSession,
+  ReadSessionSource,
+  ReadSessionStore,
+} from '../../services/read-session-store';
+import { downloadText, toCsv } from '../../services/csv';
+import { AuditLog } from './audit-log/audit-log';
+
+const SOURCE_LABELS: Record<ReadSessionSource, string> = {
+  lectura: 'Lectura',
+  maleta: 'Maleta',
+  home: 'Inicio',
+};
+
+const SEMAPHORE_LABELS: Record<string, string> = {
+  red: 'Caducada',
+  purple: 'Sin esterilizar',
+  orange: 'Por caducar',
+  blue: 'Incompleta',
+  yellow: 'Etiquetas extra',
+  green: 'Completa',
+};
+
+function escapeHtml(v: unknown): string {
+  return String(v ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function formatDateTime(iso: string | null): string {
+  return iso ? new Date(iso).toLocaleString('es-MX') : '-';
+}
 
 @Component({
   selector: 'app-reportes',
-  imports: [],
+  imports: [DatePipe, DecimalPipe, FormsModule, AuditLog],
   templateUrl: './reportes.html',
   styleUrl: './reportes.css',
 })
-export class Reportes {
+export class Reportes implements OnInit, OnDestroy {
+  conteos: readonly CycleCountRecord[] = [];
+  conteoSeleccionado: CycleCountRecord | null = null;
+
+  sesiones: ReadSession[] = [];
+  sesionSeleccionada: ReadSession | null = null;
+  /** Filtros de sesiones: fechas YYYY-MM-DD (inclusive) y lector ('' = todos). */
+  fechaDesde = '';
+  fechaHasta = '';
+  lectorSeleccionado = '';
+
+  private subs = new Subscription();
+
+  constructor(
+    private counts: CycleCountStore,
+    private readSessions: ReadSessionStore,
+    private cdr: ChangeDetectorRef
+  ) {}
+
+  ngOnInit(): void {
+    this.subs.add(
+      this.counts.records$.subscribe((list) => {
+        this.conteos = list;
+        this.cdr.markForCheck();
+      })
+    );
+    this.subs.add(
+      this.readSessions.sessions$.subscribe((list) => {
+        this.sesiones = list;
+        if (this.sesionSeleccionada && !list.some((s) => s.id === this.sesionSeleccionada?.id)) {
+          this.sesionSeleccionada = null;
+        }
+        this.cdr.markForCheck();
+      })
+    );
+  }
+
+  ngOnDestroy(): void {
+    this.subs.unsubscribe();
+  }
+
+  seleccionarConteo(c: CycleCountRecord): void {
+    this.conteoSeleccionado = this.conteoSeleccionado?.id === c.id ? null : c;
+  }
+
+  seleccionarSesion(s: ReadSession): void {
+    this.sesionSeleccionada = this.sesionSeleccionada?.id === s.id ? null : s;
+  }
+
+  /** Lectores que aparecen en el historial, para el filtro. */
+  get lectores(): Array<{ id: string; name: string }> {
+    const map = new Map<string, string>();
+    for (const s of this.sesiones) if (!map.has(s.readerId)) map.set(s.readerId, s.readerName);
+    return Array.from(map, ([id, name]) => ({ id, name }));
+  }
+
+  get sesionesFiltradas(): ReadSession[] {
+    return this.sesiones.filter((s) => {
+      const day = this.localDay(s.startedAt);
+      if (this.fechaDesde && day < this.fechaDesde) return false;
+      if (this.fechaHasta && day > this.fechaHasta) return false;
+      if (this.lectorSeleccionado && s.readerId !== this.lectorSeleccionado) return false;
+      return true;
+    });
+  }
+
+  limpiarFiltros(): void {
+    this.fechaDesde = '';
+    this.fechaHasta = '';
+    this.lectorSeleccionado = '';
+  }
+
+  sourceLabel(s: ReadSession): string {
+    return SOURCE_LABELS[s.source] ?? s.source;
+  }
+
+  semaphoreLabel(status: string | undefined): string {
+    return status ? (SEMAPHORE_LABELS[status] ?? status) : '-';
+  }
+
+  /** Duración de la sesión en segundos. */
+  durationSeconds(s: ReadSession): number {
+    if (!s.stoppedAt) return 0;
+    return Math.max(0, (Date.parse(s.stoppedAt) - Date.parse(s.startedAt)) / 1000);
+  }
+
+  eliminarSesion(s: ReadSession): void {
+    if (!confirm(`¿Eliminar la sesión de ${s.readerName} del historial?`)) return;
+    this.readSessions.remove(s.id);
+  }
+
+  /** Una fila por sesión (las filtradas). */
+  exportSesionesCsv(): void {
+    const rows: unknown[][] = [
+      [
+        'id',
+        'origen',
+        'lector',
+        'inicio',
+        'fin',
+        'duracionSeg',
+        'antenas',
+        'lecturas',
+        'tagsUnicos',
+        'semaforoGeneral',
+        'maletasCompletas',
+        'maletasTotal',
+        'simulada',
+      ],
+    ];
+    for (const s of this.sesionesFiltradas) {
+      const outcomes = s.maletaOutcomes ?? [];
+      rows.push([
+        s.id,
+        this.sourceLabel(s),
+        s.readerName,
+        s.startedAt,
+        s.stoppedAt,
+        Math.round(this.durationSeconds(s)),
+        s.antennas.join(' '),
+        s.totalReads,
+        s.uniqueTags,
+        s.generalStatus ? this.semaphoreLabel(s.generalStatus) : '',
+        s.maletaOutcomes ? outcomes.filter((o) => o.status === 'green').length : '',
+        s.maletaOutcomes ? outcomes.length : '',
+        s.simulated ? 'si' : '',
+      ]);
+    }
+    downloadText(
+      toCsv(rows),
+      `sesiones_lectura_${new Date().toISOString().slice(0, 10)}.csv`,
+      'text/csv;charset=utf-8'
+    );
+  }
+
+  /** Detalle de una sesión: un renglón por etiqueta leída. */
+  exportSesionCsv(s: ReadSession): void {
+    const rows: unknown[][] = [['epc', 'lecturas', 'antenas', 'rssiPromedio', 'primera', 'ultima']];
+    for (const t of s.tags) {
+      rows.push([
+        t.epc,
+        t.count,
+        t.antennas.join(' '),
+        t.rssiAvg === null ? '' : t.rssiAvg.toFixed(1),
+        t.firstSeen,
+        t.lastSeen,
+      ]);
+    }
+    downloadText(toCsv(rows), `${s.id}.csv`, 'text/csv;charset=utf-8');
+  }
+
+  /** Abre el reporte de la sesión en una ventana nueva lista para imprimir o guardar como PDF. */
+  imprimirSesion(s: ReadSession): void {
+    const html = this.buildPrintableHtml(s);
+    const url = URL.createObjectURL(new Blob([html], { type: 'text/html;charset=utf-8' }));
+    // Si el navegador bloquea la ventana emergente, se descarga el HTML.
+    if (!window.open(url, '_blank')) downloadText(html, `${s.id}.html`, 'text/html;charset=utf-8');
+    setTimeout(() => URL.revokeObjectURL(url), 60_000);
+  }
+
+  private buildPrintableHtml(s: ReadSession): string {
+    const outcomes = s.maletaOutcomes ?? [];
+    const outcomeRows = outcomes
+      .map(
+        (o) =>
+          `<tr><td class="mono">${escapeHtml(o.masterRfid)}</td>` +
+          `<td>${escapeHtml(this.semaphoreLabel(o.status))}</td>` +
+          `<td>${o.productsRead}/${o.productsTotal}</td></tr>`
+      )
+      .join('');
+    const tagRows = [...s.tags]
+      .sort((a, b) => b.count - a.count)
+      .map(
+        (t) =>
+          `<tr><td class="mono">${escapeHtml(t.epc)}</td><td>${t.count}</td>` +
+          `<td>${escapeHtml(t.antennas.join(', ') || '-')}</td>` +
+          `<td>${t.rssiAvg === null ? '-' : t.rssiAvg.toFixed(1)}</td>` +
+          `<td>${escapeHtml(formatDateTime(t.firstSeen))}</td>` +
+          `<td>${escapeHtml(formatDateTime(t.lastSeen))}</td></tr>`
+      )
+      .join('');
+    return `<!doctype html>
+<html lang="es">
+<head>
+<meta charset="utf-8">
+<title>Sesión de lectura ${escapeHtml(s.readerName)}</title>
+<style>
+  body { font-family: 'Noto Sans', Roboto, Arial, sans-serif; color: #1f2933; margin: 24px; }
+  h1 { font-size: 20px; margin: 0 0 4px; }
+  h2 { font-size: 15px; margin: 24px 0 8px; }
+  .muted { color: #6b7280; font-size: 13px; }
+  dl { display: grid; grid-template-columns: max-content 1fr; gap: 4px 16px; font-size: 13px; }
+  dt { color: #6b7280; }
+  table { width: 100%; border-collapse: collapse; font-size: 12px; }
+  th, td { padding: 4px 8px; border-bottom: 1px solid #e5e7eb; text-align: left; }
+  th { color: #6b7280; font-weight: 500; }
+  .mono { font-family: ui-monospace, monospace; }
+  @media print { body { margin: 0; } tr { break-inside: avoid; } }
+</style>
+</head>
+<body onload="window.print()">
+<h1>Sesión de lectura – ${escapeHtml(s.readerName)}</h1>
+<p class="muted">Epione · generado ${escapeHtml(formatDateTime(new Date().toISOString()))}</p>
+<dl>
+  <dt>Origen</dt><dd>${escapeHtml(this.sourceLabel(s))}${s.simulated ? ' (lectura simulada)' : ''}</dd>
+  <dt>Inicio</dt><dd>${escapeHtml(formatDateTime(s.startedAt))}</dd>
+  <dt>Fin</dt><dd>${escapeHtml(formatDateTime(s.stoppedAt))}</dd>
+  <dt>Duración</dt><dd>${Math.round(this.durationSeconds(s))} s</dd>
+  <dt>Antenas</dt><dd>${escapeHtml(s.antennas.join(', ') || '-')}</dd>
+  <dt>Lecturas</dt><dd>${s.totalReads}</dd>
+  <dt>Tags únicos</dt><dd>${s.uniqueTags}</dd>
+  ${s.generalStatus ? `<dt>Semáforo general</dt><dd>${escapeHtml(this.semaphoreLabel(s.generalStatus))}</dd>` : ''}
+</dl>
+${
+  outcomes.length
+    ? `<h2>Maletas</h2><table><thead><tr><th>RFID maestro</th><th>Semáforo</th><th>Productos leídos</th></tr></thead><tbody>${outcomeRows}</tbody></table>`
+    : ''
+}
+<h2>Etiquetas (${s.tags.length})</h2>
+<table>
+<thead><tr><th>EPC</th><th>Lecturas</th><th>Antenas</th><th>RSSI prom.</th><th>Primera</th><th>Última</th></tr></thead>
+<tbody>${tagRows}</tbody>
+</table>
+</body>
+</html>`;
+  }
 
+  /** Día local YYYY-MM-DD de una fecha ISO (los filtros de fecha son en hora local). */
+  private localDay(iso: string): string {
+    const d = new Date(iso);
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+  }
 }
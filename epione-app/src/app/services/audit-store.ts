@@ -0,0 +1,208 @@
+import { Injectable } from '@angular/core';
+import { BehaviorSubject, Observable } from 'rxjs';
+import { AuthStore } from './auth-store';
+import type { UserRole } from './auth-provider';
+import { sha256 } from './sha256';
+
+export type AuditAction =
+  | 'reader-start'
+  | 'reader-stop'
+  | 'reader-reset'
+  | 'reader-reboot'
+  | 'antennas-reset'
+  | 'antenna-reset'
+  | 'antenna-update'
+  | 'maleta-create'
+  | 'maleta-update'
+  | 'maleta-delete'
+  | 'product-expired';
+
+export const AUDIT_ACTIONS: AuditAction[] = [
+  'reader-start',
+  'reader-stop',
+  'reader-reset',
+  'reader-reboot',
+  'antennas-reset',
+  'antenna-reset',
+  'antenna-update',
+  'maleta-create',
+  'maleta-update',
+  'maleta-delete',
+  'product-expired',
+];
+
+export function auditActionLabel(action: AuditAction): string {
+  switch (action) {
+    case 'reader-start': return 'Iniciar lectura';
+    case 'reader-stop': return 'Detener lectura';
+    case 'reader-reset': return 'Reset de lector';
+    case 'reader-reboot': return 'Reboot de lector';
+    case 'antennas-reset': return 'Reset de antenas del lector';
+    case 'antenna-reset': return 'Reset de antena';
+    case 'antenna-update': return 'Ajuste de antena';
+    case 'maleta-create': return 'Alta de maleta';
+    case 'maleta-update': return 'Edición de maleta';
+    case 'maleta-delete': return 'Baja de maleta';
+    case 'product-expired': return 'Marca de caducado';
+  }
+}
+
+export type AuditTargetType = 'reader' | 'antenna' | 'maleta';
+
+export interface AuditTarget {
+  type: AuditTargetType;
+  id: string;
+  label?: string;
+}
+
+/**
+ * Un registro de la bitácora. `hash` = SHA-256 de `prevHash` + el registro sin `hash`
+ * (JSON con llaves ordenadas): cambiar o quitar uno rompe la cadena desde ahí.
+ */
+export interface AuditEntry {
+  seq: number;
+  at: string;
+  /** Usuario de la sesión ('' si no había sesión). */
+  username: string;
+  role: UserRole | null;
+  action: AuditAction;
+  target: AuditTarget;
+  /** URL del gateway para acciones sobre lectores y antenas. */
+  gateway?: string;
+  before?: unknown;
+  after?: unknown;
+  ok: boolean;
+  error?: string;
+  prevHash: string;
+  hash: string;
+}
+
+export interface AuditRecordOptions {
+  gateway?: string;
+  before?: unknown;
+  after?: unknown;
+  /** Mensaje si la acción falló; el intento también queda registrado. */
+  error?: string;
+}
+
+/** Archivo exportado: la bitácora completa, del más antiguo al más reciente. */
+export interface AuditExport {
+  exportedAt: string;
+  algorithm: 'SHA-256';
+  entries: AuditEntry[];
+  /** Hash del último registro; basta con anotarlo aparte para detectar recortes al final. */
+  headHash: string;
+}
+
+export interface AuditVerification {
+  ok: boolean;
+  /** `seq` del primer registro que no cuadra. */
+  brokenAt?: number;
+}
+
+/** `prevHash` del primer registro. */
+export const AUDIT_GENESIS_HASH = '0'.repeat(64);
+
+const AUDIT_STORAGE_KEY = 'audit_log';
+const MAX_ENTRIES = 5000;
+
+/** JSON con las llaves de los objetos ordenadas, para que el hash no dependa del orden. */
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`).join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+export function auditEntryHash(entry: Omit<AuditEntry, 'hash'>): string {
+  return sha256(entry.prevHash + canonicalJson(entry));
+}
+
+/**
+ * Revisa la cadena (del más antiguo al más reciente). El primero puede no partir de
+ * AUDIT_GENESIS_HASH si la bitácora local ya se recortó.
+ */
+export function verifyAuditChain(entries: AuditEntry[]): AuditVerification {
+  for (let i = 0; i < entries.length; i++) {
+    const { hash, ...rest } = entries[i];
+    if (i > 0 && rest.prevHash !== entries[i - 1].hash) return { ok: false, brokenAt: rest.seq };
+    if (auditEntryHash(rest) !== hash) return { ok: false, brokenAt: rest.seq };
+  }
+  return { ok: true };
+}
+
+/**
+ * Bitácora de auditoría: quién hizo qué, cuándo, sobre qué lector o maleta, con valores antes
+ * y después. Se guarda en localStorage (los últimos MAX_ENTRIES) encadenada por hash.
+ */
+@Injectable({ providedIn: 'root' })
+export class AuditStore {
+  private readonly entriesSubject = new BehaviorSubject<AuditEntry[]>([]);
+
+  /** Registros, el más reciente primero. */
+  readonly entries$: Observable<AuditEntry[]> = this.entriesSubject.asObservable();
+
+  constructor(private auth: AuthStore) {
+    this.load();
+  }
+
+  get entries(): AuditEntry[] {
+    return this.entriesSubject.value;
+  }
+
+  record(action: AuditAction, target: AuditTarget, options: AuditRecordOptions = {}): AuditEntry {
+    const last = this.entries[0];
+    const user = this.auth.user;
+    const entry: Omit<AuditEntry, 'hash'> = {
+      seq: (last?.seq ?? 0) + 1,
+      at: new Date().toISOString(),
+      username: user?.username ?? '',
+      role: user?.role ?? null,
+      action,
+      target,
+      gateway: options.gateway,
+      before: options.before,
+      after: options.after,
+      ok: !options.error,
+      error: options.error,
+      prevHash: last?.hash ?? AUDIT_GENESIS_HASH,
+    };
+    const saved: AuditEntry = { ...entry, hash: auditEntryHash(entry) };
+    this.set([saved, ...this.entries].slice(0, MAX_ENTRIES));
+    return saved;
+  }
+
+  verify(): AuditVerification {
+    return verifyAuditChain([...this.entries].reverse());
+  }
+
+  export(): AuditExport {
+    const entries = [...this.entries].reverse();
+    return {
+      exportedAt: new Date().toISOString(),
+      algorithm: 'SHA-256',
+      entries,
+      headHash: entries[entries.length - 1]?.hash ?? AUDIT_GENESIS_HASH,
+    };
+  }
+
+  private set(list: AuditEntry[]): void {
+    this.entriesSubject.next(list);
+    try {
+      localStorage.setItem(AUDIT_STORAGE_KEY, JSON.stringify(list));
+    } catch {}
+  }
+
+  private load(): void {
+    try {
+      const raw = localStorage.getItem(AUDIT_STORAGE_KEY);
+      this.entriesSubject.next(raw ? JSON.parse(raw) : []);
+    } catch {
+      this.entriesSubject.next([]);
+    }
+  }
+}
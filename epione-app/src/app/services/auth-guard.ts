@@ -0,0 +1,18 @@
+import { inject } from '@angular/core';
+import { CanActivateFn, Router } from '@angular/router';
+import { AuthPermission, AuthStore } from './auth-store';
+
+/**
+ * Sin sesión manda a /login (y vuelve después a la ruta pedida). Si la ruta declara
+ * `data: { permission }` y el rol no lo tiene, manda al inicio.
+ */
+export const authGuard: CanActivateFn = (route, state) => {
+  const auth = inject(AuthStore);
+  const router = inject(Router);
+  if (!auth.loggedIn) {
+    return router.createUrlTree(['/login'], { queryParams: { returnUrl: state.url } });
+  }
+  const permission = route.data['permission'] as AuthPermission | undefined;
+  if (permission && !auth.can(permission)) return router.createUrlTree(['/']);
+  return true;
+};
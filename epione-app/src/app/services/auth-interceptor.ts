@@ -0,0 +1,38 @@
+import { inject } from '@angular/core';
+import { HttpErrorResponse, HttpInterceptorFn, HttpRequest } from '@angular/common/http';
+import { Router } from '@angular/router';
+import { throwError } from 'rxjs';
+import { catchError, switchMap } from 'rxjs/operators';
+import { AuthStore } from './auth-store';
+import { AUTH_PATH } from './auth-provider';
+
+function withToken(req: HttpRequest<unknown>, token: string): HttpRequest<unknown> {
+  return req.clone({ setHeaders: { Authorization: `Bearer ${token}` } });
+}
+
+/**
+ * Agrega el token de la sesión a cada petición. Ante un 401 renueva el token una vez y
+ * reintenta; si la renovación falla, cierra la sesión y manda a /login.
+ * Las peticiones que ya traen `Authorization` (token fijo del perfil de gateway) no se tocan.
+ */
+export const authInterceptor: HttpInterceptorFn = (req, next) => {
+  const auth = inject(AuthStore);
+  const router = inject(Router);
+  const token = auth.accessToken;
+  if (!token || req.url.includes(AUTH_PATH) || req.headers.has('Authorization')) {
+    return next(req);
+  }
+  return next(withToken(req, token)).pipe(
+    catchError((err) => {
+      if (!(err instanceof HttpErrorResponse) || err.status !== 401) return throwError(() => err);
+      return auth.refresh().pipe(
+        catchError(() => {
+          auth.logout();
+          router.navigate(['/login'], { queryParams: { returnUrl: router.url } });
+          return throwError(() => err);
+        }),
+        switchMap((fresh) => next(withToken(req, fresh)))
+      );
+    })
+  );
+};
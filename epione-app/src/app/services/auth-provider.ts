@@ -0,0 +1,84 @@
+import { Injectable } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import { Observable, of, throwError } from 'rxjs';
+import { GatewayProfileStore } from './gateway-profile-store';
+
+export type UserRole = 'operator' | 'supervisor' | 'admin';
+
+export interface AuthUser {
+  username: string;
+  name: string;
+  role: UserRole;
+}
+
+/** Respuesta de login y de refresh. `expiresIn` en segundos. */
+export interface AuthTokens {
+  accessToken: string;
+  refreshToken: string;
+  expiresIn: number;
+  user: AuthUser;
+}
+
+/** Quién valida usuario y contraseña: el gateway o los usuarios de prueba locales. */
+export interface AuthProvider {
+  login(username: string, password: string): Observable<AuthTokens>;
+  refresh(refreshToken: string): Observable<AuthTokens>;
+}
+
+/** Rutas de autenticación; el interceptor no les agrega token ni reintenta ante 401. */
+export const AUTH_PATH = '/api/auth/';
+
+/** `/api/auth/login` y `/api/auth/refresh` del gateway en uso. */
+@Injectable({ providedIn: 'root' })
+export class GatewayAuthProvider implements AuthProvider {
+  constructor(private http: HttpClient, private profiles: GatewayProfileStore) {}
+
+  login(username: string, password: string): Observable<AuthTokens> {
+    return this.http.post<AuthTokens>(this.url('login'), { username, password });
+  }
+
+  refresh(refreshToken: string): Observable<AuthTokens> {
+    return this.http.post<AuthTokens>(this.url('refresh'), { refreshToken });
+  }
+
+  private url(action: string): string {
+    return `${this.profiles.active?.url ?? ''}${AUTH_PATH}${action}`;
+  }
+}
+
+/** Usuarios de prueba (contraseña = usuario), para desarrollar sin servidor de autenticación. */
+export const LOCAL_USERS: AuthUser[] = [
+  { username: 'operador', name: 'Operador de prueba', role: 'operator' },
+  { username: 'supervisor', name: 'Supervisor de prueba', role: 'supervisor' },
+  { username: 'admin', name: 'Administrador de prueba', role: 'admin' },
+];
+
+const LOCAL_TOKEN_SECONDS = 15 * 60;
+
+/** Proveedor local: emite tokens `local.<usuario>.<fecha>` que ningún gateway valida. */
+@Injectable({ providedIn: 'root' })
+export class LocalAuthProvider implements AuthProvider {
+  login(username: string, password: string): Observable<AuthTokens> {
+    const user = LOCAL_USERS.find((u) => u.username === username.trim().toLowerCase());
+    if (!user || password !== user.username) {
+      return throwError(() => new Error('Usuario o contraseña incorrectos'));
+    }
+    return of(this.issue(user));
+  }
+
+  refresh(refreshToken: string): Observable<AuthTokens> {
+    const [, username] = refreshToken.split('.');
+    const user = LOCAL_USERS.find((u) => u.username === username);
+    return user ? of(this.issue(user)) : throwError(() => new Error('Sesión inválida'));
+  }
+
+  private issue(user: AuthUser): AuthTokens {
+    const stamp = Date.now();
+    return {
+      accessToken: `local.${user.username}.${stamp}`,
+      refreshToken: `refresh.${user.username}.${stamp}`,
+      expiresIn: LOCAL_TOKEN_SECONDS,
+      user,
+    };
+  }
+}
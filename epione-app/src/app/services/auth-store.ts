@@ -0,0 +1,131 @@
+import { Injectable } from '@angular/core';
+import { BehaviorSubject, Observable, throwError } from 'rxjs';
+import { finalize, map, shareReplay } from 'rxjs/operators';
+import { environment } from '../../environments/environment';
+import {
+  AuthProvider,
+  AuthTokens,
+  AuthUser,
+  GatewayAuthProvider,
+  LocalAuthProvider,
+  UserRole,
+} from './auth-provider';
+
+/** Acciones restringidas por rol. Iniciar y detener lecturas lo puede hacer cualquiera. */
+export type AuthPermission = 'reader-maintenance' | 'config';
+
+const ROLE_PERMISSIONS: Record<UserRole, AuthPermission[]> = {
+  operator: [],
+  supervisor: ['reader-maintenance'],
+  admin: ['reader-maintenance', 'config'],
+};
+
+export function roleLabel(role: UserRole): string {
+  switch (role) {
+    case 'operator': return 'Operador';
+    case 'supervisor': return 'Supervisor';
+    case 'admin': return 'Administrador';
+  }
+}
+
+export interface AuthSession {
+  user: AuthUser;
+  accessToken: string;
+  refreshToken: string;
+  /** Vencimiento del access token (ISO). */
+  expiresAt: string;
+}
+
+const SESSION_STORAGE_KEY = 'auth_session';
+
+/**
+ * Sesión del usuario y sus permisos. El proveedor (gateway o usuarios locales) sale de
+ * `environment.authProvider`. El interceptor HTTP usa `accessToken` y `refresh()`.
+ */
+@Injectable({ providedIn: 'root' })
+export class AuthStore {
+  private readonly sessionSubject = new BehaviorSubject<AuthSession | null>(null);
+  private readonly provider: AuthProvider;
+  /** Refresh en curso: varias peticiones con 401 esperan el mismo. */
+  private refreshing: Observable<string> | null = null;
+
+  readonly session$: Observable<AuthSession | null> = this.sessionSubject.asObservable();
+
+  constructor(gateway: GatewayAuthProvider, local: LocalAuthProvider) {
+    this.provider = environment.authProvider === 'local' ? local : gateway;
+    this.load();
+  }
+
+  get session(): AuthSession | null {
+    return this.sessionSubject.value;
+  }
+
+  get user(): AuthUser | null {
+    return this.session?.user ?? null;
+  }
+
+  get loggedIn(): boolean {
+    return !!this.session;
+  }
+
+  get accessToken(): string {
+    return this.session?.accessToken ?? '';
+  }
+
+  /** True con el proveedor de usuarios de prueba (la pantalla de login los muestra). */
+  get usesLocalProvider(): boolean {
+    return environment.authProvider === 'local';
+  }
+
+  can(permission: AuthPermission): boolean {
+    const role = this.user?.role;
+    return !!role && ROLE_PERMISSIONS[role].includes(permission);
+  }
+
+  login(username: string, password: string): Observable<AuthSession> {
+    return this.provider.login(username, password).pipe(map((tokens) => this.start(tokens)));
+  }
+
+  /** Pide un access token nuevo con el refresh token; devuelve el token. */
+  refresh(): Observable<string> {
+    if (this.refreshing) return this.refreshing;
+    const session = this.session;
+    if (!session) return throwError(() => new Error('Sin sesión'));
+    this.refreshing = this.provider.refresh(session.refreshToken).pipe(
+      map((tokens) => this.start(tokens).accessToken),
+      finalize(() => (this.refreshing = null)),
+      shareReplay(1)
+    );
+    return this.refreshing;
+  }
+
+  logout(): void {
+    this.sessionSubject.next(null);
+    try {
+      localStorage.removeItem(SESSION_STORAGE_KEY);
+    } catch {}
+  }
+
+  private start(tokens: AuthTokens): AuthSession {
+    const session: AuthSession = {
+      user: tokens.user,
+      accessToken: tokens.accessToken,
+      refreshToken: tokens.refreshToken,
+      expiresAt: new Date(Date.now() + tokens.expiresIn * 1000).toISOString(),
+    };
+    this.sessionSubject.next(session);
+    try {
+      localStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify(session));
+    } catch {}
+    return session;
+  }
+
+  private load(): void {
+    try {
+      const raw = localStorage.getItem(SESSION_STORAGE_KEY);
+      this.sessionSubject.next(raw ? JSON.parse(raw) : null);
+    } catch {
+      this.sessionSubject.next(null);
+    }
+  }
+}
@@ -0,0 +1,200 @@
+import { Injectable } from '@angular/core';
+import { BehaviorSubject, Observable } from 'rxjs';
+import { RealtimeHandle, RfidRealtime } from './rfid-realtime';
+import { TagReadEvent } from './tag-read-event';
+
+/** Conteo cerrado: registro inmutable que se consulta desde Reportes. */
+export interface CycleCountRecord {
+  readonly id: string;
+  /** Ubicación contada o descripción de la lista esperada. */
+  readonly scope: string;
+  readonly startedAt: string;
+  readonly closedAt: string;
+  readonly expectedEpcs: readonly string[];
+  readonly foundEpcs: readonly string[];
+  readonly missingEpcs: readonly string[];
+  readonly unexpectedEpcs: readonly string[];
+  readonly readerIds: readonly string[];
+  readonly note: string;
+}
+
+/** Conteo en curso: acumula los EPC leídos mientras está abierto. */
+export interface ActiveCycleCount {
+  id: string;
+  scope: string;
+  startedAt: string;
+  expectedEpcs: string[];
+  seenEpcs: string[];
+  readerIds: string[];
+}
+
+export interface CycleCountTotals {
+  expected: number;
+  found: number;
+  missing: number;
+  unexpected: number;
+}
+
+const ACTIVE_COUNT_KEY = 'cycle_count_active';
+const COUNT_RECORDS_KEY = 'cycle_count_records';
+
+/**
+ * Sesiones de conteo cíclico: compara lo que lee el túnel contra una lista esperada.
+ * Solo hay un conteo activo; al cerrarlo se guarda como registro inmutable.
+ * Mientras hay un conteo abierto el servicio mantiene el stream del túnel, aunque ninguna
+ * otra pantalla esté leyendo.
+ */
+@Injectable({ providedIn: 'root' })
+export class CycleCountStore {
+  private readonly activeSubject = new BehaviorSubject<ActiveCycleCount | null>(null);
+  private readonly recordsSubject = new BehaviorSubject<readonly CycleCountRecord[]>([]);
+  private seen = new Set<string>();
+  private stream: RealtimeHandle | null = null;
+
+  readonly active$: Observable<ActiveCycleCount | null> = this.activeSubject.asObservable();
+  readonly records$: Observable<readonly CycleCountRecord[]> = this.recordsSubject.asObservable();
+
+  constructor(private realtime: RfidRealtime) {
+    this.load();
+    realtime.tagReads$.subscribe((read) => this.onRead(read));
+    this.holdStream();
+  }
+
+  get active(): ActiveCycleCount | null {
+    return this.activeSubject.value;
+  }
+
+  get records(): readonly CycleCountRecord[] {
+    return this.recordsSubject.value;
+  }
+
+  start(scope: string, expectedEpcs: string[]): void {
+    if (this.active) return;
+    const expected = Array.from(new Set(expectedEpcs.map((e) => e.trim()).filter((e) => e)));
+    this.seen = new Set();
+    this.activeSubject.next({
+      id: `conteo_${Date.now()}`,
+      scope: scope.trim() || 'Lista manual',
+      startedAt: new Date().toISOString(),
+      expectedEpcs: expected,
+      seenEpcs: [],
+      readerIds: [],
+    });
+    this.saveActive();
+    this.holdStream();
+  }
+
+  /** Descarta el conteo en curso sin guardar registro. */
+  cancel(): void {
+    this.seen.clear();
+    this.activeSubject.next(null);
+    this.saveActive();
+    this.holdStream();
+  }
+
+  /** Cierra el conteo en curso y lo guarda como registro inmutable. */
+  close(note = ''): CycleCountRecord | null {
+    const active = this.active;
+    if (!active) return null;
+    const d = this.diff(active);
+    const record: CycleCountRecord = Object.freeze({
+      id: active.id,
+      scope: active.scope,
+      startedAt: active.startedAt,
+      closedAt: new Date().toISOString(),
+      expectedEpcs: Object.freeze([...active.expectedEpcs]),
+      foundEpcs: Object.freeze(d.found),
+      missingEpcs: Object.freeze(d.missing),
+      unexpectedEpcs: Object.freeze(d.unexpected),
+      readerIds: Object.freeze([...active.readerIds]),
+      note: note.trim(),
+    });
+    this.recordsSubject.next(Object.freeze([record, ...this.records]));
+    this.saveRecords();
+    this.cancel();
+    return record;
+  }
+
+  getRecord(id: string): CycleCountRecord | undefined {
+    return this.records.find((r) => r.id === id);
+  }
+
+  /** Encontrados, faltantes e inesperados del conteo en curso. */
+  diff(active: ActiveCycleCount): { found: string[]; missing: string[]; unexpected: string[] } {
+    const expected = new Set(active.expectedEpcs);
+    return {
+      found: active.expectedEpcs.filter((e) => this.seen.has(e)),
+      missing: active.expectedEpcs.filter((e) => !this.seen.has(e)),
+      unexpected: active.seenEpcs.filter((e) => !expected.has(e)),
+    };
+  }
+
+  totals(active: ActiveCycleCount): CycleCountTotals {
+    const d = this.diff(active);
+    return {
+      expected: active.expectedEpcs.length,
+      found: d.found.length,
+      missing: d.missing.length,
+      unexpected: d.unexpected.length,
+    };
+  }
+
+  private onRead(read: TagReadEvent): void {
+    const active = this.active;
+    if (!active) return;
+    let changed = false;
+    if (!this.seen.has(read.epc)) {
+      this.seen.add(read.epc);
+      active.seenEpcs.push(read.epc);
+      changed = true;
+    }
+    if (read.readerId && !active.readerIds.includes(read.readerId)) {
+      active.readerIds.push(read.readerId);
+      changed = true;
+    }
+    if (!changed) return;
+    this.activeSubject.next({ ...active });
+    this.saveActive();
+  }
+
+  /** Toma el stream al abrir un conteo y lo suelta al cerrarlo o cancelarlo. */
+  private holdStream(): void {
+    if (this.active && !this.stream) {
+      this.stream = this.realtime.acquire();
+    } else if (!this.active && this.stream) {
+      this.stream.release();
+      this.stream = null;
+    }
+  }
+
+  private load(): void {
+    try {
+      const raw = localStorage.getItem(ACTIVE_COUNT_KEY);
+      const active: ActiveCycleCount | null = raw ? JSON.parse(raw) : null;
+      this.seen = new Set(active?.seenEpcs ?? []);
+      this.activeSubject.next(active);
+    } catch {
+      this.activeSubject.next(null);
+    }
+    try {
+      const raw = localStorage.getItem(COUNT_RECORDS_KEY);
+      const records: CycleCountRecord[] = raw ? JSON.parse(raw) : [];
+      this.recordsSubject.next(Object.freeze(records.map((r) => Object.freeze(r))));
+    } catch {
+      this.recordsSubject.next([]);
+    }
+  }
+
+  private saveActive(): void {
+    try {
+      if (this.active) localStorage.setItem(ACTIVE_COUNT_KEY, JSON.stringify(this.active));
+      else localStorage.removeItem(ACTIVE_COUNT_KEY);
+    } catch {}
+  }
+
+  private saveRecords(): void {
+    try {
+      localStorage.setItem(COUNT_RECORDS_KEY, JSON.stringify(this.records));
+    } catch {}
+  }
+}
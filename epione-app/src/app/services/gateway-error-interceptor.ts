@@ -0,0 +1,59 @@
+import { inject } from '@angular/core';
+import { HttpContextToken, HttpErrorResponse, HttpInterceptorFn } from '@angular/common/http';
+import { throwError, timer } from 'rxjs';
+import { catchError, retry, timeout } from 'rxjs/operators';
+import { environment } from '../../environments/environment';
+import { AUTH_PATH } from './auth-provider';
+import { toGatewayError } from './gateway-error';
+import { NotificationStore } from './notification-store';
+
+export interface HttpRetryPolicy {
+  /** Reintentos después del primer intento (0 = ninguno). */
+  attempts: number;
+  /** Espera antes del primer reintento; se duplica en cada uno. */
+  delayMs: number;
+  /** Tiempo máximo de cada intento. */
+  timeoutMs: number;
+}
+
+/** Política de reintentos de la petición; por defecto la de `environment.httpRetry`. */
+export const HTTP_RETRY = new HttpContextToken<HttpRetryPolicy>(() => environment.httpRetry);
+
+/** True = el error no abre un toast (p. ej. el sondeo de estado, que ya lo muestra en pantalla). */
+export const SILENT_ERRORS = new HttpContextToken<boolean>(() => false);
+
+/** Métodos que se pueden repetir sin efectos: los POST de control del lector nunca se reintentan. */
+const RETRY_METHODS = ['GET', 'HEAD'];
+/** Respuestas del proxy (Nginx) que suelen ser pasajeras. */
+const RETRY_STATUSES = [502, 503, 504];
+
+function isTransient(err: unknown): boolean {
+  if (!(err instanceof HttpErrorResponse)) return true; // timeout
+  return err.status === 0 || RETRY_STATUSES.includes(err.status);
+}
+
+/**
+ * Manejo común de errores HTTP: timeout por intento, reintentos con backoff para GET ante
+ * fallas pasajeras, conversión a `GatewayError` y un toast en `NotificationStore`.
+ * Va antes de `authInterceptor`, así cada reintento lleva el token vigente y el 401 lo resuelve
+ * la sesión (no se avisa: ya se renovó el token o se volvió a /login).
+ */
+export const gatewayErrorInterceptor: HttpInterceptorFn = (req, next) => {
+  const notifications = inject(NotificationStore);
+  const policy = req.context.get(HTTP_RETRY);
+  const retryable = RETRY_METHODS.includes(req.method);
+  return next(req).pipe(
+    timeout(policy.timeoutMs),
+    retry({
+      count: retryable ? policy.attempts : 0,
+      delay: (err, n) =>
+        isTransient(err) ? timer(policy.delayMs * 2 ** (n - 1)) : throwError(() => err),
+    }),
+    catchError((err) => {
+      const error = toGatewayError(err, req);
+      const silent = req.context.get(SILENT_ERRORS) || req.url.includes(AUTH_PATH);
+      if (!silent && error.status !== 401) notifications.error(error);
+      return throwError(() => error);
+    })
+  );
+};
@@ -0,0 +1,81 @@
+import { HttpErrorResponse, HttpRequest } from '@angular/common/http';
+import { TimeoutError } from 'rxjs';
+
+/**
+ * - `network`: no hubo respuesta (gateway apagado, VPN caída, CORS).
+ * - `timeout`: el gateway no respondió a tiempo.
+ * - `client`: 4xx, la petición se rechazó.
+ * - `server`: 5xx, falla del gateway o del proxy.
+ * - `reader-fault`: el gateway respondió pero reporta una falla del lector.
+ */
+export type GatewayErrorKind = 'network' | 'timeout' | 'client' | 'server' | 'reader-fault';
+
+export function gatewayErrorKindLabel(kind: GatewayErrorKind): string {
+  switch (kind) {
+    case 'network': return 'Sin conexión con el gateway';
+    case 'timeout': return 'El gateway no respondió a tiempo';
+    case 'client': return 'Petición rechazada';
+    case 'server': return 'Error del gateway';
+    case 'reader-fault': return 'Falla del lector';
+  }
+}
+
+/**
+ * Cuerpo de error que manda el gateway. Una falla del lector trae `code` con prefijo `READER_`
+ * (p. ej. `READER_DISCONNECTED`) o `readerFault: true`, y el `readerId` afectado.
+ */
+interface GatewayErrorBody {
+  message?: string;
+  code?: string;
+  readerId?: string;
+  readerFault?: boolean;
+}
+
+/** Error de una petición al gateway, ya clasificado. Lo produce `gatewayErrorInterceptor`. */
+export class GatewayError extends Error {
+  constructor(
+    readonly kind: GatewayErrorKind,
+    message: string,
+    /** Código HTTP; 0 sin respuesta. */
+    readonly status: number,
+    readonly method: string,
+    readonly url: string,
+    /** Código de error del gateway, si lo manda. */
+    readonly code?: string,
+    readonly readerId?: string
+  ) {
+    super(message);
+    this.name = 'GatewayError';
+  }
+
+  get title(): string {
+    const label = gatewayErrorKindLabel(this.kind);
+    return this.status ? `${label} (${this.status})` : label;
+  }
+}
+
+/** Clasifica lo que devolvió HttpClient (o el timeout del interceptor). */
+export function toGatewayError(err: unknown, req: HttpRequest<unknown>): GatewayError {
+  if (err instanceof GatewayError) return err;
+  if (err instanceof TimeoutError) {
+    return new GatewayError('timeout', 'Tiempo de espera agotado', 0, req.method, req.url);
+  }
+  if (!(err instanceof HttpErrorResponse)) {
+    return new GatewayError('network', errorMessage(err), 0, req.method, req.url);
+  }
+  if (err.status === 0) {
+    return new GatewayError('network', 'No se pudo contactar al gateway', 0, req.method, req.url);
+  }
+  const body: GatewayErrorBody = err.error && typeof err.error === 'object' ? err.error : {};
+  const message =
+    body.message || (typeof err.error === 'string' && err.error) || err.statusText || 'Error';
+  let kind: GatewayErrorKind = err.status < 500 ? 'client' : 'server';
+  if (body.readerFault || body.code?.startsWith('READER_')) kind = 'reader-fault';
+  return new GatewayError(kind, message, err.status, req.method, req.url, body.code, body.readerId);
+}
+
+/** Texto para mostrar de cualquier error (GatewayError, HttpErrorResponse o Error). */
+export function errorMessage(e: unknown): string {
+  const err = e as { error?: { message?: string }; message?: string } | null;
+  return err?.error?.message || err?.message || 'Error';
+}
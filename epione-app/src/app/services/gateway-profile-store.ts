@@ -0,0 +1,233 @@
+import { Injectable, InjectionToken } from '@angular/core';
+import { BehaviorSubject, combineLatest, Observable } from 'rxjs';
+import { distinctUntilChanged, map } from 'rxjs/operators';
+import { environment } from '../../environments/environment';
+
+/** Cómo se autentica la webapp contra el gateway. */
+export type GatewayAuthMode = 'none' | 'bearer';
+
+/** Un gateway RFID con nombre: URL, autenticación y lector que se selecciona por defecto. */
+export interface GatewayProfile {
+  id: string;
+  label: string;
+  url: string;
+  authMode: GatewayAuthMode;
+  /** Token fijo del gateway cuando `authMode` es 'bearer'. */
+  token?: string;
+  defaultReaderId?: string;
+}
+
+export type GatewayProfileInput = Omit<GatewayProfile, 'id'>;
+
+/** Pantallas que pueden fijar un perfil distinto del global. */
+export type GatewayPage = 'lectura' | 'maleta';
+
+export const GATEWAY_PAGES: GatewayPage[] = ['lectura', 'maleta'];
+
+/** Perfil fijado por pantalla (id del perfil). */
+export type GatewayPins = Partial<Record<GatewayPage, string>>;
+
+/**
+ * Pantalla a la que pertenecen un `RfidApi` y un `RfidRealtime` propios (ver
+ * `provideGatewayPage`); siguen el perfil fijado en ella. Sin este token siguen el global.
+ */
+export const GATEWAY_PAGE = new InjectionToken<GatewayPage>('GATEWAY_PAGE');
+
+export function gatewayPageLabel(page: GatewayPage): string {
+  switch (page) {
+    case 'lectura': return 'Lectura';
+    case 'maleta': return 'Maleta';
+  }
+}
+
+export function gatewayAuthLabel(mode: GatewayAuthMode): string {
+  switch (mode) {
+    case 'none': return 'Sin autenticación';
+    case 'bearer': return 'Token (Bearer)';
+  }
+}
+
+/** Agrega `http://` si falta y quita la barra final. */
+export function normalizeGatewayUrl(url: string): string {
+  if (!url.trim()) return '';
+  const u = url.replace(/\/$/, '').trim();
+  if (u.startsWith('http://') || u.startsWith('https://')) return u;
+  return `http://${u}`;
+}
+
+/** Mensaje de validación del perfil, o '' si es válido. */
+export function gatewayProfileError(p: GatewayProfileInput): string {
+  if (!p.label.trim()) return 'El nombre es obligatorio';
+  if (!p.url.trim()) return 'La URL es obligatoria';
+  if (p.authMode === 'bearer' && !p.token?.trim()) return 'Falta el token';
+  return '';
+}
+
+const PROFILES_STORAGE_KEY = 'gateway_profiles';
+const ACTIVE_STORAGE_KEY = 'gateway_active_profile';
+const PINS_STORAGE_KEY = 'gateway_page_pins';
+/** URL única de versiones anteriores; se convierte en el primer perfil. */
+const LEGACY_BASE_URL_KEY = 'rfid_api_base_url';
+
+function sameProfile(a: GatewayProfile | null, b: GatewayProfile | null): boolean {
+  return (
+    a?.id === b?.id && a?.url === b?.url && a?.authMode === b?.authMode && a?.token === b?.token
+  );
+}
+
+/**
+ * Perfiles de gateway. Hay uno global (el del selector de la barra superior), que usan los
+ * servicios de raíz y con él las cachés y colas de sincronización; cada pantalla puede fijar
+ * otro que solo aplica a su propio `RfidApi` y `RfidRealtime`. Solo cambia por acción del usuario.
+ */
+@Injectable({ providedIn: 'root' })
+export class GatewayProfileStore {
+  private readonly profilesSubject = new BehaviorSubject<GatewayProfile[]>([]);
+  private readonly activeIdSubject = new BehaviorSubject<string>('');
+  private readonly pinsSubject = new BehaviorSubject<GatewayPins>({});
+  private readonly pageSubject = new BehaviorSubject<GatewayPage | null>(null);
+
+  readonly profiles$: Observable<GatewayProfile[]> = this.profilesSubject.asObservable();
+  readonly activeId$: Observable<string> = this.activeIdSubject.asObservable();
+  readonly pins$: Observable<GatewayPins> = this.pinsSubject.asObservable();
+  /** Perfil global; solo emite si cambia la URL o la autenticación. */
+  readonly active$: Observable<GatewayProfile | null>;
+
+  constructor() {
+    this.load();
+    this.active$ = this.profileFor$(null);
+  }
+
+  get profiles(): GatewayProfile[] {
+    return this.profilesSubject.value;
+  }
+
+  get activeId(): string {
+    return this.activeIdSubject.value;
+  }
+
+  get active(): GatewayProfile | null {
+    return this.get(this.activeId) ?? this.profiles[0] ?? null;
+  }
+
+  /** Pantalla abierta, si fija perfiles (para mostrar su pin en la barra superior). */
+  get page(): GatewayPage | null {
+    return this.pageSubject.value;
+  }
+
+  /** Perfil fijado en la pantalla o, si no hay (o sin pantalla), el global. */
+  profileFor(page: GatewayPage | null): GatewayProfile | null {
+    return (page ? this.pinFor(page) : undefined) ?? this.active;
+  }
+
+  /** `profileFor` en vivo; solo emite si cambia la URL o la autenticación. */
+  profileFor$(page: GatewayPage | null): Observable<GatewayProfile | null> {
+    return combineLatest([this.profilesSubject, this.activeIdSubject, this.pinsSubject]).pipe(
+      map(() => this.profileFor(page)),
+      distinctUntilChanged(sameProfile)
+    );
+  }
+
+  get(id: string): GatewayProfile | undefined {
+    return this.profiles.find((p) => p.id === id);
+  }
+
+  pinFor(page: GatewayPage): GatewayProfile | undefined {
+    const id = this.pinsSubject.value[page];
+    return id ? this.get(id) : undefined;
+  }
+
+  add(input: GatewayProfileInput): GatewayProfile {
+    const profile: GatewayProfile = {
+      ...input,
+      id: `gw_${Date.now()}`,
+      url: normalizeGatewayUrl(input.url),
+    };
+    this.setProfiles([...this.profiles, profile]);
+    if (!this.activeId) this.setActive(profile.id);
+    return profile;
+  }
+
+  update(id: string, input: GatewayProfileInput): void {
+    this.setProfiles(
+      this.profiles.map((p) =>
+        p.id === id ? { ...input, id, url: normalizeGatewayUrl(input.url) } : p
+      )
+    );
+  }
+
+  /** Quita el perfil y los pines que lo usan; si era el global pasa al primero que quede. */
+  remove(id: string): void {
+    const list = this.profiles.filter((p) => p.id !== id);
+    const pins = { ...this.pinsSubject.value };
+    for (const page of GATEWAY_PAGES) {
+      if (pins[page] === id) delete pins[page];
+    }
+    this.setPins(pins);
+    this.setProfiles(list);
+    if (this.activeId === id) this.setActive(list[0]?.id ?? '');
+  }
+
+  setActive(id: string): void {
+    this.activeIdSubject.next(id);
+    try {
+      localStorage.setItem(ACTIVE_STORAGE_KEY, id);
+    } catch {}
+  }
+
+  /** Fija un perfil en la pantalla; null vuelve a usar el global. */
+  pin(page: GatewayPage, id: string | null): void {
+    const pins = { ...this.pinsSubject.value };
+    if (id) pins[page] = id;
+    else delete pins[page];
+    this.setPins(pins);
+  }
+
+  /** Las pantallas con perfil propio avisan al abrirse y al cerrarse, para la barra superior. */
+  enterPage(page: GatewayPage): void {
+    this.pageSubject.next(page);
+  }
+
+  leavePage(page: GatewayPage): void {
+    if (this.page === page) this.pageSubject.next(null);
+  }
+
+  private setProfiles(list: GatewayProfile[]): void {
+    this.profilesSubject.next(list);
+    try {
+      localStorage.setItem(PROFILES_STORAGE_KEY, JSON.stringify(list));
+    } catch {}
+  }
+
+  private setPins(pins: GatewayPins): void {
+    this.pinsSubject.next(pins);
+    try {
+      localStorage.setItem(PINS_STORAGE_KEY, JSON.stringify(pins));
+    } catch {}
+  }
+
+  private load(): void {
+    try {
+      const raw = localStorage.getItem(PROFILES_STORAGE_KEY);
+      if (raw) {
+        this.profilesSubject.next(JSON.parse(raw));
+        this.activeIdSubject.next(localStorage.getItem(ACTIVE_STORAGE_KEY) || '');
+        const pins = localStorage.getItem(PINS_STORAGE_KEY);
+        this.pinsSubject.next(pins ? JSON.parse(pins) : {});
+        return;
+      }
+    } catch {}
+    this.migrateLegacyUrl();
+  }
+
+  /** Primer arranque: un perfil con la URL guardada antes o la del environment. */
+  private migrateLegacyUrl(): void {
+    let url = environment.rfidGatewayUrl || '';
+    try {
+      url = localStorage.getItem(LEGACY_BASE_URL_KEY) || url;
+      localStorage.removeItem(LEGACY_BASE_URL_KEY);
+    } catch {}
+    if (!normalizeGatewayUrl(url)) return;
+    this.add({ label: 'Principal', url, authMode: 'none' });
+  }
+}
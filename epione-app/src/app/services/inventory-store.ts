@@ -0,0 +1,224 @@
+import { Injectable } from '@angular/core';
+import { BehaviorSubject, Observable } from 'rxjs';
+import { RealtimeHandle, RfidRealtime } from './rfid-realtime';
+import { TagReadEvent } from './tag-read-event';
+import { parseCsv } from './csv';
+
+export type AssetStatus = 'ACTIVO' | 'EN_USO' | 'MANTENIMIENTO' | 'BAJA';
+
+export const ASSET_STATUSES: AssetStatus[] = ['ACTIVO', 'EN_USO', 'MANTENIMIENTO', 'BAJA'];
+
+/** Activo del inventario, identificado por su EPC. */
+export interface Asset {
+  epc: string;
+  sku: string;
+  description: string;
+  lot: string;
+  /** Fecha de caducidad YYYY-MM-DD, o '' si no aplica. */
+  expiryDate: string;
+  location: string;
+  status: AssetStatus;
+  /** Última lectura en el túnel (ISO), lector y antena que la hicieron. */
+  lastSeenAt: string | null;
+  lastSeenReaderId: string | null;
+  lastSeenAntenna: number | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** Campos que el usuario edita (el resto los mantiene el store). */
+export type AssetInput = Pick<
+  Asset,
+  'epc' | 'sku' | 'description' | 'lot' | 'expiryDate' | 'location' | 'status'
+>;
+
+export interface CsvImportResult {
+  created: number;
+  updated: number;
+  errors: Array<{ line: number; message: string }>;
+}
+
+const INVENTORY_STORAGE_KEY = 'inventory_assets';
+
+/** Las lecturas del túnel llegan en ráfagas: se agrupan antes de escribir en localStorage. */
+const SAVE_DEBOUNCE_MS = 2000;
+
+const EPC_PATTERN = /^[0-9A-Fa-f]{4,128}$/;
+
+/** Columnas del CSV de importación (la primera fila debe ser el encabezado). */
+export const ASSET_CSV_COLUMNS: Array<keyof AssetInput> = [
+  'epc',
+  'sku',
+  'description',
+  'lot',
+  'expiryDate',
+  'location',
+  'status',
+];
+
+/**
+ * Catálogo de activos RFID persistido en localStorage.
+ * Escucha el stream en tiempo real y actualiza "última vez visto" de cada activo leído; mientras
+ * el catálogo tenga activos mantiene el stream abierto, aunque ninguna página lo use.
+ */
+@Injectable({ providedIn: 'root' })
+export class InventoryStore {
+  private readonly assetsSubject = new BehaviorSubject<Asset[]>([]);
+  private saveTimer: ReturnType<typeof setTimeout> | null = null;
+  private stream: RealtimeHandle | null = null;
+
+  readonly assets$: Observable<Asset[]> = this.assetsSubject.asObservable();
+
+  constructor(private realtime: RfidRealtime) {
+    this.load();
+    realtime.tagReads$.subscribe((read) => this.onRead(read));
+  }
+
+  get assets(): Asset[] {
+    return this.assetsSubject.value;
+  }
+
+  get(epc: string): Asset | undefined {
+    const id = epc.trim();
+    return this.assets.find((a) => a.epc === id);
+  }
+
+  /** Mensaje de validación del activo, o '' si es válido. */
+  validate(input: AssetInput, editingEpc?: string): string {
+    const epc = input.epc.trim();
+    if (!EPC_PATTERN.test(epc)) return 'EPC inválido (hexadecimal, 4 a 128 caracteres)';
+    if (epc !== editingEpc && this.get(epc)) return `Ya existe un activo con EPC ${epc}`;
+    if (!input.sku.trim()) return 'SKU requerido';
+    if (input.expiryDate && !/^\d{4}-\d{2}-\d{2}$/.test(input.expiryDate)) {
+      return 'Caducidad debe tener formato AAAA-MM-DD';
+    }
+    if (!ASSET_STATUSES.includes(input.status)) return `Estado inválido: ${input.status}`;
+    return '';
+  }
+
+  /** Crea el activo o, si `editingEpc` existe, lo reemplaza (permite cambiar el EPC). */
+  save(input: AssetInput, editingEpc?: string): Asset {
+    const now = new Date().toISOString();
+    const previous = editingEpc ? this.get(editingEpc) : undefined;
+    const asset: Asset = {
+      lastSeenAt: null,
+      lastSeenReaderId: null,
+      lastSeenAntenna: null,
+      createdAt: now,
+      ...previous,
+      ...this.clean(input),
+      updatedAt: now,
+    };
+    const others = this.assets.filter((a) => a.epc !== editingEpc && a.epc !== asset.epc);
+    this.set([asset, ...others]);
+    this.persist();
+    return asset;
+  }
+
+  remove(epc: string): void {
+    this.set(this.assets.filter((a) => a.epc !== epc));
+    this.persist();
+  }
+
+  /** Importa activos desde CSV: crea los nuevos, actualiza los existentes y reporta las filas inválidas. */
+  importCsv(text: string): CsvImportResult {
+    const result: CsvImportResult = { created: 0, updated: 0, errors: [] };
+    const rows = parseCsv(text);
+    if (rows.length === 0) {
+      result.errors.push({ line: 1, message: 'Archivo vacío' });
+      return result;
+    }
+    const header = rows[0].map((h) => h.trim());
+    const index = new Map(ASSET_CSV_COLUMNS.map((c) => [c, header.indexOf(c)]));
+    if (index.get('epc') === -1) {
+      result.errors.push({ line: 1, message: 'Falta la columna "epc" en el encabezado' });
+      return result;
+    }
+    const cell = (row: string[], col: keyof AssetInput) => {
+      const i = index.get(col) ?? -1;
+      return i >= 0 ? (row[i] ?? '').trim() : '';
+    };
+    rows.slice(1).forEach((row, i) => {
+      const existing = this.get(cell(row, 'epc'));
+      const input: AssetInput = {
+        epc: cell(row, 'epc'),
+        sku: cell(row, 'sku') || existing?.sku || '',
+        description: cell(row, 'description') || existing?.description || '',
+        lot: cell(row, 'lot') || existing?.lot || '',
+        expiryDate: cell(row, 'expiryDate') || existing?.expiryDate || '',
+        location: cell(row, 'location') || existing?.location || '',
+        status: (cell(row, 'status').toUpperCase() || existing?.status || 'ACTIVO') as AssetStatus,
+      };
+      const error = this.validate(input, existing?.epc);
+      if (error) {
+        result.errors.push({ line: i + 2, message: error });
+        return;
+      }
+      this.save(input, existing?.epc);
+      if (existing) result.updated++;
+      else result.created++;
+    });
+    return result;
+  }
+
+  private clean(input: AssetInput): AssetInput {
+    return {
+      epc: input.epc.trim(),
+      sku: input.sku.trim(),
+      description: input.description.trim(),
+      lot: input.lot.trim(),
+      expiryDate: input.expiryDate.trim(),
+      location: input.location.trim(),
+      status: input.status,
+    };
+  }
+
+  private onRead(read: TagReadEvent): void {
+    const asset = this.get(read.epc);
+    if (!asset) return;
+    asset.lastSeenAt = read.timestamp.toISOString();
+    asset.lastSeenReaderId = read.readerId;
+    asset.lastSeenAntenna = read.antennaPort;
+    this.set([...this.assets]);
+    this.scheduleSave();
+  }
+
+  private set(assets: Asset[]): void {
+    this.assetsSubject.next(assets);
+    this.holdStream();
+  }
+
+  /** Toma el stream con el primer activo y lo suelta al quedar el catálogo vacío. */
+  private holdStream(): void {
+    if (this.assets.length > 0 && !this.stream) {
+      this.stream = this.realtime.acquire();
+    } else if (this.assets.length === 0 && this.stream) {
+      this.stream.release();
+      this.stream = null;
+    }
+  }
+
+  private scheduleSave(): void {
+    if (this.saveTimer) return;
+    this.saveTimer = setTimeout(() => this.persist(), SAVE_DEBOUNCE_MS);
+  }
+
+  private load(): void {
+    try {
+      const raw = localStorage.getItem(INVENTORY_STORAGE_KEY);
+      this.set(raw ? JSON.parse(raw) : []);
+    } catch {
+      this.set([]);
+    }
+  }
+
+  private persist(): void {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+    }
+    try {
+      localStorage.setItem(INVENTORY_STORAGE_KEY, JSON.stringify(this.assets));
+    } catch {}
+  }
+}
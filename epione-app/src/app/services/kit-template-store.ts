@@ -0,0 +1,131 @@
+import { Injectable } from '@angular/core';
+import { BehaviorSubject, Observable } from 'rxjs';
+
+/** Renglón de una plantilla: cuántas piezas de un tipo de producto (SKU del inventario). */
+export interface KitTemplateItem {
+  sku: string;
+  name: string;
+  quantity: number;
+}
+
+/** Contenido esperado de una maleta por tipo de producto, sin fijar EPCs concretos. */
+export interface KitTemplate {
+  id: string;
+  name: string;
+  items: KitTemplateItem[];
+  createdAt: string;
+}
+
+/** Resultado de comparar la lectura contra un renglón de la plantilla. */
+export interface KitLineResult {
+  sku: string;
+  name: string;
+  expected: number;
+  found: number;
+}
+
+const KIT_TEMPLATES_STORAGE_KEY = 'kit_templates';
+
+/**
+ * Cuenta, por renglón de la plantilla, cuántas etiquetas leídas son de ese tipo de producto.
+ * Cualquier pieza del SKU correcto cuenta; `skuOf` resuelve EPC → SKU (catálogo de inventario).
+ */
+export function evaluateKit(
+  template: KitTemplate,
+  readEpcs: string[],
+  skuOf: (epc: string) => string | undefined
+): KitLineResult[] {
+  const perSku = new Map<string, number>();
+  for (const epc of new Set(readEpcs)) {
+    const sku = skuOf(epc);
+    if (sku) perSku.set(sku, (perSku.get(sku) ?? 0) + 1);
+  }
+  return template.items.map((i) => ({
+    sku: i.sku,
+    name: i.name || i.sku,
+    expected: i.quantity,
+    found: perSku.get(i.sku) ?? 0,
+  }));
+}
+
+/** Faltantes legibles, p. ej. "Falta 1 × Porta agujas". */
+export function describeMissing(lines: KitLineResult[]): string[] {
+  return lines
+    .filter((l) => l.found < l.expected)
+    .map((l) => {
+      const n = l.expected - l.found;
+      return `${n === 1 ? 'Falta' : 'Faltan'} ${n} × ${l.name}`;
+    });
+}
+
+/** Plantillas de kit guardadas en localStorage. */
+@Injectable({ providedIn: 'root' })
+export class KitTemplateStore {
+  private readonly templatesSubject = new BehaviorSubject<KitTemplate[]>([]);
+
+  readonly templates$: Observable<KitTemplate[]> = this.templatesSubject.asObservable();
+
+  constructor() {
+    this.load();
+  }
+
+  get templates(): KitTemplate[] {
+    return this.templatesSubject.value;
+  }
+
+  get(id: string | undefined): KitTemplate | undefined {
+    return id ? this.templates.find((t) => t.id === id) : undefined;
+  }
+
+  /** Mensaje de validación, o '' si es válida. */
+  validate(name: string, items: KitTemplateItem[]): string {
+    if (!name.trim()) return 'Nombre requerido';
+    if (items.length === 0) return 'Agrega al menos un producto';
+    const skus = new Set<string>();
+    for (const i of items) {
+      if (!i.sku.trim()) return 'Cada renglón necesita un SKU';
+      if (!Number.isInteger(i.quantity) || i.quantity < 1) {
+        return `Cantidad inválida para ${i.name || i.sku}`;
+      }
+      if (skus.has(i.sku)) return `SKU repetido: ${i.sku}`;
+      skus.add(i.sku);
+    }
+    return '';
+  }
+
+  save(name: string, items: KitTemplateItem[], editingId?: string): KitTemplate {
+    const previous = this.get(editingId);
+    const template: KitTemplate = {
+      id: previous?.id ?? `kit_${Date.now()}`,
+      createdAt: previous?.createdAt ?? new Date().toISOString(),
+      name: name.trim(),
+      items: items.map((i) => ({ sku: i.sku.trim(), name: i.name.trim(), quantity: i.quantity })),
+    };
+    this.set(
+      previous
+        ? this.templates.map((t) => (t.id === template.id ? template : t))
+        : [...this.templates, template]
+    );
+    return template;
+  }
+
+  remove(id: string): void {
+    this.set(this.templates.filter((t) => t.id !== id));
+  }
+
+  private set(list: KitTemplate[]): void {
+    this.templatesSubject.next(list);
+    try {
+      localStorage.setItem(KIT_TEMPLATES_STORAGE_KEY, JSON.stringify(list));
+    } catch {}
+  }
+
+  private load(): void {
+    try {
+      const raw = localStorage.getItem(KIT_TEMPLATES_STORAGE_KEY);
+      this.templatesSubject.next(raw ? JSON.parse(raw) : []);
+    } catch {
+      this.templatesSubject.next([]);
+    }
+  }
+}
@@ -0,0 +1,284 @@
+import { toCsv } from './csv';
+import {
+  detectMaletaFormat,
+  MaletaImportParse,
+  maletasToCsvRows,
+  maletasToJson,
+  maletasToTxt,
+  parseMaletasFile,
+  previewMaletaImport,
+} from './maleta-io';
+import { MaletaItem } from './maleta-store';
+
+function maleta(
+  masterRfid: string,
+  productRfids: string[],
+  extra: Partial<MaletaItem> = {}
+): MaletaItem {
+  return {
+    id: `m_${masterRfid}`,
+    masterRfid,
+    productRfids,
+    createdAt: '2026-01-01T00:00:00.000Z',
+    ...extra,
+  };
+}
+
+describe('formato .txt de maletas', () => {
+  const parse = (text: string) => parseMaletasFile('maletas.txt', text);
+
+  it('lee una maleta por MAESTRO con sus productos debajo', () => {
+    const result = parse('MAESTRO M1\nP1\nP2\nMAESTRO M2\nP3\n');
+    expect(result.format).toBe('txt');
+    expect(result.errors).toEqual([]);
+    expect(result.maletas.map((m) => [m.masterRfid, m.productRfids])).toEqual([
+      ['M1', ['P1', 'P2']],
+      ['M2', ['P3']],
+    ]);
+  });
+
+  it('ignora comentarios, líneas vacías y espacios alrededor', () => {
+    const result = parse('# encabezado\n\n  MAESTRO   M1  \n\t P1 \n\n# otro\n   \nP2\n');
+    expect(result.errors).toEqual([]);
+    expect(result.maletas).toHaveLength(1);
+    expect(result.maletas[0].masterRfid).toBe('M1');
+    expect(result.maletas[0].productRfids).toEqual(['P1', 'P2']);
+  });
+
+  it('acepta saltos de línea CRLF', () => {
+    const result = parse('MAESTRO M1\r\nP1\r\nP2\r\n');
+    expect(result.maletas[0].productRfids).toEqual(['P1', 'P2']);
+  });
+
+  it('acepta una maleta sin productos', () => {
+    const result = parse('MAESTRO M1\nMAESTRO M2\nP1');
+    expect(result.maletas.map((m) => m.productRfids)).toEqual([[], ['P1']]);
+  });
+
+  it('reporta MAESTRO sin RFID y descarta los productos que le siguen', () => {
+    const result = parse('MAESTRO\nP1\nMAESTRO M2\nP2');
+    expect(result.errors).toEqual([
+      { at: 'Línea 1', message: 'MAESTRO sin RFID' },
+      { at: 'Línea 2', message: 'Producto fuera de una maleta: P1' },
+    ]);
+    expect(result.maletas.map((m) => m.masterRfid)).toEqual(['M2']);
+  });
+
+  it('reporta productos antes del primer MAESTRO', () => {
+    const result = parse('P0\nMAESTRO M1\nP1');
+    expect(result.errors).toEqual([{ at: 'Línea 1', message: 'Producto fuera de una maleta: P0' }]);
+    expect(result.maletas[0].productRfids).toEqual(['P1']);
+  });
+
+  it('rechaza RFIDs con espacios dentro', () => {
+    const result = parse('MAESTRO M1\nP 1\nP2');
+    expect(result.errors).toEqual([{ at: 'Línea 2', message: 'RFID con espacios: P 1' }]);
+    expect(result.maletas[0].productRfids).toEqual(['P2']);
+  });
+
+  it('no toma como MAESTRO una línea que solo empieza con esas letras', () => {
+    const result = parse('MAESTRO M1\nMAESTROX');
+    expect(result.maletas).toHaveLength(1);
+    expect(result.maletas[0].productRfids).toEqual(['MAESTROX']);
+  });
+
+  it('marca maestros y productos repetidos y usa la primera aparición', () => {
+    const result = parse('MAESTRO M1\nP1\nP1\nMAESTRO M1\nP9');
+    expect(result.maletas).toHaveLength(1);
+    expect(result.maletas[0].productRfids).toEqual(['P1']);
+    expect(result.duplicates).toEqual([
+      { at: 'Maleta M1', message: 'Producto repetido: P1' },
+      { at: 'Maleta 2', message: 'RFID maestro repetido: M1' },
+    ]);
+  });
+
+  it('un archivo vacío o solo con comentarios no produce maletas ni errores', () => {
+    expect(parse('')).toMatchObject({ maletas: [], errors: [] });
+    expect(parse('# nada\n\n')).toMatchObject({ maletas: [], errors: [] });
+  });
+
+  it('lo exportado se vuelve a leer igual', () => {
+    const list = [maleta('M1', ['P1', 'P2']), maleta('M2', [])];
+    const result = parse(maletasToTxt(list));
+    expect(result.errors).toEqual([]);
+    expect(result.maletas.map((m) => [m.masterRfid, m.productRfids])).toEqual([
+      ['M1', ['P1', 'P2']],
+      ['M2', []],
+    ]);
+  });
+});
+
+describe('JSON y CSV de maletas', () => {
+  const history = [
+    { at: '2026-02-01T10:00:00.000Z', changes: ['Producto agregado: P2'] },
+    { at: '2026-02-03T09:30:00.000Z', changes: ['Nombre: "" → "Cadera 1"'] },
+  ];
+  const full = maleta('M1', ['P1', 'P2'], {
+    id: 'maleta_1',
+    name: 'Cadera 1',
+    templateId: 'kit_1',
+    updatedAt: '2026-02-03T09:30:00.000Z',
+    expiredProductRfids: ['P2'],
+    productDates: { P1: { expiryDate: '2027-01-31', sterilizedAt: '2026-01-15' } },
+    history,
+  });
+
+  it('JSON conserva todo, incluidos nombre e historial', () => {
+    const result = parseMaletasFile('maletas.json', maletasToJson([full]));
+    expect(result.errors).toEqual([]);
+    expect(result.maletas).toEqual([full]);
+  });
+
+  it('CSV conserva nombre, historial, caducados y fechas', () => {
+    const result = parseMaletasFile('maletas.csv', toCsv(maletasToCsvRows([full])));
+    expect(result.errors).toEqual([]);
+    expect(result.maletas).toEqual([full]);
+  });
+
+  it('CSV de una maleta sin productos ni historial', () => {
+    const empty = maleta('M2', [], { id: 'maleta_2' });
+    const result = parseMaletasFile('maletas.csv', toCsv(maletasToCsvRows([empty])));
+    expect(result.maletas).toEqual([empty]);
+  });
+
+  it('JSON con historial mal formado se reporta', () => {
+    const text = JSON.stringify([{ masterRfid: 'M1', history: [{ at: 1 }] }]);
+    const result = parseMaletasFile('maletas.json', text);
+    expect(result.maletas).toEqual([]);
+    expect(result.errors).toEqual([
+      { at: 'Maleta 1', message: 'history debe ser una lista de { at, changes }' },
+    ]);
+  });
+
+  it('JSON con fechas mal formadas se rechaza como en CSV', () => {
+    const text = JSON.stringify([
+      {
+        masterRfid: 'M1',
+        productRfids: ['P1'],
+        productDates: { P1: { expiryDate: '31/01/2027' } },
+      },
+      { masterRfid: 'M2', productRfids: ['P2'], productDates: { P2: { sterilizedAt: 20260115 } } },
+      { masterRfid: 'M3', productRfids: ['P3'], productDates: ['2027-01-31'] },
+    ]);
+    const result = parseMaletasFile('maletas.json', text);
+    expect(result.maletas).toEqual([]);
+    expect(result.errors.map((e) => e.message)).toEqual([
+      'Fecha inválida (se espera AAAA-MM-DD): 31/01/2027',
+      'Fecha inválida (se espera AAAA-MM-DD): 20260115',
+      'productDates debe ser un objeto { rfid: { expiryDate, sterilizedAt } }',
+    ]);
+  });
+
+  it('CSV con historial mal formado importa la maleta sin historial', () => {
+    const text = 'masterRfid,name,history,productRfid\nM1,Cadera,no es json,P1';
+    const result = parseMaletasFile('maletas.csv', text);
+    expect(result.maletas[0]).toMatchObject({ masterRfid: 'M1', name: 'Cadera' });
+    expect(result.maletas[0].history).toBeUndefined();
+    expect(result.errors).toEqual([
+      { at: 'Línea 2', message: 'Historial inválido; la maleta se importa sin historial' },
+    ]);
+  });
+});
+
+describe('detectMaletaFormat', () => {
+  it('usa la extensión', () => {
+    expect(detectMaletaFormat('a.JSON', '')).toBe('json');
+    expect(detectMaletaFormat('a.csv', 'MAESTRO X')).toBe('csv');
+    expect(detectMaletaFormat('a.txt', '{}')).toBe('txt');
+  });
+
+  it('sin extensión conocida lo deduce del contenido', () => {
+    expect(detectMaletaFormat('maletas', '  [ ]')).toBe('json');
+    expect(detectMaletaFormat('maletas', 'MAESTRO M1\nP1')).toBe('txt');
+    expect(detectMaletaFormat('maletas', 'masterRfid,productRfid')).toBe('csv');
+  });
+});
+
+describe('previewMaletaImport', () => {
+  const parsed = (maletas: MaletaItem[]): MaletaImportParse => ({
+    format: 'json',
+    maletas,
+    errors: [],
+    duplicates: [],
+  });
+
+  it('merge actualiza por RFID maestro conservando id y fecha de alta', () => {
+    const current = [maleta('M1', ['P1'], { id: 'original', createdAt: '2025-01-01' })];
+    const preview = previewMaletaImport(
+      parsed([maleta('M1', ['P1', 'P2'], { id: 'otro' }), maleta('M2', [])]),
+      current,
+      'merge'
+    );
+    expect(preview).toMatchObject({ created: 1, updated: 1, removed: 0 });
+    const m1 = preview.result.find((m) => m.masterRfid === 'M1');
+    expect(m1).toMatchObject({
+      id: 'original',
+      createdAt: '2025-01-01',
+      productRfids: ['P1', 'P2'],
+    });
+  });
+
+  it('merge conserva el nombre si el archivo no trae otro', () => {
+    const current = [maleta('M1', ['P1'], { name: 'Cadera 1' })];
+    const preview = previewMaletaImport(parsed([maleta('M1', ['P1'])]), current, 'merge');
+    expect(preview.result[0].name).toBe('Cadera 1');
+    expect(preview.result[0].history).toBeUndefined();
+  });
+
+  it('merge de un .txt conserva plantilla, caducados y fechas de los productos que siguen', () => {
+    const current = [
+      maleta('M1', ['P1', 'P2'], {
+        templateId: 'kit_1',
+        expiredProductRfids: ['P1', 'P2'],
+        productDates: { P1: { expiryDate: '2027-01-31' }, P2: { sterilizedAt: '2026-01-15' } },
+      }),
+    ];
+    const txt = parseMaletasFile('maletas.txt', 'MAESTRO M1\nP1\nP3');
+    const [m1] = previewMaletaImport(txt, current, 'merge').result;
+    expect(m1).toMatchObject({
+      productRfids: ['P1', 'P3'],
+      templateId: 'kit_1',
+      expiredProductRfids: ['P1'],
+      productDates: { P1: { expiryDate: '2027-01-31' } },
+    });
+  });
+
+  it('merge toma del archivo los campos que sí trae', () => {
+    const current = [maleta('M1', ['P1'], { templateId: 'kit_1', expiredProductRfids: ['P1'] })];
+    const incoming = maleta('M1', ['P1'], {
+      templateId: 'kit_2',
+      expiredProductRfids: [],
+      productDates: { P1: { expiryDate: '2028-01-01' } },
+    });
+    const [m1] = previewMaletaImport(parsed([incoming]), current, 'merge').result;
+    expect(m1.templateId).toBe('kit_2');
+    expect(m1.expiredProductRfids).toBeUndefined();
+    expect(m1.productDates).toEqual({ P1: { expiryDate: '2028-01-01' } });
+  });
+
+  it('merge junta los historiales y agrega lo que cambió la importación', () => {
+    const edit = { at: '2026-02-01T10:00:00.000Z', changes: ['Producto agregado: P1'] };
+    const otherEdit = { at: '2026-01-20T08:00:00.000Z', changes: ['Plantilla de kit cambiada'] };
+    const current = [maleta('M1', ['P1'], { history: [edit] })];
+    const incoming = maleta('M1', ['P1', 'P2'], { name: 'Cadera', history: [otherEdit, edit] });
+    const history = previewMaletaImport(parsed([incoming]), current, 'merge').result[0].history;
+    expect(history?.slice(0, 2)).toEqual([otherEdit, edit]);
+    expect(history?.[2].changes).toEqual(['Nombre: "" → "Cadera"', 'Producto agregado: P2']);
+    expect(history).toHaveLength(3);
+  });
+
+  it('replace sustituye todo', () => {
+    const preview = previewMaletaImport(parsed([maleta('M2', [])]), [maleta('M1', [])], 'replace');
+    expect(preview).toMatchObject({ created: 1, updated: 0, removed: 1 });
+    expect(preview.result.map((m) => m.masterRfid)).toEqual(['M2']);
+  });
+
+  it('reporta EPCs que quedarían en dos maletas', () => {
+    const preview = previewMaletaImport(
+      parsed([maleta('M2', ['P1'])]),
+      [maleta('M1', ['P1'])],
+      'merge'
+    );
+    expect(preview.sharedEpcs).toEqual([{ epc: 'P1', masters: ['M2', 'M1'] }]);
+  });
+});
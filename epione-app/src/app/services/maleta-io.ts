@@ -0,0 +1,456 @@
+import { parseCsv } from './csv';
+import { describeMaletaChanges, MaletaChange, MaletaItem, ProductDates } from './maleta-store';
+
+/** merge = agrega y actualiza por RFID maestro; replace = sustituye todo; dry-run = solo revisa. */
+export type MaletaImportMode = 'merge' | 'replace' | 'dry-run';
+
+export type MaletaFileFormat = 'json' | 'csv' | 'txt';
+
+export interface MaletaImportIssue {
+  /** Dónde está el problema, p. ej. "Línea 4" o "Maleta 2". */
+  at: string;
+  message: string;
+}
+
+/** Archivo leído: maletas válidas y lo que no se pudo interpretar. */
+export interface MaletaImportParse {
+  format: MaletaFileFormat;
+  maletas: MaletaItem[];
+  errors: MaletaImportIssue[];
+  /** Maletas o productos repetidos dentro del archivo (se usa la primera aparición). */
+  duplicates: MaletaImportIssue[];
+}
+
+/** EPC que quedaría en más de una maleta (como maestro o como producto). */
+export interface SharedEpc {
+  epc: string;
+  masters: string[];
+}
+
+/** Lo que haría la importación, antes de aplicarla. */
+export interface MaletaImportPreview {
+  mode: MaletaImportMode;
+  created: number;
+  updated: number;
+  removed: number;
+  errors: MaletaImportIssue[];
+  duplicates: MaletaImportIssue[];
+  sharedEpcs: SharedEpc[];
+  /** Lista resultante (lo que se guardaría con merge o replace). */
+  result: MaletaItem[];
+}
+
+/**
+ * Columnas del CSV: una fila por producto; la maleta se repite en cada fila.
+ * `history` va como JSON (la lista de `MaletaChange`).
+ */
+export const MALETA_CSV_COLUMNS = [
+  'maletaId',
+  'masterRfid',
+  'name',
+  'templateId',
+  'createdAt',
+  'updatedAt',
+  'history',
+  'productRfid',
+  'expired',
+  'expiryDate',
+  'sterilizedAt',
+] as const;
+
+type MaletaCsvColumn = (typeof MALETA_CSV_COLUMNS)[number];
+
+/** Formato .txt: MAESTRO <rfid> = maleta; líneas siguientes = productos hasta el próximo MAESTRO. */
+const TXT_MAESTRO_PREFIX = 'MAESTRO ';
+
+const TRUE_VALUES = ['true', '1', 'si', 'sí', 'x', 'yes'];
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+let idSeq = 0;
+
+function newId(): string {
+  return `maleta_${Date.now()}_${idSeq++}`;
+}
+
+export function maletasToJson(list: MaletaItem[]): string {
+  return JSON.stringify({ exportedAt: new Date().toISOString(), maletas: list }, null, 2);
+}
+
+export function maletasToCsvRows(list: MaletaItem[]): unknown[][] {
+  const rows: unknown[][] = [[...MALETA_CSV_COLUMNS]];
+  for (const m of list) {
+    const history = m.history?.length ? JSON.stringify(m.history) : '';
+    const base = [m.id, m.masterRfid, m.name, m.templateId, m.createdAt, m.updatedAt, history];
+    if (m.productRfids.length === 0) rows.push([...base, '', '', '', '']);
+    for (const rfid of m.productRfids) {
+      const dates = m.productDates?.[rfid];
+      rows.push([
+        ...base,
+        rfid,
+        m.expiredProductRfids?.includes(rfid) ? 'true' : 'false',
+        dates?.expiryDate,
+        dates?.sterilizedAt,
+      ]);
+    }
+  }
+  return rows;
+}
+
+export function maletasToTxt(list: MaletaItem[]): string {
+  const lines: string[] = [
+    '# Maletas - qué hay que leer',
+    '# MAESTRO = RFID de la maleta. Líneas debajo = productos hasta el próximo MAESTRO.',
+    '',
+  ];
+  for (const m of list) {
+    lines.push(TXT_MAESTRO_PREFIX + m.masterRfid);
+    for (const rfid of m.productRfids) lines.push(rfid.trim());
+    lines.push('');
+  }
+  return lines.join('\n');
+}
+
+/** Formato por extensión; sin extensión conocida se deduce del contenido. */
+export function detectMaletaFormat(fileName: string, text: string): MaletaFileFormat {
+  const ext = fileName.toLowerCase().split('.').pop();
+  if (ext === 'json') return 'json';
+  if (ext === 'csv') return 'csv';
+  if (ext === 'txt') return 'txt';
+  const start = text.trimStart();
+  if (start.startsWith('{') || start.startsWith('[')) return 'json';
+  return text.includes(TXT_MAESTRO_PREFIX) ? 'txt' : 'csv';
+}
+
+export function parseMaletasFile(fileName: string, text: string): MaletaImportParse {
+  const format = detectMaletaFormat(fileName, text);
+  const parsed =
+    format === 'json' ? parseJson(text) : format === 'csv' ? parseCsvFile(text) : parseTxt(text);
+  return { format, ...dedupe(parsed.maletas, parsed.errors) };
+}
+
+/**
+ * Calcula el resultado de importar sin aplicarlo. En merge una maleta del archivo actualiza a la
+ * existente con el mismo id o RFID maestro: conserva id y fecha de alta, toma del archivo solo los
+ * campos que trae (ver `mergeMaleta`), junta los dos historiales y agrega lo que cambió la
+ * importación. dry-run se calcula como merge.
+ */
+export function previewMaletaImport(
+  parsed: MaletaImportParse,
+  current: MaletaItem[],
+  mode: MaletaImportMode
+): MaletaImportPreview {
+  let result: MaletaItem[];
+  let created = 0;
+  let updated = 0;
+  let removed = 0;
+  if (mode === 'replace') {
+    result = parsed.maletas;
+    created = parsed.maletas.length;
+    removed = current.length;
+  } else {
+    result = [...current];
+    for (const incoming of parsed.maletas) {
+      const i = result.findIndex(
+        (m) => m.id === incoming.id || m.masterRfid.trim() === incoming.masterRfid
+      );
+      if (i >= 0) {
+        const existing = result[i];
+        const merged = mergeMaleta(existing, incoming);
+        const history = mergeHistory(existing.history, incoming.history);
+        const changes = describeMaletaChanges(existing, merged);
+        if (changes.length > 0) history.push({ at: new Date().toISOString(), changes });
+        if (history.length > 0) merged.history = history;
+        result[i] = merged;
+        updated++;
+      } else {
+        result.unshift(incoming);
+        created++;
+      }
+    }
+  }
+  return {
+    mode,
+    created,
+    updated,
+    removed,
+    errors: parsed.errors,
+    duplicates: parsed.duplicates,
+    sharedEpcs: findSharedEpcs(result),
+    result,
+  };
+}
+
+/**
+ * La maleta existente con lo que trae el archivo. Un .txt o un CSV/JSON parcial no trae nombre,
+ * plantilla, caducados ni fechas: en ese caso se conservan los de la maleta existente (caducados
+ * y fechas solo de los productos que siguen en ella).
+ */
+function mergeMaleta(existing: MaletaItem, incoming: MaletaItem): MaletaItem {
+  const productRfids = incoming.productRfids;
+  const name = incoming.name ?? existing.name;
+  const templateId = incoming.templateId ?? existing.templateId;
+  const expired = (incoming.expiredProductRfids ?? existing.expiredProductRfids ?? []).filter((r) =>
+    productRfids.includes(r)
+  );
+  const dates = Object.entries({ ...existing.productDates, ...incoming.productDates }).filter(
+    ([rfid]) => productRfids.includes(rfid)
+  );
+  return {
+    id: existing.id,
+    masterRfid: incoming.masterRfid,
+    productRfids,
+    createdAt: existing.createdAt,
+    ...(name ? { name } : {}),
+    ...(templateId ? { templateId } : {}),
+    ...(existing.updatedAt ? { updatedAt: existing.updatedAt } : {}),
+    ...(expired.length > 0 ? { expiredProductRfids: expired } : {}),
+    ...(dates.length > 0 ? { productDates: Object.fromEntries(dates) } : {}),
+  };
+}
+
+/** EPCs que aparecen en más de una maleta. */
+export function findSharedEpcs(list: MaletaItem[]): SharedEpc[] {
+  const byEpc = new Map<string, Set<string>>();
+  for (const m of list) {
+    for (const epc of [m.masterRfid, ...m.productRfids].map((s) => s.trim())) {
+      if (!epc) continue;
+      if (!byEpc.has(epc)) byEpc.set(epc, new Set());
+      byEpc.get(epc)!.add(m.masterRfid);
+    }
+  }
+  return [...byEpc]
+    .filter(([, masters]) => masters.size > 1)
+    .map(([epc, masters]) => ({ epc, masters: [...masters] }));
+}
+
+/** Une dos historiales sin repetir ediciones, de la más antigua a la más reciente. */
+function mergeHistory(a: MaletaChange[] = [], b: MaletaChange[] = []): MaletaChange[] {
+  const byKey = new Map<string, MaletaChange>();
+  for (const c of [...a, ...b]) byKey.set(`${c.at}\n${c.changes.join('\n')}`, c);
+  return [...byKey.values()].sort((x, y) => x.at.localeCompare(y.at));
+}
+
+/** Historial válido del archivo, o null si no tiene la forma de `MaletaChange[]`. */
+function parseHistory(raw: unknown): MaletaChange[] | null {
+  if (!Array.isArray(raw)) return null;
+  const valid = raw.every(
+    (c) =>
+      c &&
+      typeof c.at === 'string' &&
+      Array.isArray(c.changes) &&
+      c.changes.every((t: unknown) => typeof t === 'string')
+  );
+  return valid ? raw.map((c) => ({ at: c.at, changes: [...c.changes] })) : null;
+}
+
+/**
+ * Fechas por producto del archivo: `{ [rfid]: { expiryDate?, sterilizedAt? } }` con fechas
+ * AAAA-MM-DD. Devuelve el mensaje de error si algo no tiene esa forma.
+ */
+function parseProductDates(raw: unknown): Record<string, ProductDates> | string {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return 'productDates debe ser un objeto { rfid: { expiryDate, sterilizedAt } }';
+  }
+  const result: Record<string, ProductDates> = {};
+  for (const [rfid, value] of Object.entries(raw)) {
+    const d = value as ProductDates | null;
+    if (!d || typeof d !== 'object') return `productDates inválido para ${rfid}`;
+    const bad = [d.expiryDate, d.sterilizedAt].find(
+      (date) => date !== undefined && (typeof date !== 'string' || !DATE_PATTERN.test(date))
+    );
+    if (bad !== undefined) return `Fecha inválida (se espera AAAA-MM-DD): ${bad}`;
+    result[rfid.trim()] = {
+      ...(d.expiryDate ? { expiryDate: d.expiryDate } : {}),
+      ...(d.sterilizedAt ? { sterilizedAt: d.sterilizedAt } : {}),
+    };
+  }
+  return result;
+}
+
+/** Quita maletas con RFID maestro repetido y productos repetidos dentro de una maleta. */
+function dedupe(
+  maletas: MaletaItem[],
+  errors: MaletaImportIssue[]
+): Omit<MaletaImportParse, 'format'> {
+  const duplicates: MaletaImportIssue[] = [];
+  const seen = new Set<string>();
+  const unique: MaletaItem[] = [];
+  maletas.forEach((m, i) => {
+    if (seen.has(m.masterRfid)) {
+      duplicates.push({ at: `Maleta ${i + 1}`, message: `RFID maestro repetido: ${m.masterRfid}` });
+      return;
+    }
+    seen.add(m.masterRfid);
+    const products = [...new Set(m.productRfids)];
+    for (const rfid of m.productRfids.filter((r, j) => m.productRfids.indexOf(r) !== j)) {
+      duplicates.push({ at: `Maleta ${m.masterRfid}`, message: `Producto repetido: ${rfid}` });
+    }
+    unique.push({ ...m, productRfids: products });
+  });
+  return { maletas: unique, errors, duplicates };
+}
+
+function parseJson(text: string): { maletas: MaletaItem[]; errors: MaletaImportIssue[] } {
+  const errors: MaletaImportIssue[] = [];
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return { maletas: [], errors: [{ at: 'Archivo', message: 'JSON inválido' }] };
+  }
+  const items = Array.isArray(data) ? data : (data as { maletas?: unknown })?.maletas;
+  if (!Array.isArray(items)) {
+    return { maletas: [], errors: [{ at: 'Archivo', message: 'Se esperaba una lista de maletas' }] };
+  }
+  const maletas: MaletaItem[] = [];
+  items.forEach((raw, i) => {
+    const at = `Maleta ${i + 1}`;
+    const m = raw as Partial<MaletaItem>;
+    const masterRfid = typeof m?.masterRfid === 'string' ? m.masterRfid.trim() : '';
+    if (!masterRfid) {
+      errors.push({ at, message: 'Falta masterRfid' });
+      return;
+    }
+    const products = m.productRfids ?? [];
+    if (!Array.isArray(products) || products.some((p) => typeof p !== 'string')) {
+      errors.push({ at, message: 'productRfids debe ser una lista de textos' });
+      return;
+    }
+    const productRfids = products.map((p) => p.trim()).filter(Boolean);
+    const history = m.history === undefined ? [] : parseHistory(m.history);
+    if (!history) {
+      errors.push({ at, message: 'history debe ser una lista de { at, changes }' });
+      return;
+    }
+    const productDates = m.productDates === undefined ? {} : parseProductDates(m.productDates);
+    if (typeof productDates === 'string') {
+      errors.push({ at, message: productDates });
+      return;
+    }
+    const dates = Object.entries(productDates).filter(([rfid]) => productRfids.includes(rfid));
+    const name = typeof m.name === 'string' ? m.name.trim() : '';
+    maletas.push({
+      id: typeof m.id === 'string' && m.id ? m.id : newId(),
+      masterRfid,
+      productRfids,
+      createdAt: typeof m.createdAt === 'string' ? m.createdAt : new Date().toISOString(),
+      ...(name ? { name } : {}),
+      ...(typeof m.templateId === 'string' && m.templateId ? { templateId: m.templateId } : {}),
+      ...(typeof m.updatedAt === 'string' ? { updatedAt: m.updatedAt } : {}),
+      ...(Array.isArray(m.expiredProductRfids)
+        ? { expiredProductRfids: m.expiredProductRfids.filter((r) => productRfids.includes(r)) }
+        : {}),
+      ...(dates.length > 0 ? { productDates: Object.fromEntries(dates) } : {}),
+      ...(history.length > 0 ? { history } : {}),
+    });
+  });
+  return { maletas, errors };
+}
+
+function parseCsvFile(text: string): { maletas: MaletaItem[]; errors: MaletaImportIssue[] } {
+  const errors: MaletaImportIssue[] = [];
+  const rows = parseCsv(text);
+  if (rows.length === 0) return { maletas: [], errors: [{ at: 'Línea 1', message: 'Archivo vacío' }] };
+  const header = rows[0].map((h) => h.trim());
+  const index = new Map(MALETA_CSV_COLUMNS.map((c) => [c, header.indexOf(c)]));
+  if (index.get('masterRfid') === -1) {
+    return {
+      maletas: [],
+      errors: [{ at: 'Línea 1', message: 'Falta la columna "masterRfid" en el encabezado' }],
+    };
+  }
+  const cell = (row: string[], col: MaletaCsvColumn) => {
+    const i = index.get(col) ?? -1;
+    return i >= 0 ? (row[i] ?? '').trim() : '';
+  };
+  /* Las filas de la misma maleta (mismo RFID maestro) se agrupan. */
+  const byMaster = new Map<string, MaletaItem>();
+  rows.slice(1).forEach((row, i) => {
+    const at = `Línea ${i + 2}`;
+    const masterRfid = cell(row, 'masterRfid');
+    if (!masterRfid) {
+      errors.push({ at, message: 'Falta masterRfid' });
+      return;
+    }
+    const expiryDate = cell(row, 'expiryDate');
+    const sterilizedAt = cell(row, 'sterilizedAt');
+    const badDate = [expiryDate, sterilizedAt].find((d) => d && !DATE_PATTERN.test(d));
+    if (badDate) {
+      errors.push({ at, message: `Fecha inválida (se espera AAAA-MM-DD): ${badDate}` });
+      return;
+    }
+    let m = byMaster.get(masterRfid);
+    if (!m) {
+      m = {
+        id: cell(row, 'maletaId') || newId(),
+        masterRfid,
+        productRfids: [],
+        createdAt: cell(row, 'createdAt') || new Date().toISOString(),
+      };
+      const name = cell(row, 'name');
+      const templateId = cell(row, 'templateId');
+      const updatedAt = cell(row, 'updatedAt');
+      if (name) m.name = name;
+      if (templateId) m.templateId = templateId;
+      if (updatedAt) m.updatedAt = updatedAt;
+      const historyCell = cell(row, 'history');
+      if (historyCell) {
+        let history: MaletaChange[] | null = null;
+        try {
+          history = parseHistory(JSON.parse(historyCell));
+        } catch {}
+        if (history) m.history = history;
+        else errors.push({ at, message: 'Historial inválido; la maleta se importa sin historial' });
+      }
+      byMaster.set(masterRfid, m);
+    }
+    const rfid = cell(row, 'productRfid');
+    if (!rfid) return;
+    m.productRfids.push(rfid);
+    if (TRUE_VALUES.includes(cell(row, 'expired').toLowerCase())) {
+      m.expiredProductRfids = [...(m.expiredProductRfids ?? []), rfid];
+    }
+    if (expiryDate || sterilizedAt) {
+      const dates: ProductDates = {
+        ...(expiryDate ? { expiryDate } : {}),
+        ...(sterilizedAt ? { sterilizedAt } : {}),
+      };
+      m.productDates = { ...m.productDates, [rfid]: dates };
+    }
+  });
+  return { maletas: [...byMaster.values()], errors };
+}
+
+function parseTxt(text: string): { maletas: MaletaItem[]; errors: MaletaImportIssue[] } {
+  const maletas: MaletaItem[] = [];
+  const errors: MaletaImportIssue[] = [];
+  let current: MaletaItem | null = null;
+  text.split(/\r?\n/).forEach((raw, i) => {
+    const line = raw.trim();
+    const at = `Línea ${i + 1}`;
+    if (!line || line.startsWith('#')) return;
+    if (line === TXT_MAESTRO_PREFIX.trim() || line.startsWith(TXT_MAESTRO_PREFIX)) {
+      const masterRfid = line.slice(TXT_MAESTRO_PREFIX.length).trim();
+      if (!masterRfid) {
+        errors.push({ at, message: 'MAESTRO sin RFID' });
+        current = null;
+        return;
+      }
+      current = {
+        id: newId(),
+        masterRfid,
+        productRfids: [],
+        createdAt: new Date().toISOString(),
+      };
+      maletas.push(current);
+    } else if (!current) {
+      errors.push({ at, message: `Producto fuera de una maleta: ${line}` });
+    } else if (/\s/.test(line)) {
+      errors.push({ at, message: `RFID con espacios: ${line}` });
+    } else {
+      current.productRfids.push(line);
+    }
+  });
+  return { maletas, errors };
+}
@@ -0,0 +1,75 @@
+import { Injectable } from '@angular/core';
+import { Observable, of } from 'rxjs';
+import { RfidApi } from './rfid-api';
+import type { MaletaItem } from './maleta-store';
+
+/** Dónde viven las maletas: el gateway (REST) o el navegador (localStorage). */
+export interface MaletaRepository {
+  list(): Observable<MaletaItem[]>;
+  /** Crea o reemplaza la maleta con ese id. */
+  put(maleta: MaletaItem): Observable<MaletaItem>;
+  remove(id: string): Observable<unknown>;
+}
+
+const MALETAS_STORAGE_KEY = 'maleta_list';
+
+/** `/api/maletas` del gateway; lo comparten todas las estaciones del túnel. */
+@Injectable({ providedIn: 'root' })
+export class RestMaletaRepository implements MaletaRepository {
+  constructor(private api: RfidApi) {}
+
+  list(): Observable<MaletaItem[]> {
+    return this.api.getMaletas();
+  }
+
+  put(maleta: MaletaItem): Observable<MaletaItem> {
+    return this.api.putMaleta(maleta);
+  }
+
+  remove(id: string): Observable<unknown> {
+    return this.api.deleteMaleta(id);
+  }
+}
+
+/** Copia local en `maleta_list`: caché sin conexión y modo demo sin gateway. */
+@Injectable({ providedIn: 'root' })
+export class LocalMaletaRepository implements MaletaRepository {
+  list(): Observable<MaletaItem[]> {
+    return of(this.read());
+  }
+
+  put(maleta: MaletaItem): Observable<MaletaItem> {
+    const list = this.read();
+    const exists = list.some((m) => m.id === maleta.id);
+    this.replaceAll(exists ? list.map((m) => (m.id === maleta.id ? maleta : m)) : [maleta, ...list]);
+    return of(maleta);
+  }
+
+  remove(id: string): Observable<unknown> {
+    this.replaceAll(this.read().filter((m) => m.id !== id));
+    return of(null);
+  }
+
+  /** Lectura síncrona para arrancar con la caché sin esperar al gateway. */
+  read(): MaletaItem[] {
+    try {
+      const raw = localStorage.getItem(MALETAS_STORAGE_KEY);
+      const list: MaletaItem[] = raw ? JSON.parse(raw) : [];
+      list.forEach((m) => {
+        if ((m as { expired?: boolean }).expired && m.productRfids?.length) {
+          m.expiredProductRfids = [...m.productRfids];
+          delete (m as { expired?: boolean }).expired;
+        }
+      });
+      return list;
+    } catch {
+      return [];
+    }
+  }
+
+  replaceAll(list: MaletaItem[]): void {
+    try {
+      localStorage.setItem(MALETAS_STORAGE_KEY, JSON.stringify(list));
+    } catch {}
+  }
+}
@@ -0,0 +1,447 @@
+import { Injectable } from '@angular/core';
+import { BehaviorSubject, forkJoin, Observable, of } from 'rxjs';
+import { catchError, distinctUntilChanged, filter, map, switchMap, tap } from 'rxjs/operators';
+import { RfidApi } from './rfid-api';
+import { RfidRealtime } from './rfid-realtime';
+import { LocalMaletaRepository, RestMaletaRepository } from './maleta-repository';
+import { AuditStore } from './audit-store';
+
+/** Fechas de un producto de la maleta (YYYY-MM-DD). */
+export interface ProductDates {
+  expiryDate?: string;
+  sterilizedAt?: string;
+}
+
+/** Una edición de la maleta: cuándo y qué cambió (texto legible). */
+export interface MaletaChange {
+  at: string;
+  changes: string[];
+}
+
+/** Maleta: RFID maestro (la maleta) + RFIDs de productos dentro. */
+export interface MaletaItem {
+  id: string;
+  /** Nombre visible; sin nombre se muestra el RFID maestro. */
+  name?: string;
+  masterRfid: string;
+  productRfids: string[];
+  createdAt: string;
+  /** RFIDs de productos marcados como caducados (semáforo rojo por producto). */
+  expiredProductRfids?: string[];
+  /** Plantilla de kit (KitTemplate.id): contenido esperado por tipo de producto. */
+  templateId?: string;
+  /** Caducidad y esterilización por RFID de producto. */
+  productDates?: Record<string, ProductDates>;
+  /** Última modificación (ISO); decide qué versión gana al sincronizar con el gateway. */
+  updatedAt?: string;
+  /** Ediciones hechas después de crearla, de la más antigua a la más reciente. */
+  history?: MaletaChange[];
+}
+
+/**
+ * EPC de una maleta en edición que ya está en otra. Si en alguna de las dos es el maestro,
+ * `asMaster` es true y no se permite guardar; entre productos solo se advierte.
+ */
+export interface EpcConflict {
+  epc: string;
+  maletaId: string;
+  maletaLabel: string;
+  asMaster: boolean;
+}
+
+/** morado = sin esterilizar; naranja = completa pero con productos por caducar. */
+export type SemaphoreStatus = 'red' | 'purple' | 'orange' | 'blue' | 'yellow' | 'green';
+
+export type ExpiryState = 'expired' | 'warning' | 'ok';
+
+export const DEFAULT_EXPIRY_WARNING_DAYS = 30;
+
+/**
+ * local = sin gateway configurado; pending = hay cambios que el gateway aún no tiene
+ * (sin conexión o falló el envío); synced = la caché coincide con el gateway.
+ */
+export type MaletaSyncState = 'local' | 'syncing' | 'pending' | 'synced';
+
+const SYNC_PENDING_KEY = 'maleta_sync_pending';
+const EXPIRY_WARNING_DAYS_KEY = 'maleta_expiry_warning_days';
+
+export function maletaLabel(m: MaletaItem): string {
+  return m.name ? `${m.name} (${m.masterRfid})` : m.masterRfid;
+}
+
+/** Diferencias legibles entre dos versiones de una maleta, para su historial. */
+export function describeMaletaChanges(
+  before: MaletaItem,
+  after: MaletaItem,
+  replaced: Record<string, string> = {}
+): string[] {
+  const changes: string[] = [];
+  if ((before.name ?? '') !== (after.name ?? '')) {
+    changes.push(`Nombre: "${before.name ?? ''}" → "${after.name ?? ''}"`);
+  }
+  if (before.masterRfid !== after.masterRfid) {
+    changes.push(`RFID maestro: ${before.masterRfid} → ${after.masterRfid}`);
+  }
+  if ((before.templateId ?? '') !== (after.templateId ?? '')) {
+    changes.push('Plantilla de kit cambiada');
+  }
+  for (const [from, to] of Object.entries(replaced)) {
+    changes.push(`Etiqueta reemplazada: ${from} → ${to}`);
+  }
+  const replacedFrom = Object.keys(replaced);
+  const replacedTo = Object.values(replaced);
+  for (const r of after.productRfids) {
+    if (!before.productRfids.includes(r) && !replacedTo.includes(r)) {
+      changes.push(`Producto agregado: ${r}`);
+    }
+  }
+  for (const r of before.productRfids) {
+    if (!after.productRfids.includes(r) && !replacedFrom.includes(r)) {
+      changes.push(`Producto quitado: ${r}`);
+    }
+  }
+  return changes;
+}
+
+/** Fecha local YYYY-MM-DD. */
+function localDate(d: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+}
+
+/**
+ * Estado de caducidad de una fecha YYYY-MM-DD: caducado a partir del día siguiente a la fecha,
+ * "por caducar" si vence dentro de `warningDays` días. Sin fecha = ok.
+ */
+export function expiryState(
+  expiryDate: string | undefined,
+  warningDays: number,
+  today = new Date()
+): ExpiryState {
+  if (!expiryDate) return 'ok';
+  if (expiryDate < localDate(today)) return 'expired';
+  const limit = new Date(today);
+  limit.setDate(limit.getDate() + warningDays);
+  return expiryDate <= localDate(limit) ? 'warning' : 'ok';
+}
+
+/** Cambios locales que aún no llegan al gateway. */
+interface PendingChanges {
+  /** IDs creados o modificados. */
+  dirty: string[];
+  /** Maletas borradas y cuándo (para compararlo con `updatedAt` del gateway). */
+  deleted: { id: string; deletedAt: string }[];
+}
+
+/** a es posterior a b (fechas ISO; sin fecha cuenta como la más antigua). */
+function isNewer(a: string | undefined, b: string | undefined): boolean {
+  return (a ?? '') > (b ?? '');
+}
+
+/** Contenido comparable de una maleta, sin la marca de modificación. */
+function snapshot(m: MaletaItem): string {
+  return JSON.stringify({ ...m, updatedAt: undefined });
+}
+
+/** Campos que no cuentan como cambio para la bitácora de auditoría. */
+const UNAUDITED_FIELDS = new Set(['updatedAt', 'history']);
+
+/** Solo los campos que cambiaron, con su valor antes y después. */
+function changedFields(
+  before: MaletaItem,
+  after: MaletaItem
+): { before: Record<string, unknown>; after: Record<string, unknown> } {
+  const b = before as unknown as Record<string, unknown>;
+  const a = after as unknown as Record<string, unknown>;
+  const diff = { before: {} as Record<string, unknown>, after: {} as Record<string, unknown> };
+  for (const key of new Set([...Object.keys(b), ...Object.keys(a)])) {
+    if (UNAUDITED_FIELDS.has(key) || JSON.stringify(b[key]) === JSON.stringify(a[key])) continue;
+    diff.before[key] = b[key];
+    diff.after[key] = a[key];
+  }
+  return diff;
+}
+
+/**
+ * Maletas; las comparten la pantalla Maleta y Preparación de cirugía. Se guardan en
+ * `/api/maletas` del gateway y localStorage queda como caché sin conexión. Los cambios hechos
+ * sin conexión se envían al reconectar; si la misma maleta cambió en otra estación, gana la
+ * versión con `updatedAt` más reciente.
+ */
+@Injectable({ providedIn: 'root' })
+export class MaletaStore {
+  private readonly maletasSubject = new BehaviorSubject<MaletaItem[]>([]);
+  private readonly syncStateSubject = new BehaviorSubject<MaletaSyncState>('local');
+  private warningDays = DEFAULT_EXPIRY_WARNING_DAYS;
+  /** Última versión guardada de cada maleta, para detectar qué cambió en `save`. */
+  private snapshots = new Map<string, string>();
+  private dirty = new Set<string>();
+  private deleted = new Map<string, string>();
+  private pushing = false;
+  private pushAgain = false;
+
+  readonly maletas$: Observable<MaletaItem[]> = this.maletasSubject.asObservable();
+  readonly syncState$: Observable<MaletaSyncState> = this.syncStateSubject.asObservable();
+
+  constructor(
+    private api: RfidApi,
+    private remote: RestMaletaRepository,
+    private cache: LocalMaletaRepository,
+    private audit: AuditStore,
+    realtime: RfidRealtime
+  ) {
+    this.load();
+    this.sync().subscribe();
+    /* Al recuperar la red o la conexión en tiempo real con el gateway, se sincroniza de nuevo. */
+    window.addEventListener('online', () => this.sync().subscribe());
+    realtime.state$
+      .pipe(
+        distinctUntilChanged(),
+        filter((state) => state === 'open')
+      )
+      .subscribe(() => this.sync().subscribe());
+  }
+
+  get maletas(): MaletaItem[] {
+    return this.maletasSubject.value;
+  }
+
+  /** Días antes de la caducidad en que un producto pasa a "por caducar". */
+  get expiryWarningDays(): number {
+    return this.warningDays;
+  }
+
+  setExpiryWarningDays(days: number): void {
+    if (!Number.isFinite(days) || days < 0) return;
+    this.warningDays = Math.floor(days);
+    try {
+      localStorage.setItem(EXPIRY_WARNING_DAYS_KEY, String(this.warningDays));
+    } catch {}
+  }
+
+  get syncState(): MaletaSyncState {
+    return this.syncStateSubject.value;
+  }
+
+  /** Cambios (altas, ediciones y bajas) que el gateway aún no tiene. */
+  get pendingCount(): number {
+    return this.dirty.size + this.deleted.size;
+  }
+
+  get(id: string): MaletaItem | undefined {
+    return this.maletas.find((m) => m.id === id);
+  }
+
+  /** EPCs de una maleta (nueva o en edición) que ya pertenecen a otra maleta. */
+  epcConflicts(masterRfid: string, productRfids: string[], editingId?: string): EpcConflict[] {
+    const conflicts: EpcConflict[] = [];
+    const master = masterRfid.trim();
+    const products = productRfids.map((r) => r.trim()).filter(Boolean);
+    for (const other of this.maletas) {
+      if (other.id === editingId) continue;
+      const otherMaster = other.masterRfid.trim();
+      const otherProducts = other.productRfids.map((r) => r.trim());
+      for (const epc of [master, ...products]) {
+        if (!epc) continue;
+        const isOtherMaster = epc === otherMaster;
+        if (!isOtherMaster && !otherProducts.includes(epc)) continue;
+        conflicts.push({
+          epc,
+          maletaId: other.id,
+          maletaLabel: maletaLabel(other),
+          asMaster: isOtherMaster || epc === master,
+        });
+      }
+    }
+    return conflicts;
+  }
+
+  /**
+   * Reemplaza la lista completa y la guarda. Las maletas nuevas o modificadas reciben
+   * `updatedAt` y, junto con las borradas, se envían al gateway.
+   */
+  save(list: MaletaItem[]): void {
+    const now = new Date().toISOString();
+    const ids = new Set(list.map((m) => m.id));
+    for (const m of list) {
+      const previous = this.snapshots.get(m.id);
+      if (previous === snapshot(m)) continue;
+      this.auditChange(previous ? JSON.parse(previous) : null, m);
+      m.updatedAt = now;
+      this.dirty.add(m.id);
+      this.deleted.delete(m.id);
+    }
+    for (const [id, previous] of this.snapshots) {
+      if (ids.has(id)) continue;
+      this.auditChange(JSON.parse(previous), null);
+      this.dirty.delete(id);
+      this.deleted.set(id, now);
+    }
+    this.setList(list);
+    this.savePending();
+    this.push();
+  }
+
+  /**
+   * Alta, baja o edición en la bitácora. Si solo cambiaron las marcas de caducado se registra
+   * como 'product-expired'.
+   */
+  private auditChange(before: MaletaItem | null, after: MaletaItem | null): void {
+    const m = (after ?? before) as MaletaItem;
+    const target = { type: 'maleta' as const, id: m.id, label: maletaLabel(m) };
+    if (!before) {
+      this.audit.record('maleta-create', target, { after });
+    } else if (!after) {
+      this.audit.record('maleta-delete', target, { before });
+    } else {
+      const diff = changedFields(before, after);
+      const keys = Object.keys(diff.after);
+      if (keys.length === 0) return;
+      const action = keys.every((k) => k === 'expiredProductRfids')
+        ? 'product-expired'
+        : 'maleta-update';
+      this.audit.record(action, target, diff);
+    }
+  }
+
+  /**
+   * Trae la lista del gateway, la combina con los cambios locales y envía los pendientes.
+   * Sin gateway o sin conexión se queda con la caché local.
+   */
+  sync(): Observable<MaletaItem[]> {
+    if (!this.api.getBaseUrl()) {
+      this.syncStateSubject.next('local');
+      return of(this.maletas);
+    }
+    this.syncStateSubject.next('syncing');
+    return this.remote.list().pipe(
+      tap((list) => {
+        this.setList(this.merge(Array.isArray(list) ? list : []));
+        this.savePending();
+      }),
+      switchMap(() => this.pushPending()),
+      map(() => this.maletas),
+      catchError(() => {
+        this.syncStateSubject.next('pending');
+        return of(this.maletas);
+      })
+    );
+  }
+
+  /**
+   * Combina la lista del gateway con la local. Lo que no cambió aquí se toma del gateway
+   * (incluidas altas y bajas hechas en otra estación); si la maleta cambió en ambos lados,
+   * gana el `updatedAt` más reciente. Una baja local pierde si la maleta se editó después.
+   */
+  private merge(remoteList: MaletaItem[]): MaletaItem[] {
+    const local = new Map(this.maletas.map((m) => [m.id, m]));
+    const merged: MaletaItem[] = [];
+    for (const r of remoteList) {
+      const deletedAt = this.deleted.get(r.id);
+      if (deletedAt !== undefined) {
+        if (!isNewer(r.updatedAt, deletedAt)) continue;
+        this.deleted.delete(r.id);
+        merged.push(r);
+        continue;
+      }
+      const l = local.get(r.id);
+      local.delete(r.id);
+      if (l && this.dirty.has(r.id) && !isNewer(r.updatedAt, l.updatedAt)) {
+        merged.push(l);
+      } else {
+        this.dirty.delete(r.id);
+        merged.push(r);
+      }
+    }
+    const createdHere = [...local.values()].filter((m) => this.dirty.has(m.id));
+    return [...createdHere, ...merged];
+  }
+
+  /** Envía al gateway los pendientes; si ya hay un envío en curso, se repite al terminar. */
+  private push(): void {
+    if (!this.api.getBaseUrl()) {
+      this.syncStateSubject.next('local');
+      return;
+    }
+    if (this.pushing) {
+      this.pushAgain = true;
+      return;
+    }
+    this.pushing = true;
+    this.pushPending().subscribe(() => {
+      this.pushing = false;
+      if (this.pushAgain) {
+        this.pushAgain = false;
+        this.push();
+      }
+    });
+  }
+
+  /** Cada maleta se envía por separado: un error deja solo esa como pendiente. */
+  private pushPending(): Observable<void> {
+    const puts = [...this.dirty].map((id) => {
+      const maleta = this.get(id);
+      if (!maleta) {
+        this.dirty.delete(id);
+        return of(null);
+      }
+      return this.remote.put(maleta).pipe(
+        tap(() => {
+          if (this.get(id)?.updatedAt === maleta.updatedAt) this.dirty.delete(id);
+        }),
+        catchError(() => of(null))
+      );
+    });
+    const removes = [...this.deleted.keys()].map((id) =>
+      this.remote.remove(id).pipe(
+        tap(() => this.deleted.delete(id)),
+        catchError((e) => {
+          /* Ya no existe en el gateway: la baja está hecha. */
+          if (e?.status === 404) this.deleted.delete(id);
+          return of(null);
+        })
+      )
+    );
+    const requests = [...puts, ...removes];
+    return (requests.length > 0 ? forkJoin(requests) : of([])).pipe(
+      map(() => {
+        this.savePending();
+        this.syncStateSubject.next(this.pendingCount > 0 ? 'pending' : 'synced');
+      })
+    );
+  }
+
+  private setList(list: MaletaItem[]): void {
+    this.snapshots = new Map(list.map((m) => [m.id, snapshot(m)]));
+    this.maletasSubject.next(list);
+    this.cache.replaceAll(list);
+  }
+
+  private savePending(): void {
+    const pending: PendingChanges = {
+      dirty: [...this.dirty],
+      deleted: [...this.deleted].map(([id, deletedAt]) => ({ id, deletedAt })),
+    };
+    try {
+      localStorage.setItem(SYNC_PENDING_KEY, JSON.stringify(pending));
+    } catch {}
+  }
+
+  private load(): void {
+    try {
+      const days = localStorage.getItem(EXPIRY_WARNING_DAYS_KEY);
+      if (days !== null && Number(days) >= 0) this.warningDays = Number(days);
+    } catch {}
+    try {
+      const raw = localStorage.getItem(SYNC_PENDING_KEY);
+      const pending: PendingChanges | null = raw ? JSON.parse(raw) : null;
+      this.dirty = new Set(pending?.dirty ?? []);
+      this.deleted = new Map((pending?.deleted ?? []).map((d) => [d.id, d.deletedAt]));
+    } catch {}
+    const list = this.cache.read();
+    /* Maletas de antes de sincronizar con el gateway: nunca se enviaron. */
+    list.filter((m) => !m.updatedAt).forEach((m) => this.dirty.add(m.id));
+    this.snapshots = new Map(list.map((m) => [m.id, snapshot(m)]));
+    this.maletasSubject.next(list);
+  }
+}
@@ -0,0 +1,127 @@
+import { Injectable } from '@angular/core';
+import { BehaviorSubject, Observable } from 'rxjs';
+import { GatewayError, errorMessage } from './gateway-error';
+
+export type NotificationLevel = 'error' | 'warning' | 'success' | 'info';
+
+export interface AppNotification {
+  id: string;
+  level: NotificationLevel;
+  title: string;
+  message: string;
+  /** Método y URL de la petición, para errores del gateway. */
+  detail?: string;
+  /** Primera y última vez que se vio; los repetidos se agrupan. */
+  at: string;
+  lastAt: string;
+  count: number;
+  read: boolean;
+}
+
+const TOAST_MS: Record<NotificationLevel, number> = {
+  error: 8000,
+  warning: 6000,
+  success: 3000,
+  info: 4000,
+};
+const MAX_TOASTS = 4;
+const MAX_HISTORY = 50;
+
+function newId(): string {
+  return `ntf_${Date.now()}_${Math.random().toString(36).slice(2, 7)}`;
+}
+
+/**
+ * Avisos al usuario: toasts que se cierran solos y un historial de los últimos MAX_HISTORY
+ * en la barra superior. Un aviso igual a uno que sigue visible no abre otro toast, solo sube
+ * su contador (p. ej. el mismo 502 en varias peticiones seguidas).
+ */
+@Injectable({ providedIn: 'root' })
+export class NotificationStore {
+  private readonly toastsSubject = new BehaviorSubject<AppNotification[]>([]);
+  private readonly historySubject = new BehaviorSubject<AppNotification[]>([]);
+  private timers = new Map<string, ReturnType<typeof setTimeout>>();
+
+  /** Toasts visibles, el más reciente al final. */
+  readonly toasts$: Observable<AppNotification[]> = this.toastsSubject.asObservable();
+  /** Historial, el más reciente primero. */
+  readonly history$: Observable<AppNotification[]> = this.historySubject.asObservable();
+
+  get toasts(): AppNotification[] {
+    return this.toastsSubject.value;
+  }
+
+  get history(): AppNotification[] {
+    return this.historySubject.value;
+  }
+
+  get unreadCount(): number {
+    return this.history.filter((n) => !n.read).length;
+  }
+
+  /** Aviso de un error; con GatewayError el título dice qué tipo de falla fue. */
+  error(e: unknown, title?: string): AppNotification {
+    if (e instanceof GatewayError) {
+      return this.notify('error', title || e.title, e.message, `${e.method} ${e.url}`);
+    }
+    return this.notify('error', title || 'Error', errorMessage(e));
+  }
+
+  warning(title: string, message = ''): AppNotification {
+    return this.notify('warning', title, message);
+  }
+
+  success(title: string, message = ''): AppNotification {
+    return this.notify('success', title, message);
+  }
+
+  info(title: string, message = ''): AppNotification {
+    return this.notify('info', title, message);
+  }
+
+  dismiss(id: string): void {
+    clearTimeout(this.timers.get(id));
+    this.timers.delete(id);
+    this.toastsSubject.next(this.toasts.filter((n) => n.id !== id));
+  }
+
+  markAllRead(): void {
+    if (this.unreadCount === 0) return;
+    this.historySubject.next(this.history.map((n) => (n.read ? n : { ...n, read: true })));
+  }
+
+  clearHistory(): void {
+    this.historySubject.next([]);
+  }
+
+  private notify(
+    level: NotificationLevel,
+    title: string,
+    message: string,
+    detail?: string
+  ): AppNotification {
+    const now = new Date().toISOString();
+    const same = (n: AppNotification) =>
+      n.level === level && n.title === title && n.message === message;
+    const visible = this.toasts.find(same);
+    const notification: AppNotification = visible
+      ? { ...visible, detail, lastAt: now, count: visible.count + 1, read: false }
+      : { id: newId(), level, title, message, detail, at: now, lastAt: now, count: 1, read: false };
+
+    const toasts = this.toasts.filter((n) => n.id !== notification.id);
+    for (const old of toasts.splice(0, Math.max(0, toasts.length - MAX_TOASTS + 1))) {
+      clearTimeout(this.timers.get(old.id));
+      this.timers.delete(old.id);
+    }
+    this.toastsSubject.next([...toasts, notification]);
+    clearTimeout(this.timers.get(notification.id));
+    this.timers.set(
+      notification.id,
+      setTimeout(() => this.dismiss(notification.id), TOAST_MS[level])
+    );
+
+    const history = this.history.filter((n) => n.id !== notification.id);
+    this.historySubject.next([notification, ...history].slice(0, MAX_HISTORY));
+    return notification;
+  }
+}
@@ -0,0 +1,239 @@
+import { Injectable } from '@angular/core';
+import { BehaviorSubject, Observable } from 'rxjs';
+import { readMatchesReader, RealtimeHandle, RfidRealtime } from './rfid-realtime';
+import { TagReadEvent } from './tag-read-event';
+
+/** Pantalla desde la que se inició la lectura. */
+export type ReadSessionSource = 'lectura' | 'maleta' | 'home';
+
+export interface ReadSessionTag {
+  epc: string;
+  count: number;
+  antennas: number[];
+  rssiAvg: number | null;
+  firstSeen: string;
+  lastSeen: string;
+}
+
+/** Resultado del semáforo de una maleta al detener la lectura. */
+export interface MaletaOutcome {
+  maletaId: string;
+  masterRfid: string;
+  status: string;
+  productsRead: number;
+  productsTotal: number;
+}
+
+export interface ReadSession {
+  id: string;
+  source: ReadSessionSource;
+  readerId: string;
+  readerName: string;
+  startedAt: string;
+  stoppedAt: string | null;
+  antennas: number[];
+  totalReads: number;
+  uniqueTags: number;
+  tags: ReadSessionTag[];
+  /** Solo en sesiones de Maleta. */
+  maletaOutcomes?: MaletaOutcome[];
+  generalStatus?: string;
+  /** True si el semáforo se calculó con lectura simulada y no con el túnel. */
+  simulated?: boolean;
+}
+
+/** Extras que aporta la pantalla al cerrar la sesión. */
+export type ReadSessionExtras = Pick<ReadSession, 'maletaOutcomes' | 'generalStatus' | 'simulated'>;
+
+const ACTIVE_SESSIONS_KEY = 'read_sessions_active';
+const SESSIONS_KEY = 'read_sessions';
+/** Límite de sesiones guardadas en localStorage (las más antiguas se descartan). */
+const MAX_SESSIONS = 200;
+/** Las lecturas llegan en ráfagas: la sesión abierta se guarda agrupando escrituras. */
+const SAVE_DEBOUNCE_MS = 2000;
+
+interface TagAccumulator {
+  epc: string;
+  count: number;
+  antennas: number[];
+  rssiSum: number;
+  rssiSamples: number;
+  firstSeen: string;
+  lastSeen: string;
+}
+
+interface ActiveSession {
+  session: ReadSession;
+  tags: Record<string, TagAccumulator>;
+}
+
+/**
+ * Historial de sesiones de lectura. La sesión vive en el servicio (no en el componente),
+ * así las lecturas no se pierden al navegar entre páginas mientras el lector sigue leyendo.
+ */
+@Injectable({ providedIn: 'root' })
+export class ReadSessionStore {
+  private active: Record<string, ActiveSession> = {};
+  private saveTimer: ReturnType<typeof setTimeout> | null = null;
+  /** Handle del stream mientras haya alguna sesión abierta. */
+  private stream: RealtimeHandle | null = null;
+  private readonly sessionsSubject = new BehaviorSubject<ReadSession[]>([]);
+
+  /** Sesiones terminadas, de la más reciente a la más antigua. */
+  readonly sessions$: Observable<ReadSession[]> = this.sessionsSubject.asObservable();
+
+  constructor(private realtime: RfidRealtime) {
+    this.load();
+    realtime.tagReads$.subscribe((read) => this.onRead(read));
+    this.holdStream();
+  }
+
+  get sessions(): ReadSession[] {
+    return this.sessionsSubject.value;
+  }
+
+  isActive(readerId: string): boolean {
+    return !!this.active[readerId];
+  }
+
+  activeSession(readerId: string): ReadSession | null {
+    return this.active[readerId]?.session ?? null;
+  }
+
+  /** Abre una sesión para el lector; si ya hay una abierta la conserva. */
+  start(source: ReadSessionSource, readerId: string, readerName = ''): void {
+    if (!readerId || this.active[readerId]) return;
+    this.active[readerId] = {
+      session: {
+        id: `sesion_${Date.now()}_${readerId}`,
+        source,
+        readerId,
+        readerName: readerName || readerId,
+        startedAt: new Date().toISOString(),
+        stoppedAt: null,
+        antennas: [],
+        totalReads: 0,
+        uniqueTags: 0,
+        tags: [],
+      },
+      tags: {},
+    };
+    this.saveActive();
+    this.holdStream();
+  }
+
+  /** Cierra la sesión del lector y la guarda en el historial. */
+  stop(readerId: string, extras: ReadSessionExtras = {}): ReadSession | null {
+    const a = this.active[readerId];
+    if (!a) return null;
+    delete this.active[readerId];
+    const session: ReadSession = {
+      ...a.session,
+      ...extras,
+      stoppedAt: new Date().toISOString(),
+      tags: Object.values(a.tags).map((t) => ({
+        epc: t.epc,
+        count: t.count,
+        antennas: [...t.antennas].sort((x, y) => x - y),
+        rssiAvg: t.rssiSamples ? t.rssiSum / t.rssiSamples : null,
+        firstSeen: t.firstSeen,
+        lastSeen: t.lastSeen,
+      })),
+    };
+    session.antennas.sort((x, y) => x - y);
+    this.sessionsSubject.next([session, ...this.sessions].slice(0, MAX_SESSIONS));
+    this.saveSessions();
+    this.saveActive();
+    this.holdStream();
+    return session;
+  }
+
+  remove(id: string): void {
+    this.sessionsSubject.next(this.sessions.filter((s) => s.id !== id));
+    this.saveSessions();
+  }
+
+  /**
+   * Las sesiones abiertas siguen recibiendo lecturas aunque se cierre la pantalla que las
+   * inició, así que el servicio mantiene el stream mientras haya alguna.
+   */
+  private holdStream(): void {
+    const open = Object.keys(this.active).length > 0;
+    if (open && !this.stream) {
+      this.stream = this.realtime.acquire();
+    } else if (!open && this.stream) {
+      this.stream.release();
+      this.stream = null;
+    }
+  }
+
+  private onRead(read: TagReadEvent): void {
+    for (const a of Object.values(this.active)) {
+      if (!readMatchesReader(read, a.session.readerId)) continue;
+      this.scheduleSave();
+      const at = read.timestamp.toISOString();
+      let t = a.tags[read.epc];
+      if (!t) {
+        t = {
+          epc: read.epc,
+          count: 0,
+          antennas: [],
+          rssiSum: 0,
+          rssiSamples: 0,
+          firstSeen: at,
+          lastSeen: at,
+        };
+        a.tags[read.epc] = t;
+        a.session.uniqueTags++;
+      }
+      t.count++;
+      t.lastSeen = at;
+      a.session.totalReads++;
+      if (read.antennaPort !== null) {
+        if (!t.antennas.includes(read.antennaPort)) t.antennas.push(read.antennaPort);
+        if (!a.session.antennas.includes(read.antennaPort)) a.session.antennas.push(read.antennaPort);
+      }
+      if (read.rssi !== null) {
+        t.rssiSum += read.rssi;
+        t.rssiSamples++;
+      }
+    }
+  }
+
+  private load(): void {
+    try {
+      const raw = localStorage.getItem(SESSIONS_KEY);
+      this.sessionsSubject.next(raw ? JSON.parse(raw) : []);
+    } catch {
+      this.sessionsSubject.next([]);
+    }
+    try {
+      const raw = localStorage.getItem(ACTIVE_SESSIONS_KEY);
+      this.active = raw ? JSON.parse(raw) : {};
+    } catch {
+      this.active = {};
+    }
+  }
+
+  private saveSessions(): void {
+    try {
+      localStorage.setItem(SESSIONS_KEY, JSON.stringify(this.sessions));
+    } catch {}
+  }
+
+  private scheduleSave(): void {
+    if (this.saveTimer) return;
+    this.saveTimer = setTimeout(() => this.saveActive(), SAVE_DEBOUNCE_MS);
+  }
+
+  /** Las sesiones abiertas también se guardan para no perderlas si se recarga la página. */
+  private saveActive(): void {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+    }
+    try {
+      localStorage.setItem(ACTIVE_SESSIONS_KEY, JSON.stringify(this.active));
+    } catch {}
+  }
+}
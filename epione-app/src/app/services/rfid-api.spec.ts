@@ -0,0 +1,195 @@
+import { createEnvironmentInjector, EnvironmentInjector } from '@angular/core';
+import { TestBed } from '@angular/core/testing';
+import { provideHttpClient } from '@angular/common/http';
+import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing';
+import { AuditStore } from './audit-store';
+import { GatewayProfile, GatewayProfileStore } from './gateway-profile-store';
+import { SILENT_ERRORS } from './gateway-error-interceptor';
+import { antennaPort, RfidApi } from './rfid-api';
+import { provideGatewayPage } from './rfid-realtime';
+
+const BASE = 'http://gw.test';
+
+function setup(profile: Partial<GatewayProfile> = {}) {
+  const p: GatewayProfile = { id: 'gw1', label: 'Prueba', url: BASE, authMode: 'none', ...profile };
+  localStorage.setItem('gateway_profiles', JSON.stringify([p]));
+  localStorage.setItem('gateway_active_profile', p.id);
+  TestBed.configureTestingModule({
+    providers: [provideHttpClient(), provideHttpClientTesting()],
+  });
+  return {
+    api: TestBed.inject(RfidApi),
+    http: TestBed.inject(HttpTestingController),
+    audit: TestBed.inject(AuditStore),
+  };
+}
+
+describe('RfidApi', () => {
+  beforeEach(() => localStorage.clear());
+  afterEach(() => TestBed.inject(HttpTestingController).verify());
+
+  it('arma las URLs con la base del perfil en uso', () => {
+    const { api, http } = setup();
+    api.getReaders().subscribe();
+    api.getReader('r1').subscribe();
+    api.getAntennas().subscribe();
+    http.expectOne({ method: 'GET', url: `${BASE}/api/readers` }).flush([]);
+    http.expectOne({ method: 'GET', url: `${BASE}/api/readers/r1` }).flush({ id: 'r1' });
+    http.expectOne({ method: 'GET', url: `${BASE}/api/antennas` }).flush([]);
+  });
+
+  it('sin token en el perfil no manda Authorization (lo pone authInterceptor)', () => {
+    const { api, http } = setup();
+    api.getReaders().subscribe();
+    const req = http.expectOne(`${BASE}/api/readers`);
+    expect(req.request.headers.has('Authorization')).toBe(false);
+    req.flush([]);
+  });
+
+  it('con perfil bearer manda el token fijo', () => {
+    const { api, http } = setup({ authMode: 'bearer', token: ' abc ' });
+    api.getAntenna('a1').subscribe();
+    const req = http.expectOne(`${BASE}/api/antennas/a1`);
+    expect(req.request.headers.get('Authorization')).toBe('Bearer abc');
+    req.flush({ id: 'a1' });
+  });
+
+  it('el sondeo de estado no abre toast', () => {
+    const { api, http } = setup();
+    api.getReaderStatus('r1').subscribe();
+    const req = http.expectOne(`${BASE}/api/readers/r1/status`);
+    expect(req.request.context.get(SILENT_ERRORS)).toBe(true);
+    req.flush({ connected: true });
+  });
+
+  it('manda el cuerpo al actualizar una antena', () => {
+    const { api, http } = setup();
+    api.updateAntenna('a1', { txPowerDbm: 20 }).subscribe();
+    const req = http.expectOne({ method: 'PUT', url: `${BASE}/api/antennas/a1` });
+    expect(req.request.body).toEqual({ txPowerDbm: 20 });
+    req.flush({ id: 'a1', txPowerDbm: 20 });
+  });
+
+  describe('auditoría', () => {
+    it('registra la acción de control con el gateway', () => {
+      const { api, http, audit } = setup();
+      api.resetReader('r1').subscribe();
+      http.expectOne({ method: 'POST', url: `${BASE}/api/readers/r1/reset` }).flush({});
+      expect(audit.entries[0]).toMatchObject({
+        action: 'reader-reset',
+        target: { type: 'reader', id: 'r1' },
+        gateway: BASE,
+        ok: true,
+      });
+    });
+
+    it('registra también el intento fallido', () => {
+      const { api, http, audit } = setup();
+      api.rebootReader('r1').subscribe({ error: () => {} });
+      http
+        .expectOne(`${BASE}/api/readers/r1/reboot`)
+        .flush({ message: 'Lector ocupado' }, { status: 409, statusText: 'Conflict' });
+      expect(audit.entries[0]).toMatchObject({
+        action: 'reader-reboot',
+        ok: false,
+        error: 'Lector ocupado',
+      });
+    });
+
+    it('al arrancar guarda el estado real del lector antes de la acción', () => {
+      const { api, http, audit } = setup();
+      api.startReader('r1').subscribe();
+      http.expectOne(`${BASE}/api/readers/r1/status`).flush({ connected: true, reading: true });
+      http.expectOne({ method: 'POST', url: `${BASE}/api/readers/r1/start` }).flush({});
+      expect(audit.entries[0]).toMatchObject({
+        action: 'reader-start',
+        before: { connected: true, reading: true },
+        ok: true,
+      });
+      expect(audit.entries[0].after).toBeUndefined();
+    });
+
+    it('si no se puede leer el estado detiene igual y no inventa el anterior', () => {
+      const { api, http, audit } = setup();
+      api.stopReader('r1').subscribe();
+      http
+        .expectOne(`${BASE}/api/readers/r1/status`)
+        .flush(null, { status: 404, statusText: 'Not Found' });
+      http.expectOne({ method: 'POST', url: `${BASE}/api/readers/r1/stop` }).flush({});
+      expect(audit.entries[0]).toMatchObject({ action: 'reader-stop', ok: true });
+      expect(audit.entries[0].before).toBeUndefined();
+    });
+
+    it('guarda los valores anteriores y los nuevos de la antena', () => {
+      const { api, http, audit } = setup();
+      api.updateAntenna('a1', { txPowerDbm: 20 }, { txPowerDbm: 25 }).subscribe();
+      http.expectOne(`${BASE}/api/antennas/a1`).flush({});
+      expect(audit.entries[0]).toMatchObject({
+        action: 'antenna-update',
+        target: { type: 'antenna', id: 'a1' },
+        before: { txPowerDbm: 25 },
+        after: { txPowerDbm: 20 },
+      });
+    });
+
+    it('las lecturas no se auditan', () => {
+      const { api, http, audit } = setup();
+      api.getReaders().subscribe();
+      http.expectOne(`${BASE}/api/readers`).flush([]);
+      expect(audit.entries).toEqual([]);
+    });
+  });
+
+  describe('perfil fijado en una pantalla', () => {
+    it('solo lo usa la instancia de la pantalla; la de raíz sigue en el global', () => {
+      const { api } = setup();
+      const profiles = TestBed.inject(GatewayProfileStore);
+      const other = profiles.add({ label: 'Túnel', url: 'gw2.test', authMode: 'none' });
+      profiles.pin('maleta', other.id);
+      const page = createEnvironmentInjector(
+        provideGatewayPage('maleta'),
+        TestBed.inject(EnvironmentInjector)
+      ).get(RfidApi);
+      expect(page.getBaseUrl()).toBe('http://gw2.test');
+      expect(api.getBaseUrl()).toBe(BASE);
+
+      profiles.pin('maleta', null);
+      expect(page.getBaseUrl()).toBe(BASE);
+    });
+  });
+
+  describe('URLs de stream', () => {
+    it('SSE lleva filtros, lastEventId y el token codificado', () => {
+      const { api } = setup({ authMode: 'bearer', token: 'a+b/c=' });
+      const url = new URL(api.getRealtimeEventsUrl('r 1', '2', '41'));
+      expect(url.origin + url.pathname).toBe(`${BASE}/api/realtime/events`);
+      expect(url.searchParams.get('readerId')).toBe('r 1');
+      expect(url.searchParams.get('antenna')).toBe('2');
+      expect(url.searchParams.get('lastEventId')).toBe('41');
+      expect(url.searchParams.get('access_token')).toBe('a+b/c=');
+    });
+
+    it('SSE sin filtros ni token no lleva query', () => {
+      const { api } = setup();
+      expect(api.getRealtimeEventsUrl()).toBe(`${BASE}/api/realtime/events`);
+    });
+
+    it('WebSocket cambia el esquema y codifica el token', () => {
+      const { api } = setup({ url: 'https://gw.test', authMode: 'bearer', token: 'x&y=z' });
+      expect(api.getWebSocketUrl()).toBe('wss://gw.test/ws/events?access_token=x%26y%3Dz');
+    });
+
+    it('WebSocket sin token no lleva query', () => {
+      const { api } = setup();
+      expect(api.getWebSocketUrl()).toBe('ws://gw.test/ws/events');
+    });
+  });
+});
+
+describe('antennaPort', () => {
+  it('usa port si viene y si no el número final del id', () => {
+    expect(antennaPort({ id: 'reader1-ant3', port: 7 })).toBe(7);
+    expect(antennaPort({ id: 'reader1-ant3' })).toBe(3);
+    expect(antennaPort({ id: 'principal' })).toBeNull();
+  });
+});
@@ -1,7 +1,18 @@
-import { Injectable } from '@angular/core';
-import { HttpClient } from '@angular/common/http';
-import { Observable } from 'rxjs';
-import { environment } from '../../environments/environment';
+import { Inject, Injectable, OnDestroy, Optional } from '@angular/core';
+import { HttpClient, HttpContext, HttpHeaders } from '@angular/common/http';
+import { Observable, of, Subscription } from 'rxjs';
+import { catchError, map, switchMap, tap } from 'rxjs/operators';
+import type { MaletaItem } from './maleta-store';
+import {
+  GATEWAY_PAGE,
+  GatewayPage,
+  GatewayProfile,
+  GatewayProfileStore,
+} from './gateway-profile-store';
+import { AuthStore } from './auth-store';
+import { AuditAction, AuditStore, AuditTarget } from './audit-store';
+import { errorMessage } from './gateway-error';
+import { SILENT_ERRORS } from './gateway-error-interceptor';
 
 export interface Reader {
   id: string;
@@ -13,6 +24,8 @@ export interface Antenna {
   id: string;
   readerId?: string;
   name?: string;
+  /** Puerto físico en el lector (el mismo que `antennaPort` en los eventos). */
+  port?: number;
   enabled?: boolean;
   txPowerDbm?: number;
   rxSensitivityDbm?: number;
@@ -25,99 +38,256 @@ export interface ReaderStatus {
   [key: string]: unknown;
 }
 
-const API_BASE_KEY = 'rfid_api_base_url';
+export type SurgeryStatus = 'PROGRAMADA' | 'EN_PROCESO' | 'FINALIZADA' | 'CANCELADA';
 
+/** Evidencia de que una maleta pasó por el túnel completa (semáforo verde). */
+export interface MaletaVerification {
+  maletaId: string;
+  masterRfid: string;
+  verificadaEn: string;
+  readerId: string;
+}
+
+export interface Surgery {
+  /** Número del gateway; `local-N` si se creó sin conexión y aún no se envía. */
+  id: number | string;
+  paciente: string;
+  procedimiento: string;
+  estado: SurgeryStatus;
+  /** Fecha y hora programada, formato YYYY-MM-DDTHH:mm (hora local). */
+  fecha: string;
+  quirofano?: string;
+  notas?: string;
+  /** Maletas asignadas (IDs de MaletaItem) y su verificación en el túnel. */
+  maletaIds?: string[];
+  verificaciones?: MaletaVerification[];
+  actualizadoEn?: string;
+}
+
+/** Puerto de la antena: `port` si el gateway lo envía, si no el número final del ID (p. ej. `reader1-ant3`). */
+export function antennaPort(a: Antenna): number | null {
+  if (typeof a.port === 'number') return a.port;
+  const m = /(\d+)$/.exec(a.id || '');
+  return m ? Number(m[1]) : null;
+}
+
+/**
+ * Cliente REST del gateway del perfil global (ver `GatewayProfileStore`); la instancia propia de
+ * una pantalla (`provideGatewayPage`) usa el perfil fijado en ella. Si el perfil tiene token
+ * fijo va en cada petición; si no, `authInterceptor` agrega el de la sesión.
+ */
 @Injectable({ providedIn: 'root' })
-export class RfidApi {
-  private baseUrl = '';
+export class RfidApi implements OnDestroy {
+  private profile: GatewayProfile | null = null;
+  private readonly profileSub: Subscription;
 
-  constructor(private http: HttpClient) {
-    const raw = localStorage.getItem(API_BASE_KEY) || environment.rfidGatewayUrl || '';
-    this.baseUrl = this.ensureAbsoluteUrl(raw);
-    if (this.baseUrl && raw !== this.baseUrl) {
-      localStorage.setItem(API_BASE_KEY, this.baseUrl);
-    }
+  constructor(
+    private http: HttpClient,
+    profiles: GatewayProfileStore,
+    private auth: AuthStore,
+    private audit: AuditStore,
+    @Optional() @Inject(GATEWAY_PAGE) page: GatewayPage | null
+  ) {
+    this.profileSub = profiles.profileFor$(page).subscribe((p) => (this.profile = p));
   }
 
-  private ensureAbsoluteUrl(url: string): string {
-    if (!url.trim()) return '';
-    const u = url.replace(/\/$/, '').trim();
-    if (u.startsWith('http://') || u.startsWith('https://')) return u;
-    return `http://${u}`;
+  ngOnDestroy(): void {
+    this.profileSub.unsubscribe();
   }
 
-  setBaseUrl(url: string): void {
-    this.baseUrl = this.ensureAbsoluteUrl(url);
-    localStorage.setItem(API_BASE_KEY, this.baseUrl);
+  getBaseUrl(): string {
+    return this.profile?.url ?? '';
   }
 
-  getBaseUrl(): string {
-    return this.baseUrl;
+  private get token(): string {
+    return this.profile?.authMode === 'bearer' ? this.profile.token?.trim() || '' : '';
+  }
+
+  /** SSE y WebSocket no pasan por el interceptor: token del perfil o, si no, el de la sesión. */
+  private get streamToken(): string {
+    return this.token || this.auth.accessToken;
+  }
+
+  private get options(): { headers?: HttpHeaders } {
+    const token = this.token;
+    return token ? { headers: new HttpHeaders({ Authorization: `Bearer ${token}` }) } : {};
   }
 
   private url(path: string): string {
-    return `${this.baseUrl}${path}`;
+    return `${this.getBaseUrl()}${path}`;
+  }
+
+  /** Acciones de control: quedan en la bitácora de auditoría, salgan bien o no. */
+  private audited<T>(
+    action: AuditAction,
+    target: AuditTarget,
+    request: Observable<T>,
+    values: { before?: unknown; after?: unknown } = {}
+  ): Observable<T> {
+    const gateway = this.getBaseUrl();
+    return request.pipe(
+      tap({
+        next: () => this.audit.record(action, target, { ...values, gateway }),
+        error: (e) =>
+          this.audit.record(action, target, {
+            ...values,
+            gateway,
+            error: errorMessage(e),
+          }),
+      })
+    );
   }
 
   getReaders(): Observable<Reader[]> {
-    return this.http.get<Reader[]>(this.url('/api/readers'));
+    return this.http.get<Reader[]>(this.url('/api/readers'), this.options);
   }
 
   getReader(id: string): Observable<Reader> {
-    return this.http.get<Reader>(this.url(`/api/readers/${id}`));
+    return this.http.get<Reader>(this.url(`/api/readers/${id}`), this.options);
   }
 
+  /** Se consulta en sondeo; un fallo deja el estado vacío en pantalla, sin toast. */
   getReaderStatus(id: string): Observable<ReaderStatus> {
-    return this.http.get<ReaderStatus>(this.url(`/api/readers/${id}/status`));
+    return this.http.get<ReaderStatus>(this.url(`/api/readers/${id}/status`), {
+      ...this.options,
+      context: new HttpContext().set(SILENT_ERRORS, true),
+    });
   }
 
+  /**
+   * Antes de arrancar o detener se consulta el estado del lector para que la bitácora guarde el
+   * real; si la consulta falla la acción sigue y el registro queda sin `before`.
+   */
   startReader(id: string): Observable<unknown> {
-    return this.http.post(this.url(`/api/readers/${id}/start`), {});
+    return this.statusForAudit(id).pipe(
+      switchMap((before) =>
+        this.audited(
+          'reader-start',
+          { type: 'reader', id },
+          this.http.post(this.url(`/api/readers/${id}/start`), {}, this.options),
+          { before }
+        )
+      )
+    );
   }
 
   stopReader(id: string): Observable<unknown> {
-    return this.http.post(this.url(`/api/readers/${id}/stop`), {});
+    return this.statusForAudit(id).pipe(
+      switchMap((before) =>
+        this.audited(
+          'reader-stop',
+          { type: 'reader', id },
+          this.http.post(this.url(`/api/readers/${id}/stop`), {}, this.options),
+          { before }
+        )
+      )
+    );
+  }
+
+  private statusForAudit(
+    id: string
+  ): Observable<Pick<ReaderStatus, 'connected' | 'reading'> | undefined> {
+    return this.getReaderStatus(id).pipe(
+      map((s) => ({ connected: s?.connected, reading: s?.reading })),
+      catchError(() => of(undefined))
+    );
   }
 
   resetReader(id: string): Observable<unknown> {
-    return this.http.post(this.url(`/api/readers/${id}/reset`), {});
+    return this.audited(
+      'reader-reset',
+      { type: 'reader', id },
+      this.http.post(this.url(`/api/readers/${id}/reset`), {}, this.options)
+    );
   }
 
   rebootReader(id: string): Observable<unknown> {
-    return this.http.post(this.url(`/api/readers/${id}/reboot`), {});
+    return this.audited(
+      'reader-reboot',
+      { type: 'reader', id },
+      this.http.post(this.url(`/api/readers/${id}/reboot`), {}, this.options)
+    );
   }
 
   resetReaderAntennas(id: string): Observable<unknown> {
-    return this.http.post(this.url(`/api/readers/${id}/antennas/reset`), {});
+    return this.audited(
+      'antennas-reset',
+      { type: 'reader', id },
+      this.http.post(this.url(`/api/readers/${id}/antennas/reset`), {}, this.options)
+    );
   }
 
   getAntennas(): Observable<Antenna[]> {
-    return this.http.get<Antenna[]>(this.url('/api/antennas'));
+    return this.http.get<Antenna[]>(this.url('/api/antennas'), this.options);
   }
 
   getAntenna(id: string): Observable<Antenna> {
-    return this.http.get<Antenna>(this.url(`/api/antennas/${id}`));
+    return this.http.get<Antenna>(this.url(`/api/antennas/${id}`), this.options);
   }
 
   resetAntenna(antennaId: string): Observable<unknown> {
-    return this.http.post(this.url(`/api/antennas/${antennaId}/reset`), {});
+    return this.audited(
+      'antenna-reset',
+      { type: 'antenna', id: antennaId },
+      this.http.post(this.url(`/api/antennas/${antennaId}/reset`), {}, this.options)
+    );
+  }
+
+  /** `before` son los valores que se reemplazan, para la bitácora. */
+  updateAntenna(id: string, body: Partial<Antenna>, before?: unknown): Observable<Antenna> {
+    return this.audited(
+      'antenna-update',
+      { type: 'antenna', id },
+      this.http.put<Antenna>(this.url(`/api/antennas/${id}`), body, this.options),
+      { before, after: body }
+    );
+  }
+
+  getSurgeries(): Observable<Surgery[]> {
+    return this.http.get<Surgery[]>(this.url('/api/surgeries'), this.options);
+  }
+
+  createSurgery(body: Omit<Surgery, 'id'>): Observable<Surgery> {
+    return this.http.post<Surgery>(this.url('/api/surgeries'), body, this.options);
   }
 
-  updateAntenna(id: string, body: Partial<Antenna>): Observable<Antenna> {
-    return this.http.put<Antenna>(this.url(`/api/antennas/${id}`), body);
+  updateSurgery(id: Surgery['id'], body: Partial<Surgery>): Observable<Surgery> {
+    return this.http.put<Surgery>(this.url(`/api/surgeries/${id}`), body, this.options);
   }
 
-  getRealtimeEventsUrl(readerId?: string, antenna?: string): string {
+  getMaletas(): Observable<MaletaItem[]> {
+    return this.http.get<MaletaItem[]>(this.url('/api/maletas'), this.options);
+  }
+
+  putMaleta(maleta: MaletaItem): Observable<MaletaItem> {
+    return this.http.put<MaletaItem>(this.url(`/api/maletas/${maleta.id}`), maleta, this.options);
+  }
+
+  deleteMaleta(id: string): Observable<unknown> {
+    return this.http.delete(this.url(`/api/maletas/${id}`), this.options);
+  }
+
+  /**
+   * URL del stream SSE. `lastEventId` se manda como query param porque un EventSource
+   * nuevo no permite fijar la cabecera Last-Event-ID (solo la envía en sus reintentos internos).
+   * Por lo mismo el token va como `access_token`.
+   */
+  getRealtimeEventsUrl(readerId?: string, antenna?: string, lastEventId?: string): string {
     const params = new URLSearchParams();
     if (readerId) params.set('readerId', readerId);
     if (antenna) params.set('antenna', antenna);
+    if (lastEventId) params.set('lastEventId', lastEventId);
+    if (this.streamToken) params.set('access_token', this.streamToken);
     const qs = params.toString();
     return this.url('/api/realtime/events') + (qs ? `?${qs}` : '');
   }
 
   /** URL para WebSocket: ws://rfid.leyluz.com/ws/events */
   getWebSocketUrl(path = '/ws/events'): string {
-    const base = this.baseUrl.replace(/^http/, 'ws');
-    return base + path;
+    const base = this.getBaseUrl().replace(/^http/, 'ws');
+    const params = new URLSearchParams();
+    if (this.streamToken) params.set('access_token', this.streamToken);
+    const qs = params.toString();
+    return base + path + (qs ? `?${qs}` : '');
   }
 }
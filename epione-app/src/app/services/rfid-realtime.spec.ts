@@ -0,0 +1,303 @@
+import { createEnvironmentInjector, EnvironmentInjector } from '@angular/core';
+import { TestBed } from '@angular/core/testing';
+import { provideHttpClient } from '@angular/common/http';
+import { provideHttpClientTesting } from '@angular/common/http/testing';
+import { GatewayProfileStore } from './gateway-profile-store';
+import { provideGatewayPage, RfidRealtime } from './rfid-realtime';
+import { TagReadEvent } from './tag-read-event';
+
+/** EventSource de prueba: la prueba dispara open/error/mensajes a mano. */
+class FakeEventSource {
+  static instances: FakeEventSource[] = [];
+  onopen: (() => void) | null = null;
+  onerror: (() => void) | null = null;
+  onmessage: ((ev: MessageEvent) => void) | null = null;
+  closed = false;
+  private listeners = new Map<string, (ev: MessageEvent) => void>();
+
+  constructor(readonly url: string) {
+    FakeEventSource.instances.push(this);
+  }
+
+  addEventListener(type: string, handler: (ev: MessageEvent) => void): void {
+    this.listeners.set(type, handler);
+  }
+
+  close(): void {
+    this.closed = true;
+  }
+
+  emit(data: unknown, lastEventId = '', type = 'message'): void {
+    const ev = { data: JSON.stringify(data), lastEventId } as MessageEvent;
+    if (type === 'message') this.onmessage?.(ev);
+    else this.listeners.get(type)?.(ev);
+  }
+}
+
+class FakeWebSocket {
+  static instances: FakeWebSocket[] = [];
+  onopen: (() => void) | null = null;
+  onclose: (() => void) | null = null;
+  onmessage: ((ev: MessageEvent) => void) | null = null;
+  closed = false;
+
+  constructor(readonly url: string) {
+    FakeWebSocket.instances.push(this);
+  }
+
+  close(): void {
+    this.closed = true;
+  }
+
+  emit(data: unknown): void {
+    this.onmessage?.({ data: JSON.stringify(data) } as MessageEvent);
+  }
+}
+
+const lastSse = () => FakeEventSource.instances[FakeEventSource.instances.length - 1];
+const lastWs = () => FakeWebSocket.instances[FakeWebSocket.instances.length - 1];
+
+function setup(url = 'http://gw.test') {
+  if (url) {
+    localStorage.setItem(
+      'gateway_profiles',
+      JSON.stringify([{ id: 'gw1', label: 'Prueba', url, authMode: 'none' }])
+    );
+    localStorage.setItem('gateway_active_profile', 'gw1');
+  } else {
+    localStorage.setItem('gateway_profiles', '[]');
+  }
+  TestBed.configureTestingModule({
+    providers: [provideHttpClient(), provideHttpClientTesting()],
+  });
+  const realtime = TestBed.inject(RfidRealtime);
+  const reads: TagReadEvent[] = [];
+  realtime.tagReads$.subscribe((r) => reads.push(r));
+  return { realtime, reads, profiles: TestBed.inject(GatewayProfileStore) };
+}
+
+describe('RfidRealtime', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    FakeEventSource.instances = [];
+    FakeWebSocket.instances = [];
+    vi.stubGlobal('EventSource', FakeEventSource);
+    vi.stubGlobal('WebSocket', FakeWebSocket);
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it('no conecta hasta que alguien pide el stream', () => {
+    const { realtime } = setup();
+    expect(FakeEventSource.instances).toHaveLength(0);
+    expect(realtime.state).toBe('closed');
+
+    realtime.acquire();
+    expect(lastSse().url).toBe('http://gw.test/api/realtime/events');
+    expect(realtime.state).toBe('connecting');
+
+    lastSse().onopen?.();
+    expect(realtime.state).toBe('open');
+    expect(realtime.transport).toBe('sse');
+  });
+
+  it('sin gateway configurado no abre nada', () => {
+    const { realtime } = setup('');
+    realtime.acquire();
+    expect(FakeEventSource.instances).toHaveLength(0);
+    expect(realtime.state).toBe('closed');
+  });
+
+  it('emite las lecturas de mensajes y de eventos nombrados', () => {
+    const { realtime, reads } = setup();
+    realtime.acquire();
+    lastSse().onopen?.();
+    lastSse().emit({ epc: 'E2801160', readerId: 'r1', antenna: 2 });
+    lastSse().emit({ readerId: 'r1', tags: [{ epc: 'AAAA' }, { epc: 'BBBB' }] }, '', 'tag');
+    expect(reads.map((r) => [r.epc, r.readerId])).toEqual([
+      ['E2801160', 'r1'],
+      ['AAAA', 'r1'],
+      ['BBBB', 'r1'],
+    ]);
+  });
+
+  it('los payloads desconocidos van a rejected$ y no cuentan como tags', () => {
+    const { realtime, reads } = setup();
+    const rejected: string[] = [];
+    realtime.rejected$.subscribe((e) => rejected.push(e.rejectedReason ?? ''));
+    realtime.acquire();
+    lastSse().emit({ foo: 'bar' });
+    lastSse().emit({ type: 'heartbeat' });
+    expect(reads).toEqual([]);
+    expect(rejected).toEqual(['forma de payload desconocida']);
+  });
+
+  it('descarta eventos repetidos por ID de SSE o eventId del payload', () => {
+    const { realtime, reads } = setup();
+    realtime.acquire();
+    lastSse().emit({ epc: 'AAAA' }, '7');
+    lastSse().emit({ epc: 'AAAA' }, '7');
+    lastSse().emit({ epc: 'BBBB', eventId: 9 });
+    lastSse().emit({ epc: 'BBBB', eventId: 9 });
+    expect(reads.map((r) => r.epc)).toEqual(['AAAA', 'BBBB']);
+  });
+
+  it('si SSE falla antes de abrir pasa a WebSocket', () => {
+    const { realtime, reads } = setup();
+    realtime.acquire();
+    lastSse().onerror?.();
+    expect(lastSse().closed).toBe(true);
+    expect(lastWs().url).toBe('ws://gw.test/ws/events');
+
+    lastWs().onopen?.();
+    expect(realtime.transport).toBe('ws');
+    lastWs().emit({ epc: 'CCCC' });
+    expect(reads.map((r) => r.epc)).toEqual(['CCCC']);
+  });
+
+  it('si SSE se cae reconecta con backoff y retoma desde el último ID', () => {
+    const { realtime } = setup();
+    realtime.acquire();
+    lastSse().onopen?.();
+    lastSse().emit({ epc: 'AAAA' }, '41');
+    lastSse().onerror?.();
+    expect(realtime.state).toBe('reconnecting');
+    expect(FakeEventSource.instances).toHaveLength(1);
+
+    vi.advanceTimersByTime(1000);
+    expect(FakeEventSource.instances).toHaveLength(2);
+    expect(new URL(lastSse().url).searchParams.get('lastEventId')).toBe('41');
+    expect(realtime.attempt).toBe(1);
+
+    lastSse().onopen?.();
+    expect(realtime.state).toBe('open');
+    expect(realtime.attempt).toBe(0);
+  });
+
+  it('si el WebSocket se cierra vuelve a intentar', () => {
+    const { realtime } = setup();
+    realtime.acquire();
+    lastSse().onerror?.();
+    lastWs().onopen?.();
+    lastWs().onclose?.();
+    expect(realtime.state).toBe('reconnecting');
+    vi.advanceTimersByTime(1000);
+    expect(FakeEventSource.instances).toHaveLength(2);
+  });
+
+  it('pasa a degraded sin eventos recientes y vuelve con el siguiente', () => {
+    const { realtime } = setup();
+    realtime.acquire();
+    lastSse().onopen?.();
+    vi.advanceTimersByTime(21000);
+    expect(realtime.state).toBe('degraded');
+    lastSse().emit({ epc: 'AAAA' });
+    expect(realtime.state).toBe('open');
+  });
+
+  describe('consumidores', () => {
+    it('comparten un solo transporte y se cierra con el último', () => {
+      const { realtime } = setup();
+      const a = realtime.acquire();
+      const b = realtime.acquire();
+      expect(FakeEventSource.instances).toHaveLength(1);
+      expect(realtime.consumers).toBe(2);
+
+      a.release();
+      expect(lastSse().closed).toBe(false);
+      expect(realtime.active).toBe(true);
+
+      b.release();
+      expect(lastSse().closed).toBe(true);
+      expect(realtime.state).toBe('closed');
+    });
+
+    it('soltar dos veces el mismo handle no cuenta doble', () => {
+      const { realtime } = setup();
+      const a = realtime.acquire();
+      realtime.acquire();
+      a.release();
+      a.release();
+      expect(realtime.consumers).toBe(1);
+      expect(lastSse().closed).toBe(false);
+    });
+
+    it('al cerrar no quedan reintentos pendientes', () => {
+      const { realtime } = setup();
+      const a = realtime.acquire();
+      lastSse().onopen?.();
+      lastSse().onerror?.();
+      a.release();
+      vi.advanceTimersByTime(60000);
+      expect(FakeEventSource.instances).toHaveLength(1);
+      expect(realtime.state).toBe('closed');
+    });
+  });
+
+  describe('cambio de perfil', () => {
+    it('con consumidores reconecta al nuevo gateway', () => {
+      const { realtime, profiles } = setup();
+      realtime.acquire();
+      const first = lastSse();
+      const other = profiles.add({ label: 'Otro', url: 'gw2.test', authMode: 'none' });
+      profiles.setActive(other.id);
+      expect(first.closed).toBe(true);
+      expect(lastSse().url).toBe('http://gw2.test/api/realtime/events');
+    });
+
+    it('sin consumidores no conecta', () => {
+      const { profiles } = setup();
+      const other = profiles.add({ label: 'Otro', url: 'gw2.test', authMode: 'none' });
+      profiles.setActive(other.id);
+      expect(FakeEventSource.instances).toHaveLength(0);
+    });
+  });
+
+  describe('perfil fijado en una pantalla', () => {
+    /** Stream de raíz abierto contra el global y la pantalla Maleta fijada a otro gateway. */
+    function pinned() {
+      const { realtime, profiles } = setup();
+      realtime.acquire();
+      const root = lastSse();
+      const other = profiles.add({ label: 'Túnel', url: 'gw2.test', authMode: 'none' });
+      profiles.pin('maleta', other.id);
+      const injector = createEnvironmentInjector(
+        provideGatewayPage('maleta'),
+        TestBed.inject(EnvironmentInjector)
+      );
+      return { root, profiles, injector, page: injector.get(RfidRealtime) };
+    }
+
+    it('la pantalla abre su propio stream y el de raíz no se mueve', () => {
+      const { root, page } = pinned();
+      expect(root.closed).toBe(false);
+      page.acquire();
+      expect(lastSse().url).toBe('http://gw2.test/api/realtime/events');
+      expect(root.closed).toBe(false);
+    });
+
+    it('quitar el pin reconecta solo el stream de la pantalla', () => {
+      const { root, profiles, page } = pinned();
+      page.acquire();
+      const own = lastSse();
+      profiles.pin('maleta', null);
+      expect(own.closed).toBe(true);
+      expect(lastSse().url).toBe('http://gw.test/api/realtime/events');
+      expect(root.closed).toBe(false);
+    });
+
+    it('al cerrar la pantalla se cierra su stream', () => {
+      const { root, injector, page } = pinned();
+      page.acquire();
+      const own = lastSse();
+      injector.destroy();
+      expect(own.closed).toBe(true);
+      expect(root.closed).toBe(false);
+      expect(page.state).toBe('closed');
+    });
+  });
+});
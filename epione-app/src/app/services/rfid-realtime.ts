@@ -0,0 +1,390 @@
+import { Inject, Injectable, NgZone, OnDestroy, Optional, Provider } from '@angular/core';
+import { BehaviorSubject, Observable, Subject, Subscription } from 'rxjs';
+import { filter, skip } from 'rxjs/operators';
+import { RfidApi } from './rfid-api';
+import { GATEWAY_PAGE, GatewayPage, GatewayProfileStore } from './gateway-profile-store';
+import { parseGatewayEvent, TagReadEvent } from './tag-read-event';
+
+export type RealtimeTransport = 'sse' | 'ws';
+
+/**
+ * Estado de la conexión en tiempo real:
+ * connecting → open ⇄ degraded; ante caída → reconnecting → connecting…; sin consumidores → closed.
+ */
+export type RealtimeConnectionState = 'connecting' | 'open' | 'degraded' | 'reconnecting' | 'closed';
+
+const STATE_LABELS: Record<RealtimeConnectionState, string> = {
+  connecting: 'Conectando',
+  open: 'Conectado',
+  degraded: 'Sin eventos recientes',
+  reconnecting: 'Reconectando',
+  closed: 'Desconectado',
+};
+
+/** Texto para mostrar el estado de la conexión en la UI. */
+export function realtimeStateLabel(state: RealtimeConnectionState): string {
+  return STATE_LABELS[state];
+}
+
+/** True si la lectura es del lector indicado (o no trae lector). */
+export function readMatchesReader(read: TagReadEvent, readerId: string): boolean {
+  return !read.readerId || read.readerId === readerId;
+}
+
+/** Uso del stream por un consumidor; `release()` lo suelta (llamarlo de nuevo no hace nada). */
+export interface RealtimeHandle {
+  release(): void;
+}
+
+/** Evento recibido del gateway (SSE o WebSocket), ya parseado. */
+export interface RealtimeEvent {
+  receivedAt: Date;
+  transport: RealtimeTransport;
+  data: unknown;
+  /** Lecturas válidas del evento (vacío en eventos de control o rechazados). */
+  reads: TagReadEvent[];
+  /** Motivo si el payload no tiene una forma conocida; null si se aceptó. */
+  rejectedReason: string | null;
+}
+
+/** Tipos de evento SSE nombrados que emite el gateway (además de `message`). */
+const SSE_EVENT_TYPES = ['tag', 'detection', 'event'];
+
+/** Cuántos IDs de evento recientes se recuerdan para descartar duplicados. */
+const MAX_RECENT_EVENT_IDS = 500;
+
+/** Backoff exponencial de reconexión (ms): base · 2^intento, tope y jitter. */
+const RECONNECT_BASE_MS = 1000;
+const RECONNECT_MAX_MS = 30000;
+
+/** Sin eventos durante este tiempo con la conexión abierta → degraded. */
+const STALE_AFTER_MS = 20000;
+const WATCHDOG_INTERVAL_MS = 1000;
+
+/**
+ * Stream compartido de eventos en tiempo real del gateway RFID.
+ * Abre un solo transporte (SSE y, si falla al conectar, WebSocket) para todos los lectores
+ * y lo mantiene vivo entre páginas: los componentes se suscriben/desuscriben sin reconectar
+ * y filtran por `readerId` en el cliente.
+ * Quien necesita lecturas pide un handle con `acquire()`; la conexión se abre con el primero
+ * y se cierra cuando se suelta el último, así nadie corta el stream de los demás.
+ * Ante una caída reintenta con backoff exponencial y retoma SSE desde el último ID recibido.
+ * Sigue al perfil global (o al fijado, en la instancia propia de una pantalla): si cambia, cierra
+ * y abre contra el nuevo.
+ */
+@Injectable({ providedIn: 'root' })
+export class RfidRealtime implements OnDestroy {
+  private eventSource: EventSource | null = null;
+  private ws: WebSocket | null = null;
+  private baseUrl = '';
+  private recentEventIds = new Set<string>();
+  private lastSseEventId = '';
+  private reconnectAttempt = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private watchdog: ReturnType<typeof setInterval> | null = null;
+  /** Handles sin soltar. */
+  private holders = 0;
+  private readonly profileSub: Subscription;
+
+  private readonly eventsSubject = new Subject<RealtimeEvent>();
+  private readonly tagReadsSubject = new Subject<TagReadEvent>();
+  private readonly rejectedSubject = new Subject<RealtimeEvent>();
+  private readonly stateSubject = new BehaviorSubject<RealtimeConnectionState>('closed');
+  private readonly transportSubject = new BehaviorSubject<RealtimeTransport | null>(null);
+  private readonly lastEventAtSubject = new BehaviorSubject<Date | null>(null);
+  private readonly heartbeatSubject = new BehaviorSubject<number | null>(null);
+
+  /** Todos los eventos recibidos (para el log crudo). */
+  readonly events$: Observable<RealtimeEvent> = this.eventsSubject.asObservable();
+  /** Una emisión por cada lectura válida de tag. */
+  readonly tagReads$: Observable<TagReadEvent> = this.tagReadsSubject.asObservable();
+  /** Eventos con payload desconocido: se reportan pero nunca cuentan como tags. */
+  readonly rejected$: Observable<RealtimeEvent> = this.rejectedSubject.asObservable();
+  readonly state$: Observable<RealtimeConnectionState> = this.stateSubject.asObservable();
+  readonly transport$: Observable<RealtimeTransport | null> = this.transportSubject.asObservable();
+  /** Momento del último evento recibido (heartbeat visible en la UI). */
+  readonly lastEventAt$: Observable<Date | null> = this.lastEventAtSubject.asObservable();
+  /** Segundos desde el último evento, emitido cada segundo mientras la conexión esté activa. */
+  readonly heartbeat$: Observable<number | null> = this.heartbeatSubject.asObservable();
+
+  constructor(
+    private api: RfidApi,
+    private ngZone: NgZone,
+    profiles: GatewayProfileStore,
+    @Optional() @Inject(GATEWAY_PAGE) page: GatewayPage | null
+  ) {
+    /* Al cambiar de perfil (selector global o pin de la pantalla) se reconecta al nuevo gateway. */
+    this.profileSub = profiles
+      .profileFor$(page)
+      .pipe(skip(1))
+      .subscribe(() => {
+        if (this.holders === 0) return;
+        this.disconnect();
+        this.connect();
+      });
+  }
+
+  /** Solo se destruye la instancia propia de una pantalla, al cerrarla. */
+  ngOnDestroy(): void {
+    this.profileSub.unsubscribe();
+    this.holders = 0;
+    this.disconnect();
+  }
+
+  get state(): RealtimeConnectionState {
+    return this.stateSubject.value;
+  }
+
+  /** True si el transporte está abierto (aunque esté degradado). */
+  get connected(): boolean {
+    return this.state === 'open' || this.state === 'degraded';
+  }
+
+  get transport(): RealtimeTransport | null {
+    return this.transportSubject.value;
+  }
+
+  get lastEventAt(): Date | null {
+    return this.lastEventAtSubject.value;
+  }
+
+  /** Intento de reconexión en curso (0 si la conexión está sana). */
+  get attempt(): number {
+    return this.reconnectAttempt;
+  }
+
+  /** Consumidores con un handle sin soltar. */
+  get consumers(): number {
+    return this.holders;
+  }
+
+  /** True mientras el servicio deba mantener la conexión (no está en closed). */
+  get active(): boolean {
+    return this.state !== 'closed';
+  }
+
+  /** Lecturas de un lector; las que no traen `readerId` se atribuyen a cualquiera. */
+  readsFor(readerId: string): Observable<TagReadEvent> {
+    return this.tagReads$.pipe(filter((r) => readMatchesReader(r, readerId)));
+  }
+
+  /** Pide el stream: conecta si hace falta y lo mantiene abierto hasta `release()`. */
+  acquire(): RealtimeHandle {
+    this.holders++;
+    this.connect();
+    let released = false;
+    return {
+      release: () => {
+        if (released) return;
+        released = true;
+        this.holders--;
+        if (this.holders === 0) this.disconnect();
+      },
+    };
+  }
+
+  /** Si ya hay conexión para la misma URL base no hace nada (no duplica transportes). */
+  private connect(): void {
+    const base = this.api.getBaseUrl();
+    if (this.active && this.baseUrl === base) return;
+    this.disconnect();
+    if (!base) return;
+    this.baseUrl = base;
+    this.startWatchdog();
+    this.open();
+  }
+
+  private disconnect(): void {
+    this.clearReconnectTimer();
+    this.stopWatchdog();
+    this.closeTransports();
+    this.reconnectAttempt = 0;
+    this.lastSseEventId = '';
+    this.recentEventIds.clear();
+    this.heartbeatSubject.next(null);
+    this.setState('closed', null);
+  }
+
+  private open(): void {
+    this.setState('connecting', null);
+    this.openSse();
+  }
+
+  private closeTransports(): void {
+    if (this.eventSource) {
+      this.eventSource.close();
+      this.eventSource = null;
+    }
+    if (this.ws) {
+      this.ws.onclose = null;
+      this.ws.close();
+      this.ws = null;
+    }
+  }
+
+  /** SSE es el transporte preferido; si falla antes de abrir se pasa a WebSocket. */
+  private openSse(): void {
+    let opened = false;
+    let es: EventSource;
+    try {
+      es = new EventSource(
+        this.api.getRealtimeEventsUrl(undefined, undefined, this.lastSseEventId || undefined)
+      );
+    } catch {
+      this.openWebSocket();
+      return;
+    }
+    this.eventSource = es;
+    es.onopen = () => {
+      opened = true;
+      this.onTransportOpen('sse');
+    };
+    es.onerror = () => {
+      es.close();
+      this.eventSource = null;
+      if (opened) {
+        this.scheduleReconnect();
+      } else {
+        this.openWebSocket();
+      }
+    };
+    const handler = (ev: MessageEvent) => {
+      if (ev.lastEventId) this.lastSseEventId = ev.lastEventId;
+      this.handleMessage(ev.data, 'sse', ev.lastEventId);
+    };
+    es.onmessage = handler;
+    for (const type of SSE_EVENT_TYPES) {
+      es.addEventListener(type, handler as EventListener);
+    }
+  }
+
+  private openWebSocket(): void {
+    let ws: WebSocket;
+    try {
+      ws = new WebSocket(this.api.getWebSocketUrl());
+    } catch {
+      this.scheduleReconnect();
+      return;
+    }
+    this.ws = ws;
+    ws.onopen = () => this.onTransportOpen('ws');
+    ws.onclose = () => {
+      this.ws = null;
+      this.scheduleReconnect();
+    };
+    ws.onmessage = (ev) => this.handleMessage(ev.data, 'ws');
+  }
+
+  private onTransportOpen(transport: RealtimeTransport): void {
+    this.reconnectAttempt = 0;
+    this.lastEventAtSubject.next(new Date());
+    this.setState('open', transport);
+  }
+
+  /** Programa el siguiente intento: base · 2^n acotado, con jitter del 50 % para no sincronizar clientes. */
+  private scheduleReconnect(): void {
+    if (this.state === 'closed') return;
+    this.clearReconnectTimer();
+    this.closeTransports();
+    const ceiling = Math.min(RECONNECT_MAX_MS, RECONNECT_BASE_MS * 2 ** this.reconnectAttempt);
+    const delay = ceiling / 2 + Math.random() * (ceiling / 2);
+    this.reconnectAttempt++;
+    this.setState('reconnecting', null);
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.open();
+    }, delay);
+  }
+
+  private clearReconnectTimer(): void {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+  }
+
+  /** Publica el heartbeat y marca la conexión como degraded si está abierta pero no llegan eventos. */
+  private startWatchdog(): void {
+    this.stopWatchdog();
+    this.watchdog = setInterval(() => {
+      const last = this.lastEventAt?.getTime();
+      this.ngZone.run(() =>
+        this.heartbeatSubject.next(last ? Math.floor((Date.now() - last) / 1000) : null)
+      );
+      if (!this.connected) return;
+      const stale = Date.now() - (last ?? 0) > STALE_AFTER_MS;
+      if (stale && this.state === 'open') this.setState('degraded', this.transport);
+      if (!stale && this.state === 'degraded') this.setState('open', this.transport);
+    }, WATCHDOG_INTERVAL_MS);
+  }
+
+  private stopWatchdog(): void {
+    if (this.watchdog) {
+      clearInterval(this.watchdog);
+      this.watchdog = null;
+    }
+  }
+
+  private setState(state: RealtimeConnectionState, transport: RealtimeTransport | null): void {
+    this.ngZone.run(() => {
+      if (this.transportSubject.value !== transport) this.transportSubject.next(transport);
+      if (this.stateSubject.value !== state) this.stateSubject.next(state);
+    });
+  }
+
+  private handleMessage(raw: unknown, transport: RealtimeTransport, eventId?: string): void {
+    let data: unknown;
+    try {
+      data = typeof raw === 'string' ? JSON.parse(raw) : raw;
+    } catch {
+      data = { raw };
+    }
+    const receivedAt = new Date();
+    this.lastEventAtSubject.next(receivedAt);
+    if (this.state === 'degraded') this.setState('open', transport);
+
+    const id = eventId || this.payloadEventId(data);
+    if (id && this.isDuplicate(id)) return;
+
+    const parsed = parseGatewayEvent(data, receivedAt);
+    const event: RealtimeEvent = {
+      receivedAt,
+      transport,
+      data,
+      reads: parsed.kind === 'tags' ? parsed.reads : [],
+      rejectedReason: parsed.kind === 'rejected' ? parsed.reason : null,
+    };
+    this.ngZone.run(() => {
+      this.eventsSubject.next(event);
+      if (event.rejectedReason) this.rejectedSubject.next(event);
+      for (const read of event.reads) {
+        this.tagReadsSubject.next(read);
+      }
+    });
+  }
+
+  /** ID de evento explícito del gateway (no confundir con `id` del tag). */
+  private payloadEventId(data: unknown): string | null {
+    if (!data || typeof data !== 'object') return null;
+    const v = (data as Record<string, unknown>)['eventId'];
+    return typeof v === 'string' || typeof v === 'number' ? String(v) : null;
+  }
+
+  private isDuplicate(id: string): boolean {
+    if (this.recentEventIds.has(id)) return true;
+    this.recentEventIds.add(id);
+    if (this.recentEventIds.size > MAX_RECENT_EVENT_IDS) {
+      const oldest = this.recentEventIds.values().next().value;
+      if (oldest !== undefined) this.recentEventIds.delete(oldest);
+    }
+    return false;
+  }
+}
+
+/**
+ * `providers` de una pantalla que fija su propio gateway: le da un `RfidApi` y un `RfidRealtime`
+ * que siguen su pin sin mover el stream ni el REST de los servicios de raíz.
+ */
+export function provideGatewayPage(page: GatewayPage): Provider[] {
+  return [{ provide: GATEWAY_PAGE, useValue: page }, RfidApi, RfidRealtime];
+}
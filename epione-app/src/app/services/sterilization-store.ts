@@ -0,0 +1,247 @@
+import { Injectable } from '@angular/core';
+import { BehaviorSubject, Observable } from 'rxjs';
+import { RealtimeHandle, RfidRealtime } from './rfid-realtime';
+import { TagReadEvent } from './tag-read-event';
+import { MaletaStore } from './maleta-store';
+
+/** Etapas del reprocesamiento; después de EN_CIRUGIA la maleta vuelve a SUCIA. */
+export type SterilizationStage = 'SUCIA' | 'LAVADA' | 'ESTERILIZADA' | 'ALMACENADA' | 'EN_CIRUGIA';
+
+export const STERILIZATION_STAGES: SterilizationStage[] = [
+  'SUCIA',
+  'LAVADA',
+  'ESTERILIZADA',
+  'ALMACENADA',
+  'EN_CIRUGIA',
+];
+
+/** Etapas en las que la maleta cuenta como estéril. */
+export const STERILE_STAGES: SterilizationStage[] = ['ESTERILIZADA', 'ALMACENADA'];
+
+export function stageLabel(stage: SterilizationStage): string {
+  switch (stage) {
+    case 'SUCIA': return 'Sucia';
+    case 'LAVADA': return 'Lavada';
+    case 'ESTERILIZADA': return 'Esterilizada';
+    case 'ALMACENADA': return 'Almacenada';
+    case 'EN_CIRUGIA': return 'En cirugía';
+  }
+}
+
+/** Etapa que sigue en el ciclo. */
+export function nextStage(stage: SterilizationStage): SterilizationStage {
+  const i = STERILIZATION_STAGES.indexOf(stage);
+  return STERILIZATION_STAGES[(i + 1) % STERILIZATION_STAGES.length];
+}
+
+/**
+ * Punto de lectura asignado a una etapa: un lector completo o una antena concreta.
+ * Operador y ciclo de autoclave son los vigentes en esa estación y se copian a cada registro.
+ */
+export interface StageStation {
+  id: string;
+  readerId: string;
+  /** null = cualquier antena del lector. */
+  antennaPort: number | null;
+  stage: SterilizationStage;
+  operator: string;
+  autoclaveCycle: string;
+}
+
+export interface StageRecord {
+  maletaId: string;
+  stage: SterilizationStage;
+  at: string;
+  readerId: string | null;
+  antennaPort: number | null;
+  autoclaveCycle: string;
+  operator: string;
+  /** Registrada a mano desde la vista Maleta y no por el túnel. */
+  manual: boolean;
+  /** La etapa anterior no era la que corresponde en el ciclo. */
+  outOfOrder: boolean;
+}
+
+const STATIONS_STORAGE_KEY = 'sterilization_stations';
+const HISTORY_STORAGE_KEY = 'sterilization_history';
+/** Registros guardados; al pasar el límite se descartan los más antiguos. */
+const MAX_RECORDS = 2000;
+
+/**
+ * Ciclo de reprocesamiento de las maletas. Cuando el RFID maestro de una maleta se lee en una
+ * estación configurada, se registra la etapa de esa estación con su operador y ciclo de autoclave.
+ * Mientras haya estaciones mantiene el stream abierto, aunque ninguna página lo use.
+ */
+@Injectable({ providedIn: 'root' })
+export class SterilizationStore {
+  private readonly stationsSubject = new BehaviorSubject<StageStation[]>([]);
+  private readonly historySubject = new BehaviorSubject<StageRecord[]>([]);
+  private stream: RealtimeHandle | null = null;
+
+  readonly stations$: Observable<StageStation[]> = this.stationsSubject.asObservable();
+  /** Registros de todas las maletas, del más antiguo al más reciente. */
+  readonly history$: Observable<StageRecord[]> = this.historySubject.asObservable();
+
+  constructor(
+    private maletas: MaletaStore,
+    private realtime: RfidRealtime
+  ) {
+    this.load();
+    realtime.tagReads$.subscribe((read) => this.onRead(read));
+    this.holdStream();
+  }
+
+  get stations(): StageStation[] {
+    return this.stationsSubject.value;
+  }
+
+  get history(): StageRecord[] {
+    return this.historySubject.value;
+  }
+
+  historyFor(maletaId: string): StageRecord[] {
+    return this.history.filter((r) => r.maletaId === maletaId);
+  }
+
+  /** Última etapa registrada, o null si la maleta aún no entra al ciclo. */
+  currentStage(maletaId: string): SterilizationStage | null {
+    for (let i = this.history.length - 1; i >= 0; i--) {
+      if (this.history[i].maletaId === maletaId) return this.history[i].stage;
+    }
+    return null;
+  }
+
+  /** True si la maleta está en el ciclo y no ha completado la esterilización. */
+  needsSterilization(maletaId: string): boolean {
+    const stage = this.currentStage(maletaId);
+    return stage !== null && !STERILE_STAGES.includes(stage);
+  }
+
+  /** Mensaje de validación de la estación, o '' si es válida. */
+  validateStation(station: Omit<StageStation, 'id'>, editingId?: string): string {
+    if (!station.readerId.trim()) return 'Lector requerido';
+    if (!STERILIZATION_STAGES.includes(station.stage)) return 'Etapa inválida';
+    const clash = this.stations.find(
+      (s) =>
+        s.id !== editingId &&
+        s.readerId === station.readerId.trim() &&
+        (s.antennaPort === null ||
+          station.antennaPort === null ||
+          s.antennaPort === station.antennaPort)
+    );
+    if (clash) return `Ese lector/antena ya está asignado a la etapa ${stageLabel(clash.stage)}`;
+    return '';
+  }
+
+  saveStation(station: Omit<StageStation, 'id'>, editingId?: string): StageStation {
+    const saved: StageStation = {
+      ...station,
+      id: editingId ?? `estacion_${Date.now()}`,
+      readerId: station.readerId.trim(),
+      operator: station.operator.trim(),
+      autoclaveCycle: station.autoclaveCycle.trim(),
+    };
+    const exists = this.stations.some((s) => s.id === saved.id);
+    this.setStations(
+      exists ? this.stations.map((s) => (s.id === saved.id ? saved : s)) : [...this.stations, saved]
+    );
+    return saved;
+  }
+
+  removeStation(id: string): void {
+    this.setStations(this.stations.filter((s) => s.id !== id));
+  }
+
+  /** Registra una etapa a mano (sin pasar por una estación). */
+  recordManual(
+    maletaId: string,
+    stage: SterilizationStage,
+    operator: string,
+    autoclaveCycle = ''
+  ): StageRecord {
+    return this.record(maletaId, stage, {
+      readerId: null,
+      antennaPort: null,
+      operator: operator.trim(),
+      autoclaveCycle: autoclaveCycle.trim(),
+      manual: true,
+    });
+  }
+
+  private onRead(read: TagReadEvent): void {
+    if (!read.readerId || this.stations.length === 0) return;
+    const station = this.stationFor(read.readerId, read.antennaPort);
+    if (!station) return;
+    const maleta = this.maletas.maletas.find((m) => m.masterRfid.trim() === read.epc);
+    if (!maleta || this.currentStage(maleta.id) === station.stage) return;
+    this.record(maleta.id, station.stage, {
+      readerId: read.readerId,
+      antennaPort: read.antennaPort,
+      operator: station.operator,
+      autoclaveCycle: station.autoclaveCycle,
+      manual: false,
+    });
+  }
+
+  /** Estación de la antena concreta; si no hay, la del lector completo. */
+  private stationFor(readerId: string, antennaPort: number | null): StageStation | undefined {
+    const forReader = this.stations.filter((s) => s.readerId === readerId);
+    return (
+      forReader.find((s) => s.antennaPort !== null && s.antennaPort === antennaPort) ??
+      forReader.find((s) => s.antennaPort === null)
+    );
+  }
+
+  private record(
+    maletaId: string,
+    stage: SterilizationStage,
+    details: Pick<StageRecord, 'readerId' | 'antennaPort' | 'operator' | 'autoclaveCycle' | 'manual'>
+  ): StageRecord {
+    const current = this.currentStage(maletaId);
+    const record: StageRecord = {
+      maletaId,
+      stage,
+      at: new Date().toISOString(),
+      ...details,
+      outOfOrder: current !== null && nextStage(current) !== stage,
+    };
+    this.historySubject.next([...this.history, record].slice(-MAX_RECORDS));
+    try {
+      localStorage.setItem(HISTORY_STORAGE_KEY, JSON.stringify(this.history));
+    } catch {}
+    return record;
+  }
+
+  private setStations(list: StageStation[]): void {
+    this.stationsSubject.next(list);
+    this.holdStream();
+    try {
+      localStorage.setItem(STATIONS_STORAGE_KEY, JSON.stringify(list));
+    } catch {}
+  }
+
+  /** Toma el stream con la primera estación y lo suelta al quitar la última. */
+  private holdStream(): void {
+    if (this.stations.length > 0 && !this.stream) {
+      this.stream = this.realtime.acquire();
+    } else if (this.stations.length === 0 && this.stream) {
+      this.stream.release();
+      this.stream = null;
+    }
+  }
+
+  private load(): void {
+    try {
+      const raw = localStorage.getItem(STATIONS_STORAGE_KEY);
+      this.stationsSubject.next(raw ? JSON.parse(raw) : []);
+    } catch {
+      this.stationsSubject.next([]);
+    }
+    try {
+      const raw = localStorage.getItem(HISTORY_STORAGE_KEY);
+      this.historySubject.next(raw ? JSON.parse(raw) : []);
+    } catch {
+      this.historySubject.next([]);
+    }
+  }
+}
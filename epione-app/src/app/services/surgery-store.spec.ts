@@ -0,0 +1,176 @@
+import { TestBed } from '@angular/core/testing';
+import { provideHttpClient, withInterceptors } from '@angular/common/http';
+import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing';
+import { gatewayErrorInterceptor } from './gateway-error-interceptor';
+import { Surgery } from './rfid-api';
+import { SurgeryInput, SurgeryStore } from './surgery-store';
+
+const BASE = 'http://gw.test';
+const SURGERIES = `${BASE}/api/surgeries`;
+
+const INPUT: SurgeryInput = {
+  paciente: 'Ana López',
+  procedimiento: 'Artroplastia de cadera',
+  fecha: '2026-03-20T08:00',
+};
+
+function surgery(id: Surgery['id'], extra: Partial<Surgery> = {}): Surgery {
+  return {
+    ...INPUT,
+    id,
+    estado: 'PROGRAMADA',
+    actualizadoEn: '2026-03-01T10:00:00.000Z',
+    ...extra,
+  };
+}
+
+function setup(interceptor = false) {
+  localStorage.setItem(
+    'gateway_profiles',
+    JSON.stringify([{ id: 'gw1', label: 'Prueba', url: BASE, authMode: 'none' }])
+  );
+  localStorage.setItem('gateway_active_profile', 'gw1');
+  TestBed.configureTestingModule({
+    providers: [
+      interceptor
+        ? provideHttpClient(withInterceptors([gatewayErrorInterceptor]))
+        : provideHttpClient(),
+      provideHttpClientTesting(),
+    ],
+  });
+  return { store: TestBed.inject(SurgeryStore), http: TestBed.inject(HttpTestingController) };
+}
+
+/** Primer `load()` sin conexión: el store queda trabajando en local. */
+function goOffline(store: SurgeryStore, http: HttpTestingController) {
+  store.load().subscribe();
+  http.expectOne(SURGERIES).flush(null, { status: 0, statusText: 'Unknown Error' });
+}
+
+describe('SurgeryStore sin conexión', () => {
+  beforeEach(() => localStorage.clear());
+  afterEach(() => TestBed.inject(HttpTestingController).verify());
+
+  it('las altas locales llevan un id propio y quedan pendientes', () => {
+    const { store, http } = setup();
+    goOffline(store, http);
+    store.schedule(INPUT).subscribe();
+    store.schedule({ ...INPUT, paciente: 'Luis Pérez' }).subscribe();
+    expect(store.surgeries.map((s) => s.id)).toEqual(['local-1', 'local-2']);
+    expect(store.pendingCount).toBe(2);
+  });
+
+  it('al volver el gateway da de alta las locales y toma su id', () => {
+    const { store, http } = setup();
+    goOffline(store, http);
+    store.schedule(INPUT).subscribe();
+
+    store.load().subscribe();
+    http.expectOne({ method: 'GET', url: SURGERIES }).flush([surgery(1)]);
+    const post = http.expectOne({ method: 'POST', url: SURGERIES });
+    expect(post.request.body.id).toBeUndefined();
+    expect(post.request.body.paciente).toBe('Ana López');
+    post.flush({ ...post.request.body, id: 2 });
+
+    expect(store.surgeries.map((s) => s.id)).toEqual([1, 2]);
+    expect(store.pendingCount).toBe(0);
+  });
+
+  it('una edición sin conexión no se pierde al recargar y se envía', () => {
+    const { store, http } = setup();
+    store.load().subscribe();
+    http.expectOne(SURGERIES).flush([surgery(1)]);
+    goOffline(store, http);
+    store.update(1, { ...INPUT, quirofano: 'Q3' }).subscribe();
+
+    store.load().subscribe();
+    http.expectOne({ method: 'GET', url: SURGERIES }).flush([surgery(1)]);
+    expect(store.get(1)?.quirofano).toBe('Q3');
+    const put = http.expectOne({ method: 'PUT', url: `${SURGERIES}/1` });
+    expect(put.request.body.quirofano).toBe('Q3');
+    put.flush(put.request.body);
+    expect(store.pendingCount).toBe(0);
+  });
+
+  it('si la cirugía cambió después en el gateway gana la del gateway', () => {
+    const { store, http } = setup();
+    store.load().subscribe();
+    http.expectOne(SURGERIES).flush([surgery(1)]);
+    goOffline(store, http);
+    store.update(1, { ...INPUT, quirofano: 'Q3' }).subscribe();
+
+    store.load().subscribe();
+    http
+      .expectOne(SURGERIES)
+      .flush([surgery(1, { estado: 'CANCELADA', actualizadoEn: '2099-01-01T00:00:00.000Z' })]);
+    expect(store.get(1)?.estado).toBe('CANCELADA');
+    expect(store.pendingCount).toBe(0);
+  });
+
+  it('si el envío falla el cambio sigue pendiente y guardado', () => {
+    const { store, http } = setup();
+    goOffline(store, http);
+    store.schedule(INPUT).subscribe();
+
+    store.load().subscribe();
+    http.expectOne({ method: 'GET', url: SURGERIES }).flush([]);
+    http
+      .expectOne({ method: 'POST', url: SURGERIES })
+      .flush(null, { status: 500, statusText: 'Error' });
+    expect(store.surgeries.map((s) => s.id)).toEqual(['local-1']);
+    expect(store.pendingCount).toBe(1);
+    expect(JSON.parse(localStorage.getItem('surgery_sync_pending') ?? '[]')).toEqual(['local-1']);
+  });
+});
+
+describe('SurgeryStore con gateway', () => {
+  beforeEach(() => localStorage.clear());
+  afterEach(() => TestBed.inject(HttpTestingController).verify());
+
+  /** Gateway en línea con la cirugía 1 cargada; los errores pasan por el interceptor. */
+  function online() {
+    const { store, http } = setup(true);
+    store.load().subscribe();
+    http.expectOne(SURGERIES).flush([surgery(1)]);
+    return { store, http };
+  }
+
+  it('si el PUT no llega al gateway el cambio queda pendiente y se envía al recargar', () => {
+    const { store, http } = online();
+    const errors: unknown[] = [];
+    store.update(1, { ...INPUT, quirofano: 'Q3' }).subscribe({ error: (e) => errors.push(e) });
+    http.expectOne({ method: 'PUT', url: `${SURGERIES}/1` }).error(new ProgressEvent('error'));
+    expect(errors).toEqual([]);
+    expect(store.get(1)?.quirofano).toBe('Q3');
+    expect(store.pendingCount).toBe(1);
+
+    store.load().subscribe();
+    http.expectOne({ method: 'GET', url: SURGERIES }).flush([surgery(1)]);
+    const put = http.expectOne({ method: 'PUT', url: `${SURGERIES}/1` });
+    expect(put.request.body.quirofano).toBe('Q3');
+    put.flush(put.request.body);
+    expect(store.pendingCount).toBe(0);
+  });
+
+  it('si el POST falla en el gateway la cirugía se guarda local y pendiente', () => {
+    const { store, http } = online();
+    store.schedule(INPUT).subscribe();
+    http
+      .expectOne({ method: 'POST', url: SURGERIES })
+      .flush(null, { status: 503, statusText: 'Service Unavailable' });
+    expect(store.surgeries.map((s) => s.id)).toEqual([1, 'local-1']);
+    expect(store.pendingCount).toBe(1);
+  });
+
+  it('un rechazo del gateway es error y no queda pendiente', () => {
+    const { store, http } = online();
+    const errors: string[] = [];
+    store.cancel(1).subscribe({ error: (e) => errors.push(e.message) });
+    http
+      .expectOne({ method: 'PUT', url: `${SURGERIES}/1` })
+      .flush({ message: 'Cirugía bloqueada' }, { status: 409, statusText: 'Conflict' });
+    expect(errors).toEqual(['Cirugía bloqueada']);
+    expect(store.get(1)?.estado).toBe('PROGRAMADA');
+    expect(store.pendingCount).toBe(0);
+  });
+});
@@ -0,0 +1,351 @@
+import { Injectable } from '@angular/core';
+import { BehaviorSubject, defer, forkJoin, Observable, of, throwError } from 'rxjs';
+import { catchError, map, switchMap, tap } from 'rxjs/operators';
+import { MaletaVerification, RfidApi, Surgery, SurgeryStatus } from './rfid-api';
+import { MaletaItem } from './maleta-store';
+import { GatewayError } from './gateway-error';
+
+export const SURGERY_STATUSES: SurgeryStatus[] = [
+  'PROGRAMADA',
+  'EN_PROCESO',
+  'FINALIZADA',
+  'CANCELADA',
+];
+
+/** Transiciones de estado permitidas; FINALIZADA y CANCELADA son finales. */
+export const SURGERY_TRANSITIONS: Record<SurgeryStatus, SurgeryStatus[]> = {
+  PROGRAMADA: ['EN_PROCESO', 'CANCELADA'],
+  EN_PROCESO: ['FINALIZADA', 'CANCELADA'],
+  FINALIZADA: [],
+  CANCELADA: [],
+};
+
+export function canTransition(from: SurgeryStatus, to: SurgeryStatus): boolean {
+  return SURGERY_TRANSITIONS[from]?.includes(to) ?? false;
+}
+
+/** Campos que el usuario captura al programar o editar. */
+export type SurgeryInput = Pick<Surgery, 'paciente' | 'procedimiento' | 'fecha'> &
+  Partial<Pick<Surgery, 'quirofano' | 'notas' | 'maletaIds'>>;
+
+/** De dónde vienen los datos: el gateway o el respaldo local (sin gateway o sin conexión). */
+export type SurgerySource = 'gateway' | 'local';
+
+const SURGERY_STORAGE_KEY = 'surgery_list';
+const SURGERY_PENDING_KEY = 'surgery_sync_pending';
+/** Prefijo de las cirugías creadas sin conexión, para no chocar con los ids del gateway. */
+const LOCAL_ID_PREFIX = 'local-';
+
+export function isLocalSurgeryId(id: Surgery['id']): boolean {
+  return typeof id === 'string' && id.startsWith(LOCAL_ID_PREFIX);
+}
+
+/** El gateway no respondió o falló: el cambio se puede repetir más tarde tal cual. */
+function isUnreachable(e: unknown): boolean {
+  return e instanceof GatewayError && ['network', 'timeout', 'server'].includes(e.kind);
+}
+
+/**
+ * Cirugías programadas. Usa `/api/surgeries` del gateway; si no hay gateway configurado o no
+ * responde, trabaja sobre localStorage (demo sin conexión). La última lista del gateway queda
+ * guardada como respaldo. Lo que se cambia sin conexión queda pendiente y se envía en el
+ * siguiente `load()` que llegue al gateway.
+ */
+@Injectable({ providedIn: 'root' })
+export class SurgeryStore {
+  private readonly surgeriesSubject = new BehaviorSubject<Surgery[]>([]);
+  private sourceValue: SurgerySource = 'local';
+  /** Cirugías cambiadas o creadas sin conexión que el gateway aún no tiene. */
+  private pending = new Set<Surgery['id']>();
+
+  readonly surgeries$: Observable<Surgery[]> = this.surgeriesSubject.asObservable();
+
+  constructor(private api: RfidApi) {
+    this.loadLocal();
+  }
+
+  get surgeries(): Surgery[] {
+    return this.surgeriesSubject.value;
+  }
+
+  get source(): SurgerySource {
+    return this.sourceValue;
+  }
+
+  /** Cambios hechos sin conexión que el gateway aún no tiene. */
+  get pendingCount(): number {
+    return this.pending.size;
+  }
+
+  isPending(surgery: Surgery): boolean {
+    return this.pending.has(surgery.id);
+  }
+
+  get(id: Surgery['id']): Surgery | undefined {
+    return this.surgeries.find((s) => s.id === id);
+  }
+
+  /**
+   * Recarga desde el gateway, conserva los cambios locales pendientes y los envía; si falla,
+   * se queda con los datos locales.
+   */
+  load(): Observable<Surgery[]> {
+    if (!this.api.getBaseUrl()) {
+      this.sourceValue = 'local';
+      this.loadLocal();
+      return of(this.surgeries);
+    }
+    return this.api.getSurgeries().pipe(
+      tap((list) => {
+        this.sourceValue = 'gateway';
+        this.set(this.merge(Array.isArray(list) ? list : []));
+      }),
+      switchMap(() => this.pushPending()),
+      catchError(() => {
+        this.sourceValue = 'local';
+        this.loadLocal();
+        return of(this.surgeries);
+      })
+    );
+  }
+
+  /** Mensaje de validación, o '' si es válido. */
+  validate(input: SurgeryInput): string {
+    if (!input.paciente?.trim()) return 'Paciente requerido';
+    if (!input.procedimiento?.trim()) return 'Procedimiento requerido';
+    if (!/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}/.test(input.fecha || '')) return 'Fecha y hora requeridas';
+    return '';
+  }
+
+  /** Programa una cirugía nueva (estado PROGRAMADA). */
+  schedule(input: SurgeryInput): Observable<Surgery> {
+    const error = this.validate(input);
+    if (error) return throwError(() => new Error(error));
+    const body: Omit<Surgery, 'id'> = {
+      ...this.clean(input),
+      estado: 'PROGRAMADA',
+      actualizadoEn: new Date().toISOString(),
+    };
+    const created =
+      this.sourceValue === 'gateway'
+        ? this.api.createSurgery(body).pipe(map((res) => ({ ...body, ...res })))
+        : null;
+    const request = this.orPending(created, { ...body, id: this.nextLocalId() });
+    return request.pipe(tap((s) => this.upsert(s)));
+  }
+
+  /**
+   * Edita los datos de una cirugía; solo mientras está PROGRAMADA. Las verificaciones de
+   * maletas que se quitan de la cirugía se descartan.
+   */
+  update(id: Surgery['id'], input: SurgeryInput): Observable<Surgery> {
+    const current = this.get(id);
+    if (!current) return throwError(() => new Error(`Cirugía ${id} no encontrada`));
+    if (current.estado !== 'PROGRAMADA') {
+      return throwError(() => new Error('Solo se pueden editar cirugías programadas'));
+    }
+    const error = this.validate(input);
+    if (error) return throwError(() => new Error(error));
+    const changes = this.clean(input);
+    const verificaciones = (current.verificaciones ?? []).filter((v) =>
+      changes.maletaIds?.includes(v.maletaId)
+    );
+    return this.save(current, { ...changes, verificaciones });
+  }
+
+  /**
+   * Cambia el estado respetando SURGERY_TRANSITIONS. Para pasar a EN_PROCESO todas las
+   * maletas asignadas deben estar verificadas en el túnel.
+   */
+  changeStatus(id: Surgery['id'], estado: SurgeryStatus): Observable<Surgery> {
+    const current = this.get(id);
+    if (!current) return throwError(() => new Error(`Cirugía ${id} no encontrada`));
+    if (!canTransition(current.estado, estado)) {
+      return throwError(() => new Error(`No se puede pasar de ${current.estado} a ${estado}`));
+    }
+    const pending = this.pendingMaletaIds(current);
+    if (estado === 'EN_PROCESO' && pending.length > 0) {
+      return throwError(
+        () => new Error(`Faltan ${pending.length} maleta(s) por verificar en el túnel`)
+      );
+    }
+    return this.save(current, { estado });
+  }
+
+  cancel(id: Surgery['id']): Observable<Surgery> {
+    return this.changeStatus(id, 'CANCELADA');
+  }
+
+  isVerified(surgery: Surgery, maletaId: string): boolean {
+    return (surgery.verificaciones ?? []).some((v) => v.maletaId === maletaId);
+  }
+
+  verificationFor(surgery: Surgery, maletaId: string): MaletaVerification | undefined {
+    return surgery.verificaciones?.find((v) => v.maletaId === maletaId);
+  }
+
+  /** Maletas asignadas que aún no pasan por el túnel en verde. */
+  pendingMaletaIds(surgery: Surgery): string[] {
+    return (surgery.maletaIds ?? []).filter((id) => !this.isVerified(surgery, id));
+  }
+
+  /**
+   * Registra que la maleta pasó por el túnel en verde en todas las cirugías programadas que la
+   * tienen asignada y aún no la tienen verificada.
+   */
+  recordVerification(maleta: MaletaItem, readerId: string): Observable<Surgery[]> {
+    const targets = this.surgeries.filter(
+      (s) =>
+        s.estado === 'PROGRAMADA' &&
+        !!s.maletaIds?.includes(maleta.id) &&
+        !this.isVerified(s, maleta.id)
+    );
+    if (targets.length === 0) return of([]);
+    const verification: MaletaVerification = {
+      maletaId: maleta.id,
+      masterRfid: maleta.masterRfid,
+      verificadaEn: new Date().toISOString(),
+      readerId,
+    };
+    return forkJoin(
+      targets.map((s) =>
+        this.save(s, { verificaciones: [...(s.verificaciones ?? []), verification] })
+      )
+    );
+  }
+
+  private save(current: Surgery, changes: Partial<Surgery>): Observable<Surgery> {
+    const body = { ...changes, actualizadoEn: new Date().toISOString() };
+    const merged: Surgery = { ...current, ...body };
+    const updated =
+      this.sourceValue === 'gateway'
+        ? this.api.updateSurgery(current.id, body).pipe(map((res) => ({ ...merged, ...res })))
+        : null;
+    const request = this.orPending(updated, merged);
+    return request.pipe(tap((s) => this.upsert(s)));
+  }
+
+  /**
+   * Envía al gateway; sin gateway (`request` null) o si no responde, guarda `local` como
+   * pendiente para el siguiente `load()`. Un rechazo del gateway (4xx) sí es error.
+   */
+  private orPending(request: Observable<Surgery> | null, local: Surgery): Observable<Surgery> {
+    const pending = defer(() => {
+      this.markPending(local.id);
+      return of(local);
+    });
+    if (!request) return pending;
+    return request.pipe(catchError((e) => (isUnreachable(e) ? pending : throwError(() => e))));
+  }
+
+  /**
+   * Lista del gateway con los cambios locales pendientes encima. Si la cirugía se modificó
+   * después en el gateway, gana la versión del gateway y el cambio local se descarta.
+   */
+  private merge(remoteList: Surgery[]): Surgery[] {
+    const local = new Map(this.surgeries.map((s) => [s.id, s]));
+    const merged = remoteList.map((r) => {
+      const l = local.get(r.id);
+      if (l && this.pending.has(r.id) && (r.actualizadoEn ?? '') <= (l.actualizadoEn ?? '')) {
+        return l;
+      }
+      this.pending.delete(r.id);
+      return r;
+    });
+    const createdHere = this.surgeries.filter(
+      (s) => isLocalSurgeryId(s.id) && this.pending.has(s.id)
+    );
+    this.savePending();
+    return [...merged, ...createdHere];
+  }
+
+  /**
+   * Envía cada pendiente por separado: las creadas sin conexión se dan de alta y toman el id
+   * del gateway; las demás se actualizan. Un error deja solo esa como pendiente.
+   */
+  private pushPending(): Observable<Surgery[]> {
+    const requests = [...this.pending].map((id) => {
+      const surgery = this.get(id);
+      if (!surgery) {
+        this.pending.delete(id);
+        return of(null);
+      }
+      const { id: _, ...body } = surgery;
+      const request = isLocalSurgeryId(id)
+        ? this.api.createSurgery(body)
+        : this.api.updateSurgery(id, body);
+      return request.pipe(
+        tap((res) => {
+          this.pending.delete(id);
+          const saved: Surgery = { ...surgery, ...res };
+          this.set(this.surgeries.map((s) => (s.id === id ? saved : s)));
+        }),
+        catchError(() => of(null))
+      );
+    });
+    return (requests.length > 0 ? forkJoin(requests) : of([])).pipe(
+      map(() => {
+        this.savePending();
+        return this.surgeries;
+      })
+    );
+  }
+
+  private clean(input: SurgeryInput): SurgeryInput {
+    return {
+      paciente: input.paciente.trim(),
+      procedimiento: input.procedimiento.trim(),
+      fecha: input.fecha,
+      quirofano: input.quirofano?.trim() || undefined,
+      notas: input.notas?.trim() || undefined,
+      maletaIds: [...new Set(input.maletaIds ?? [])],
+    };
+  }
+
+  private nextLocalId(): string {
+    const max = this.surgeries
+      .filter((s) => isLocalSurgeryId(s.id))
+      .reduce((n, s) => Math.max(n, Number(String(s.id).slice(LOCAL_ID_PREFIX.length)) || 0), 0);
+    return `${LOCAL_ID_PREFIX}${max + 1}`;
+  }
+
+  private markPending(id: Surgery['id']): void {
+    this.pending.add(id);
+    this.savePending();
+  }
+
+  private savePending(): void {
+    try {
+      localStorage.setItem(SURGERY_PENDING_KEY, JSON.stringify([...this.pending]));
+    } catch {}
+  }
+
+  private upsert(surgery: Surgery): void {
+    const exists = this.surgeries.some((s) => s.id === surgery.id);
+    this.set(
+      exists
+        ? this.surgeries.map((s) => (s.id === surgery.id ? surgery : s))
+        : [...this.surgeries, surgery]
+    );
+  }
+
+  private set(list: Surgery[]): void {
+    this.surgeriesSubject.next(list);
+    try {
+      localStorage.setItem(SURGERY_STORAGE_KEY, JSON.stringify(list));
+    } catch {}
+  }
+
+  private loadLocal(): void {
+    try {
+      const raw = localStorage.getItem(SURGERY_PENDING_KEY);
+      this.pending = new Set(raw ? JSON.parse(raw) : []);
+    } catch {}
+    try {
+      const raw = localStorage.getItem(SURGERY_STORAGE_KEY);
+      this.surgeriesSubject.next(raw ? JSON.parse(raw) : []);
+    } catch {
+      this.surgeriesSubject.next([]);
+    }
+  }
+}
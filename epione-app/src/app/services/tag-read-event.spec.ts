@@ -0,0 +1,163 @@
+import { parseGatewayEvent, TagReadEvent } from './tag-read-event';
+import fixtures from './fixtures/gateway-events.json';
+
+const RECEIVED_AT = new Date('2026-03-14T16:05:00.000Z');
+
+function reads(payload: unknown): TagReadEvent[] {
+  const result = parseGatewayEvent(payload, RECEIVED_AT);
+  if (result.kind !== 'tags') throw new Error(`se esperaban tags, llegó ${JSON.stringify(result)}`);
+  return result.reads;
+}
+
+describe('parseGatewayEvent', () => {
+  it('tag plano con todos los campos', () => {
+    expect(parseGatewayEvent(fixtures.flat, RECEIVED_AT)).toEqual({
+      kind: 'tags',
+      shape: 'flat',
+      reads: [
+        {
+          epc: 'E28011606000020D6D8B3C21',
+          tid: 'E2801160200074CF085A0BA1',
+          readerId: 'reader1',
+          antennaPort: 2,
+          rssi: -58.5,
+          phase: 87.89,
+          channel: 915.25,
+          timestamp: new Date('2026-03-14T16:02:11.428Z'),
+          eventType: 'read',
+        },
+      ],
+    });
+  });
+
+  describe('formas anteriores del gateway', () => {
+    it('EPC en tagId, con lector, antena y RSSI en otras llaves', () => {
+      const [read] = reads(fixtures.flatLegacyTagId);
+      expect(read).toMatchObject({
+        epc: 'E28011606000020D6D8B3C22',
+        readerId: 'reader1',
+        antennaPort: 3,
+        rssi: -61,
+        timestamp: new Date(1773504131428),
+      });
+    });
+
+    it('EPC en tag_id', () => {
+      const [read] = reads(fixtures.flatLegacyTagIdSnake);
+      expect(read).toMatchObject({
+        epc: 'E28011606000020D6D8B3C23',
+        readerId: 'reader2',
+        antennaPort: 1,
+      });
+    });
+
+    it('tag anidado como objeto hereda lector y antena', () => {
+      const [read] = reads(fixtures.nestedTagObject);
+      expect(read).toMatchObject({
+        epc: 'E28011606000020D6D8B3C24',
+        readerId: 'reader1',
+        antennaPort: 4,
+        rssi: -49,
+        timestamp: RECEIVED_AT,
+      });
+    });
+
+    it('tag anidado como texto', () => {
+      const [read] = reads(fixtures.nestedTagString);
+      expect(read).toMatchObject({
+        epc: 'E28011606000020D6D8B3C25',
+        readerId: 'reader2',
+        antennaPort: 1,
+      });
+    });
+  });
+
+  it('lote: cada tag hereda del envoltorio lo que no trae', () => {
+    const result = parseGatewayEvent(fixtures.batch, RECEIVED_AT);
+    expect(result.kind === 'tags' && result.shape).toBe('batch');
+    expect(reads(fixtures.batch).map((r) => [r.epc, r.readerId, r.antennaPort])).toEqual([
+      ['E28011606000020D6D8B3C26', 'reader1', 1],
+      ['E28011606000020D6D8B3C27', 'reader1', 3],
+      ['E28011606000020D6D8B3C28', 'reader1', 1],
+    ]);
+    expect(reads(fixtures.batch)[0].timestamp).toEqual(new Date(1773504131428));
+  });
+
+  it('envoltorio con data', () => {
+    const result = parseGatewayEvent(fixtures.envelope, RECEIVED_AT);
+    expect(result.kind === 'tags' && result.shape).toBe('envelope');
+    expect(reads(fixtures.envelope)[0]).toMatchObject({
+      epc: 'E28011606000020D6D8B3C29',
+      readerId: 'reader2',
+      antennaPort: 2,
+      eventType: 'arrive',
+      timestamp: new Date('2026-03-14T16:02:12.000Z'),
+    });
+  });
+
+  it('envoltorio con payload y tag anidado', () => {
+    expect(reads(fixtures.envelopeNestedTag)[0]).toMatchObject({
+      epc: 'E28011606000020D6D8B3C2A',
+      readerId: 'reader2',
+    });
+  });
+
+  it('Impinj IoT: RSSI en cdBm y frecuencia en kHz', () => {
+    const result = parseGatewayEvent(fixtures.impinj, RECEIVED_AT);
+    expect(result.kind === 'tags' && result.shape).toBe('impinj');
+    expect(reads(fixtures.impinj)[0]).toEqual({
+      epc: 'E28011606000020D6D8B3C2B',
+      tid: 'E2801160200074CF085A0BA2',
+      readerId: 'impinj-14-17-c1',
+      antennaPort: 1,
+      rssi: -58.5,
+      phase: 45.5,
+      channel: 915.25,
+      timestamp: new Date('2026-03-14T16:02:13.500Z'),
+      eventType: 'read',
+    });
+  });
+
+  it('heartbeats y estado del lector son de control', () => {
+    expect(parseGatewayEvent(fixtures.heartbeat)).toEqual({ kind: 'control', type: 'heartbeat' });
+    expect(parseGatewayEvent(fixtures.readerStatus)).toEqual({
+      kind: 'control',
+      type: 'reader_status',
+    });
+  });
+
+  describe('rechazos', () => {
+    it.each([
+      ['epc numérico', fixtures.numericEpc],
+      ['tagId numérico', fixtures.numericTagId],
+      ['epc numérico en tag anidado', fixtures.numericNestedEpc],
+      ['EPC que no es hexadecimal', fixtures.notHexEpc],
+      ['forma desconocida', fixtures.unknown],
+    ])('%s', (_, payload) => {
+      expect(parseGatewayEvent(payload)).toEqual({
+        kind: 'rejected',
+        reason: 'forma de payload desconocida',
+      });
+    });
+
+    it('epcHex numérico de Impinj', () => {
+      expect(parseGatewayEvent(fixtures.numericImpinjEpc)).toEqual({
+        kind: 'rejected',
+        reason: 'epcHex inválido',
+      });
+    });
+
+    it('un lote con un tag inválido se rechaza completo', () => {
+      expect(parseGatewayEvent(fixtures.batchWithNumericEpc)).toEqual({
+        kind: 'rejected',
+        reason: 'tag inválido en lote (posición 1)',
+      });
+    });
+
+    it('lo que no es objeto JSON', () => {
+      for (const payload of [null, 'E28011606000020D6D8B3C21', 42, [fixtures.flat]]) {
+        expect(parseGatewayEvent(payload).kind).toBe('rejected');
+      }
+    });
+  });
+});
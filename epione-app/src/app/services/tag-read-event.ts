@@ -0,0 +1,195 @@
+/** Tipo de evento de lectura que reporta el gateway. */
+export type TagEventType = 'read' | 'arrive' | 'depart';
+
+/** Lectura de un tag RFID tal como la entrega el gateway, ya normalizada. */
+export interface TagReadEvent {
+  /** EPC en hexadecimal. */
+  epc: string;
+  tid: string | null;
+  readerId: string | null;
+  antennaPort: number | null;
+  /** RSSI en dBm. */
+  rssi: number | null;
+  /** Fase en grados. */
+  phase: number | null;
+  /** Frecuencia del canal en MHz (o índice de canal si el gateway no da MHz). */
+  channel: number | null;
+  timestamp: Date;
+  eventType: TagEventType;
+}
+
+/** Formas de payload conocidas del gateway. */
+export type GatewayPayloadShape = 'flat' | 'batch' | 'envelope' | 'impinj';
+
+export type GatewayEventParseResult =
+  | { kind: 'tags'; shape: GatewayPayloadShape; reads: TagReadEvent[] }
+  | { kind: 'control'; type: string }
+  | { kind: 'rejected'; reason: string };
+
+/** Tipos de evento del gateway que no son lecturas (heartbeats, estado del lector). */
+const CONTROL_TYPES = ['heartbeat', 'keepalive', 'ping', 'status', 'reader_status', 'readerStatus'];
+
+const EPC_PATTERN = /^[0-9A-Fa-f]{4,128}$/;
+
+type Json = Record<string, unknown>;
+
+function isObject(v: unknown): v is Json {
+  return !!v && typeof v === 'object' && !Array.isArray(v);
+}
+
+function str(v: unknown): string | null {
+  if (typeof v === 'string' && v.trim()) return v.trim();
+  if (typeof v === 'number' && Number.isFinite(v)) return String(v);
+  return null;
+}
+
+function num(v: unknown): number | null {
+  if (typeof v === 'number' && Number.isFinite(v)) return v;
+  if (typeof v === 'string' && v.trim() && Number.isFinite(Number(v))) return Number(v);
+  return null;
+}
+
+function firstOf(d: Json, keys: string[]): unknown {
+  for (const k of keys) {
+    if (d[k] !== undefined && d[k] !== null) return d[k];
+  }
+  return undefined;
+}
+
+/** Acepta ISO 8601, epoch en ms o en µs (algunos lectores Impinj). */
+function parseTimestamp(v: unknown, fallback: Date): Date {
+  if (typeof v === 'string' && v.trim()) {
+    const asNum = Number(v);
+    if (Number.isFinite(asNum)) return parseTimestamp(asNum, fallback);
+    const d = new Date(v);
+    return Number.isNaN(d.getTime()) ? fallback : d;
+  }
+  if (typeof v === 'number' && Number.isFinite(v) && v > 0) {
+    const ms = v > 1e14 ? v / 1000 : v;
+    return new Date(ms);
+  }
+  return fallback;
+}
+
+function parseEventType(v: unknown): TagEventType {
+  const t = typeof v === 'string' ? v.toLowerCase() : '';
+  if (t === 'arrive' || t === 'arrival') return 'arrive';
+  if (t === 'depart' || t === 'departure') return 'depart';
+  return 'read';
+}
+
+/** Valores del envoltorio (lector, antena, hora) que heredan los tags si no los traen. */
+interface ReadDefaults {
+  readerId: string | null;
+  antennaPort: number | null;
+  timestamp: Date;
+}
+
+/** Llaves del EPC en un tag plano; `tagId`/`tag_id` son de versiones anteriores del gateway. */
+const EPC_KEYS = ['epc', 'EPC', 'tagEPC', 'epcHex', 'tagId', 'tag_id'];
+
+/** El EPC debe venir como texto hexadecimal: un número perdería ceros a la izquierda. */
+function epcOf(v: unknown): string | null {
+  if (typeof v !== 'string') return null;
+  const epc = v.trim();
+  return EPC_PATTERN.test(epc) ? epc : null;
+}
+
+/**
+ * Tag en forma plana: `{ epc, readerId, antenna, rssi, phase, channel, timestamp }`.
+ * También `{ tag: 'E280…' }` o `{ readerId, tag: { epc, … } }` (el anidado hereda lector y antena).
+ */
+function parseFlatTag(d: Json, defaults: ReadDefaults): TagReadEvent | null {
+  const tag = d['tag'];
+  if (isObject(tag)) return parseFlatTag(tag, envelopeDefaults(d, defaults));
+  const epc = epcOf(firstOf(d, [...EPC_KEYS, 'tag']));
+  if (!epc) return null;
+  return {
+    epc,
+    tid: str(firstOf(d, ['tid', 'TID', 'tidHex'])),
+    readerId: str(firstOf(d, ['readerId', 'reader_id', 'reader'])) ?? defaults.readerId,
+    antennaPort: num(firstOf(d, ['antennaPort', 'antenna', 'antenna_port', 'port'])) ?? defaults.antennaPort,
+    rssi: num(firstOf(d, ['rssi', 'peakRssi', 'RSSI'])),
+    phase: num(firstOf(d, ['phase', 'phaseAngle'])),
+    channel: num(firstOf(d, ['channel', 'frequency', 'channelMhz'])),
+    timestamp: parseTimestamp(firstOf(d, ['timestamp', 'ts', 'time', 'seenAt']), defaults.timestamp),
+    eventType: parseEventType(firstOf(d, ['eventType', 'type'])),
+  };
+}
+
+/** Formato Impinj IoT Device Interface: `{ eventType: 'tagInventory', tagInventoryEvent: {...} }`. */
+function parseImpinj(d: Json, receivedAt: Date): GatewayEventParseResult {
+  const inv = d['tagInventoryEvent'];
+  if (!isObject(inv)) return { kind: 'rejected', reason: 'tagInventoryEvent vacío' };
+  const epc = epcOf(inv['epcHex']);
+  if (!epc) return { kind: 'rejected', reason: 'epcHex inválido' };
+  const rssiCdbm = num(inv['peakRssiCdbm']);
+  const freqKhz = num(inv['frequency']);
+  return {
+    kind: 'tags',
+    shape: 'impinj',
+    reads: [
+      {
+        epc,
+        tid: str(inv['tidHex']),
+        readerId: str(d['hostname']),
+        antennaPort: num(inv['antennaPort']),
+        rssi: rssiCdbm !== null ? rssiCdbm / 100 : null,
+        phase: num(inv['phaseAngle']),
+        channel: freqKhz !== null ? freqKhz / 1000 : null,
+        timestamp: parseTimestamp(d['timestamp'], receivedAt),
+        eventType: 'read',
+      },
+    ],
+  };
+}
+
+/** Lote: `{ readerId, antenna?, timestamp?, tags: [...] }`. Todos los tags deben ser válidos. */
+function parseBatch(d: Json, defaults: ReadDefaults): GatewayEventParseResult {
+  const tags = d['tags'] as unknown[];
+  const reads: TagReadEvent[] = [];
+  for (const t of tags) {
+    const read = isObject(t) ? parseFlatTag(t, defaults) : null;
+    if (!read) return { kind: 'rejected', reason: `tag inválido en lote (posición ${reads.length})` };
+    reads.push(read);
+  }
+  if (reads.length === 0) return { kind: 'rejected', reason: 'lote sin tags' };
+  return { kind: 'tags', shape: 'batch', reads };
+}
+
+function envelopeDefaults(d: Json, fallback: ReadDefaults): ReadDefaults {
+  return {
+    readerId: str(firstOf(d, ['readerId', 'reader_id', 'reader'])) ?? fallback.readerId,
+    antennaPort: num(firstOf(d, ['antennaPort', 'antenna'])) ?? fallback.antennaPort,
+    timestamp: parseTimestamp(firstOf(d, ['timestamp', 'ts', 'time']), fallback.timestamp),
+  };
+}
+
+function parseObject(d: Json, defaults: ReadDefaults, nested: boolean): GatewayEventParseResult {
+  if (d['eventType'] === 'tagInventory') return parseImpinj(d, defaults.timestamp);
+
+  const type = str(firstOf(d, ['type', 'event']));
+  if (type && CONTROL_TYPES.includes(type)) return { kind: 'control', type };
+
+  if (Array.isArray(d['tags'])) return parseBatch(d, envelopeDefaults(d, defaults));
+
+  const flat = parseFlatTag(d, defaults);
+  if (flat) return { kind: 'tags', shape: 'flat', reads: [flat] };
+
+  const inner = firstOf(d, ['data', 'payload']);
+  if (!nested && isObject(inner)) {
+    const result = parseObject(inner, envelopeDefaults(d, defaults), true);
+    if (result.kind === 'tags' && result.shape === 'flat') return { ...result, shape: 'envelope' };
+    return result;
+  }
+  return { kind: 'rejected', reason: 'forma de payload desconocida' };
+}
+
+/**
+ * Interpreta un evento del gateway (ya parseado de JSON). Solo reconoce las formas
+ * conocidas; cualquier otra cosa se devuelve como `rejected` y nunca cuenta como tag.
+ */
+export function parseGatewayEvent(data: unknown, receivedAt = new Date()): GatewayEventParseResult {
+  if (!isObject(data)) return { kind: 'rejected', reason: 'el evento no es un objeto JSON' };
+  return parseObject(data, { readerId: null, antennaPort: null, timestamp: receivedAt }, false);
+}
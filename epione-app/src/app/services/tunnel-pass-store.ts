@@ -0,0 +1,158 @@
+import { Injectable } from '@angular/core';
+import { BehaviorSubject, Observable } from 'rxjs';
+import { SemaphoreStatus } from './maleta-store';
+
+/**
+ * Resultado de una pasada, en orden de gravedad: caducado > sin esterilizar > faltantes >
+ * extras > completa.
+ */
+export type TunnelPassResult = 'expired' | 'not-sterile' | 'missing' | 'extra' | 'complete';
+
+/** Una maleta pasando por el túnel: desde que se lee su maestro hasta el silencio. */
+export interface TunnelPass {
+  id: string;
+  maletaId: string;
+  masterRfid: string;
+  readerId: string;
+  startedAt: string;
+  endedAt: string;
+  result: TunnelPassResult;
+  /** Semáforo de la maleta al cerrar la pasada. */
+  status: SemaphoreStatus;
+  /** RFIDs y piezas de la plantilla que no se leyeron. */
+  missing: string[];
+  /** Etiquetas leídas en la pasada que no son de esta maleta. */
+  extra: string[];
+  expired: string[];
+  uniqueTags: number;
+  /** Cuándo el operador confirmó el resultado (tecla o pedal en modo quiosco). */
+  acknowledgedAt?: string;
+}
+
+/** Pasada abierta: su maestro ya se leyó y aún no llega el silencio que la cierra. */
+export type OpenTunnelPass = Pick<TunnelPass, 'maletaId' | 'masterRfid' | 'readerId' | 'startedAt'>;
+
+export const DEFAULT_PASS_QUIET_SECONDS = 3;
+
+const PASSES_STORAGE_KEY = 'tunnel_passes';
+const PASS_SETTINGS_KEY = 'tunnel_pass_settings';
+const MAX_PASSES = 500;
+
+export function passResultLabel(result: TunnelPassResult): string {
+  switch (result) {
+    case 'expired': return 'Con caducados';
+    case 'not-sterile': return 'Sin esterilizar';
+    case 'missing': return 'Incompleta';
+    case 'extra': return 'Con extras';
+    case 'complete': return 'Completa';
+  }
+}
+
+/**
+ * Pasadas por el túnel en modo automático y su configuración (activado y segundos de silencio
+ * que cierran la pasada). La detección la hace la pantalla Maleta, que evalúa cada maleta.
+ */
+@Injectable({ providedIn: 'root' })
+export class TunnelPassStore {
+  private readonly passesSubject = new BehaviorSubject<TunnelPass[]>([]);
+  private readonly currentSubject = new BehaviorSubject<OpenTunnelPass | null>(null);
+  private enabledValue = false;
+  private quietSecondsValue = DEFAULT_PASS_QUIET_SECONDS;
+
+  /** Pasadas registradas, la más reciente primero. */
+  readonly passes$: Observable<TunnelPass[]> = this.passesSubject.asObservable();
+  readonly current$: Observable<OpenTunnelPass | null> = this.currentSubject.asObservable();
+
+  constructor() {
+    this.load();
+  }
+
+  get passes(): TunnelPass[] {
+    return this.passesSubject.value;
+  }
+
+  get current(): OpenTunnelPass | null {
+    return this.currentSubject.value;
+  }
+
+  get enabled(): boolean {
+    return this.enabledValue;
+  }
+
+  /** Segundos sin lecturas que dan por terminada la pasada. */
+  get quietSeconds(): number {
+    return this.quietSecondsValue;
+  }
+
+  setEnabled(enabled: boolean): void {
+    this.enabledValue = enabled;
+    this.saveSettings();
+  }
+
+  setQuietSeconds(seconds: number): void {
+    if (!Number.isFinite(seconds) || seconds < 1) return;
+    this.quietSecondsValue = seconds;
+    this.saveSettings();
+  }
+
+  lastFor(maletaId: string): TunnelPass | undefined {
+    return this.passes.find((p) => p.maletaId === maletaId);
+  }
+
+  /** La pantalla Maleta avisa cuándo abre (o descarta) una pasada. */
+  setCurrent(pass: OpenTunnelPass | null): void {
+    this.currentSubject.next(pass);
+  }
+
+  record(pass: Omit<TunnelPass, 'id'>): TunnelPass {
+    const saved: TunnelPass = { ...pass, id: `pasada_${Date.now()}` };
+    this.currentSubject.next(null);
+    this.set([saved, ...this.passes].slice(0, MAX_PASSES));
+    return saved;
+  }
+
+  acknowledge(id: string): void {
+    const at = new Date().toISOString();
+    this.set(
+      this.passes.map((p) => (p.id === id && !p.acknowledgedAt ? { ...p, acknowledgedAt: at } : p))
+    );
+  }
+
+  clear(): void {
+    this.passesSubject.next([]);
+    try {
+      localStorage.removeItem(PASSES_STORAGE_KEY);
+    } catch {}
+  }
+
+  private set(list: TunnelPass[]): void {
+    this.passesSubject.next(list);
+    try {
+      localStorage.setItem(PASSES_STORAGE_KEY, JSON.stringify(list));
+    } catch {}
+  }
+
+  private saveSettings(): void {
+    try {
+      localStorage.setItem(
+        PASS_SETTINGS_KEY,
+        JSON.stringify({ enabled: this.enabledValue, quietSeconds: this.quietSecondsValue })
+      );
+    } catch {}
+  }
+
+  private load(): void {
+    try {
+      const raw = localStorage.getItem(PASS_SETTINGS_KEY);
+      const settings = raw ? JSON.parse(raw) : null;
+      this.enabledValue = settings?.enabled === true;
+      if (Number(settings?.quietSeconds) >= 1) this.quietSecondsValue = Number(settings.quietSeconds);
+    } catch {}
+    try {
+      const raw = localStorage.getItem(PASSES_STORAGE_KEY);
+      this.passesSubject.next(raw ? JSON.parse(raw) : []);
+    } catch {
+      this.passesSubject.next([]);
+    }
+  }
+}
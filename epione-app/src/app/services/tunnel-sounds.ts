@@ -0,0 +1,82 @@
+import { Injectable } from '@angular/core';
+import { TunnelPassResult } from './tunnel-pass-store';
+
+/** Un tono: frecuencia (Hz), inicio y duración (s) relativos al comienzo del sonido. */
+interface Tone {
+  freq: number;
+  start: number;
+  duration: number;
+  wave: OscillatorType;
+}
+
+/**
+ * Sonido distinto por resultado, para reconocerlo sin mirar la pantalla: completa = dos tonos
+ * ascendentes; incompleta = tres tonos graves; extras = dos tonos alternados; caducado y sin
+ * esterilizar = zumbido largo (no debe entrar a quirófano).
+ */
+const RESULT_TONES: Record<TunnelPassResult, Tone[]> = {
+  complete: [
+    { freq: 880, start: 0, duration: 0.12, wave: 'sine' },
+    { freq: 1320, start: 0.15, duration: 0.2, wave: 'sine' },
+  ],
+  missing: [
+    { freq: 440, start: 0, duration: 0.18, wave: 'square' },
+    { freq: 440, start: 0.28, duration: 0.18, wave: 'square' },
+    { freq: 440, start: 0.56, duration: 0.18, wave: 'square' },
+  ],
+  extra: [
+    { freq: 660, start: 0, duration: 0.15, wave: 'triangle' },
+    { freq: 520, start: 0.18, duration: 0.15, wave: 'triangle' },
+    { freq: 660, start: 0.36, duration: 0.15, wave: 'triangle' },
+    { freq: 520, start: 0.54, duration: 0.15, wave: 'triangle' },
+  ],
+  expired: [{ freq: 180, start: 0, duration: 1.1, wave: 'sawtooth' }],
+  'not-sterile': [{ freq: 180, start: 0, duration: 1.1, wave: 'sawtooth' }],
+};
+
+/** Sonidos del quiosco del túnel, generados con Web Audio (sin archivos de audio). */
+@Injectable({ providedIn: 'root' })
+export class TunnelSounds {
+  private context: AudioContext | null = null;
+
+  /**
+   * El navegador solo deja sonar audio después de un gesto del usuario: se llama al abrir el
+   * quiosco desde su botón.
+   */
+  unlock(): void {
+    const ctx = this.audio();
+    if (ctx?.state === 'suspended') ctx.resume().catch(() => {});
+  }
+
+  play(result: TunnelPassResult): void {
+    const ctx = this.audio();
+    if (!ctx) return;
+    const now = ctx.currentTime;
+    for (const tone of RESULT_TONES[result]) {
+      const osc = ctx.createOscillator();
+      const gain = ctx.createGain();
+      osc.type = tone.wave;
+      osc.frequency.value = tone.freq;
+      /* Rampa corta de entrada y salida para evitar chasquidos. */
+      const start = now + tone.start;
+      const end = start + tone.duration;
+      gain.gain.setValueAtTime(0, start);
+      gain.gain.linearRampToValueAtTime(0.3, start + 0.01);
+      gain.gain.setValueAtTime(0.3, end - 0.02);
+      gain.gain.linearRampToValueAtTime(0, end);
+      osc.connect(gain).connect(ctx.destination);
+      osc.start(start);
+      osc.stop(end);
+    }
+  }
+
+  private audio(): AudioContext | null {
+    if (this.context) return this.context;
+    try {
+      this.context = new AudioContext();
+    } catch {
+      this.context = null;
+    }
+    return this.context;
+  }
+}
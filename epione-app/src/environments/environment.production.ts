@@ -1,4 +1,8 @@
 export const environment = {
   production: true,
   rfidGatewayUrl: 'http://rfid.leyluz.com',
+  /** 'gateway' = login con `/api/auth` del gateway; 'local' = usuarios de prueba sin servidor. */
+  authProvider: 'gateway' as 'gateway' | 'local',
+  /** Reintentos de GET ante fallas de red, timeout o 502/503/504 (ver `gatewayErrorInterceptor`). */
+  httpRetry: { attempts: 3, delayMs: 500, timeoutMs: 15000 },
 };
@@ -1,4 +1,8 @@
 export const environment = {
   production: false,
   rfidGatewayUrl: 'http://localhost:8080',
+  /** 'gateway' = login con `/api/auth` del gateway; 'local' = usuarios de prueba sin servidor. */
+  authProvider: 'local' as 'gateway' | 'local',
+  /** Reintentos de GET ante fallas de red, timeout o 502/503/504 (ver `gatewayErrorInterceptor`). */
+  httpRetry: { attempts: 2, delayMs: 500, timeoutMs: 15000 },
 };